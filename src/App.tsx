@@ -6,13 +6,109 @@ import {
   Tooltip,
   ResponsiveContainer,
   LineChart,
+  BarChart,
+  Bar,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
+  ReferenceLine,
   Legend,
 } from "recharts";
 import { Helmet, HelmetProvider } from "https://esm.sh/react-helmet-async";
+import {
+  type AppState,
+  DEFAULT_STATE,
+  DEPARTEMENTS,
+  type NotaryFeesBreakdown,
+  toNum,
+  nz,
+  VIAGER_MODES,
+  MORTALITY_TABLES,
+  ANNEE_CALCUL_MORTALITE,
+  type MortalityTable,
+  SCPI_MODES,
+  simulateLocationNue,
+  simulateLocationMeublee,
+  REGIMES_BIC,
+  type RegimeBic,
+  REGIMES_FONCIERS,
+  type RegimeFoncier,
+  simulateViager,
+  simulateViagerMonteCarlo,
+  type ViagerMonteCarloResult,
+  simulateScpi,
+  simulateLocalCommercial,
+  simulateCreditImmo,
+  simulateCapaciteEmprunt,
+  impactEndettement,
+  type CapaciteEmpruntResult,
+  EVENEMENTS_PRET,
+  OPTIONS_REMBOURSEMENT,
+  type TypeEvenementPret,
+  TYPES_AMORTISSEMENT,
+  type TypeAmortissement,
+  TYPES_DIFFERE,
+  GARANTIES,
+  type Garantie,
+  TRANCHES_USURE,
+  type TypeDiffere,
+  TYPES_LIGNE_PRET,
+  type TypeLignePret,
+  type OptionRemboursement,
+  TYPES_TAUX,
+  type TypeTaux,
+  SCENARIOS_INDEX,
+  type ScenarioIndex,
+  AJUSTEMENTS_REVISION,
+  type AjustementRevision,
+  compareStrategies,
+  STRATEGIES,
+  CRITERES_COMPARAISON,
+  type CritereComparaison,
+  type StrategieComparee,
+  ONGLETS_SIMULATEURS,
+  type OngletSimulateur,
+  estOngletSimulateur,
+  CLES_ONGLETS,
+  sectionRapport,
+  type Scenario,
+  creerScenario,
+  dupliquerScenario,
+  renommerScenario,
+  appliquerScenario,
+  exporterBibliotheque,
+  importerBibliotheque,
+  validerScenario,
+  type Variante,
+  type EcartVariante,
+  comparerVariantes,
+  formatValeurRapport,
+  type LigneRapport,
+  type RestaurationEtat,
+  restaurerEtat,
+  versionnerEtat,
+  encoderPartage,
+  decoderPartage,
+  appliquerPartage,
+  type OngletSensibilite,
+  estOngletSensibilite,
+  analyserSensibilite,
+  type AnalyseSensibilite,
+  INDICATEURS,
+  indicateurParDefaut,
+  champsNumeriques,
+  type AxeTable,
+  AXES_PAR_DEFAUT,
+  TAILLE_MAX_AXE,
+  axeParDefaut,
+  calculerTableDonnees,
+  appliquerCellule,
+  type ResultatValeurCible,
+  plageRecherche,
+  chercherValeurCible,
+} from "./engine";
+import { ROUTES, ecrireRoute, lireRoute } from "./routes";
 
 // Configuration pour l'impression
 const printStyles = `
@@ -36,22 +132,16 @@ const printStyles = `
 const fmt = (n: number, d = 2) =>
   isFinite(n) ? n.toLocaleString("fr-FR", { maximumFractionDigits: d, minimumFractionDigits: d }) : "—";
 
-// Parsing FR (gère virgule décimale, espaces, points)
-const toNum = (v: string) => {
-  let s = (v || "").toString().trim();
-  s = s.replace(/\s/g, "");
-  if (s.includes(",")) {
-    s = s.replace(/\./g, "");
-    s = s.replace(",", ".");
-  }
-  return Number(s) || 0;
-};
-
-// Frais de notaire (ancien) ~7.5%
-function calculateNotaryFees(price: number) {
-  if (price <= 0) return 0;
-  const FEE_RATE_OLD = 0.075;
-  return price * FEE_RATE_OLD;
+// Téléchargement d'un fichier généré côté navigateur
+function telecharger(blob: Blob, nom: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = nom;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 }
 
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
@@ -146,7 +236,7 @@ function SelectField({
   label: string;
   value: string;
   onChange: (v: string) => void;
-  options: string[];
+  options: (string | { value: string; label: string })[];
   help?: string;
 }) {
   return (
@@ -163,9 +253,13 @@ function SelectField({
           value={value}
           onChange={(e) => onChange(e.target.value)}
         >
-          {options.map((opt) => (
-            <option key={opt} value={opt}>{opt}</option>
-          ))}
+          {options.map((opt) =>
+            typeof opt === "string" ? (
+              <option key={opt} value={opt}>{opt}</option>
+            ) : (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            )
+          )}
         </select>
       </span>
     </label>
@@ -287,197 +381,21 @@ function DonutWithTotal({
   );
 }
 
-/*********************
- * FORMULES FINANCIÈRES
- *********************/
-function annuityPayment(capital: number, ratePct: number, years: number) {
-  const r = ratePct / 100 / 12;
-  const n = Math.round(years * 12);
-  if (n === 0 || capital === 0) return 0;
-  if (r <= 0) return capital / n;
-  return (capital * r) / (1 - Math.pow(1 + r, -n));
-}
-
-function presentValueAnnuity(monthly: number, years: number, discountPct: number) {
-  const r = discountPct / 100 / 12;
-  const n = Math.round(years * 12);
-  if (n === 0 || monthly === 0) return 0;
-  if (r === 0) return monthly * n;
-  return monthly * ((1 - Math.pow(1 + r, -n)) / r) * (1 + r);
-}
-
-function pvIndexedAnnuity(monthly: number, years: number, discountPct: number, indexPct: number) {
-  const r = discountPct / 100 / 12;
-  const g = indexPct / 100 / 12;
-  const n = Math.round(years * 12);
-  const q = (1 + g) / (1 + r);
-  if (q === 1) return monthly * n;
-  return (monthly * (1 - Math.pow(q, n))) / (1 - q);
-}
+const COLORS = ["#3559E0", "#F2C94C", "#E67E22", "#27AE60", "#9B51E0", "#EB5757", "#2D9CDB"];
 
-function solveMonthlyFromPV(targetPV: number, years: number, discountPct: number, indexPct: number) {
-  const ref = pvIndexedAnnuity(100, years, discountPct, indexPct);
-  return ref ? (targetPV / ref) * 100 : 0;
-}
+// Sélecteur de département (droits de mutation)
+const DEPARTEMENT_OPTIONS = DEPARTEMENTS.map((d) => ({ value: d.code, label: `${d.code} – ${d.nom}` }));
 
-/*********************
- * TABLE INSEE SIMPLIFIÉE
- *********************/
-function getEsperanceVie(age: number, sexe: string) {
-  const tableF: Record<number, number> = { 50: 36, 55: 31.5, 60: 27, 65: 22.5, 70: 18.8, 75: 15, 80: 11.5, 85: 8.5, 90: 6.2, 95: 4.5, 100: 3.5 };
-  const tableM: Record<number, number> = { 50: 32, 55: 28, 60: 24, 65: 20, 70: 16.5, 75: 13, 80: 10, 85: 7.5, 90: 5.5, 95: 4, 100: 3 };
-  const keys = Object.keys(tableF).map(Number).sort((a, b) => a - b);
-  const tbl = sexe.toLowerCase().startsWith("h") ? tableM : tableF;
-
-  if (age <= keys[0]) return tbl[keys[0]];
-  if (age >= keys[keys.length - 1]) return tbl[keys[keys.length - 1]];
-
-  for (let i = 1; i < keys.length; i++) {
-    if (age <= keys[i]) {
-      const a0 = keys[i - 1];
-      const a1 = keys[i];
-      const y0 = tbl[a0];
-      const y1 = tbl[a1];
-      return y0 + ((y1 - y0) * (age - a0)) / (a1 - a0);
-    }
-  }
-  return 0;
+// Détail des frais de notaire pour les donuts d'acquisition
+function notarySlices(b: NotaryFeesBreakdown) {
+  return [
+    { name: "Émoluments notaire (TTC)", value: b.emolumentsHT + b.tva },
+    { name: "Droits de mutation", value: b.droitsMutation },
+    { name: "Sécurité immobilière", value: b.csi },
+    { name: "Débours & formalités", value: b.debours },
+  ];
 }
 
-const COLORS = ["#3559E0", "#F2C94C", "#E67E22", "#27AE60"];
-
-// NOUVEAU : Type pour l'état global
-type AppState = {
-  locationNue: {
-    prix: string;
-    apport: string;
-    taux: string;
-    assurance: string;
-    duree: string;
-    loyer: string;
-    charges: string;
-    taxe: string;
-    travauxInit: string;
-    tmiLoc: string;
-    psLoc: string;
-  };
-  viager: {
-    mode: "Viager occupé" | "Viager libre" | "Vente à terme";
-    valeur: string;
-    age: string;
-    sexe: string;
-    taux: string;
-    bouquetPct: string;
-    index: string;
-    charges: string;
-    taxe: string;
-    loyer: string;
-    hausseImmo: string;
-    fraisVentePct: string;
-    dureeTerme: string;
-  };
-  scpi: {
-    montant: string;
-    td: string;
-    fraisSous: string;
-    fraisAnn: string;
-    delaiJouissanceMois: string;
-    mode: "Pleine propriété" | "Nue-propriété";
-    tmiIr: string;
-    ps: string;
-    dureeNP: string;
-    decoteNP: string;
-    revaloParts: string;
-    apport: string;
-    taux: string;
-    assurance: string;
-    duree: string;
-  };
-  localCommercial: {
-    prix: string;
-    apport: string;
-    taux: string;
-    assurance: string;
-    duree: string;
-    loyer: string;
-    charges: string;
-    taxe: string;
-  };
-  creditImmo: {
-    capital: string;
-    taux: string;
-    assurance: string;
-    duree: string;
-    assuranceSurCRD: boolean; // NOUVEAU
-  };
-};
-
-// NOUVEAU : État par défaut de l'application
-const DEFAULT_STATE: AppState = {
-  locationNue: {
-    prix: "292000",
-    apport: "72000",
-    taux: "2,5",
-    assurance: "0,35",
-    duree: "20",
-    loyer: "740",
-    charges: "1200",
-    taxe: "1300",
-    travauxInit: "0",
-    tmiLoc: "30",
-    psLoc: "17,2",
-  },
-  viager: {
-    mode: "Viager occupé",
-    valeur: "292000",
-    age: "71",
-    sexe: "Femme",
-    taux: "2",
-    bouquetPct: "30",
-    index: "1,1",
-    charges: "1200",
-    taxe: "1300",
-    loyer: "740",
-    hausseImmo: "1,5",
-    fraisVentePct: "6",
-    dureeTerme: "15",
-  },
-  scpi: {
-    montant: "50000",
-    td: "5",
-    fraisSous: "8",
-    fraisAnn: "0",
-    delaiJouissanceMois: "3",
-    mode: "Pleine propriété",
-    tmiIr: "30",
-    ps: "17,2",
-    dureeNP: "10",
-    decoteNP: "30",
-    revaloParts: "1",
-    apport: "10000",
-    taux: "3,1",
-    assurance: "0,30",
-    duree: "15",
-  },
-  localCommercial: {
-    prix: "250000",
-    apport: "50000",
-    taux: "3",
-    assurance: "0,30",
-    duree: "20",
-    loyer: "1500",
-    charges: "2000",
-    taxe: "1500",
-  },
-  creditImmo: {
-    capital: "250000",
-    taux: "3,20",
-    assurance: "0,30",
-    duree: "25",
-    assuranceSurCRD: false, // NOUVEAU
-  },
-};
-
 /*********************
  * COMPOSANT LOCATION NUE (MODIFIÉ)
  *********************/
@@ -485,11 +403,34 @@ const DEFAULT_STATE: AppState = {
 function LocationNue({
   data,
   onChange,
+  foyer,
 }: {
   data: AppState["locationNue"];
   onChange: (d: AppState["locationNue"]) => void;
+  foyer: AppState["capacite"];
 }) {
-  const { prix, apport, taux, assurance, duree, loyer, charges, taxe, travauxInit, tmiLoc, psLoc } = data;
+  const {
+    prix,
+    apport,
+    taux,
+    assurance,
+    duree,
+    loyer,
+    charges,
+    taxe,
+    travauxInit,
+    tmiLoc,
+    psLoc,
+    regimeFiscal,
+    departement,
+    neuf,
+    dureeDetention,
+    indexLoyer,
+    inflationCharges,
+    hausseImmo,
+    fraisVentePct,
+    tauxActualisation,
+  } = data;
 
   // Setters qui mettent à jour l'état global
   const setPrix = (v: string) => onChange({ ...data, prix: v });
@@ -503,46 +444,51 @@ function LocationNue({
   const setTravauxInit = (v: string) => onChange({ ...data, travauxInit: v });
   const setTmiLoc = (v: string) => onChange({ ...data, tmiLoc: v });
   const setPsLoc = (v: string) => onChange({ ...data, psLoc: v });
+  const setRegimeFiscal = (v: string) => onChange({ ...data, regimeFiscal: v as RegimeFoncier });
+  const setDepartement = (v: string) => onChange({ ...data, departement: v });
+  const setNeuf = (c: boolean) => onChange({ ...data, neuf: c });
+  const setDureeDetention = (v: string) => onChange({ ...data, dureeDetention: v });
+  const setIndexLoyer = (v: string) => onChange({ ...data, indexLoyer: v });
+  const setInflationCharges = (v: string) => onChange({ ...data, inflationCharges: v });
+  const setHausseImmo = (v: string) => onChange({ ...data, hausseImmo: v });
+  const setFraisVentePct = (v: string) => onChange({ ...data, fraisVentePct: v });
+  const setTauxActualisation = (v: string) => onChange({ ...data, tauxActualisation: v });
 
-  // Les calculs restent identiques
-  const vPrix = toNum(prix);
+  // État local pour l'UI (non sauvegardé)
+  const [showProjectionTable, setShowProjectionTable] = useState(false);
+
+  // Calculs délégués au moteur
   const vApport = toNum(apport);
-  const vTaux = toNum(taux);
-  const vAssurance = toNum(assurance);
-  const vDuree = toNum(duree);
   const vTrav = toNum(travauxInit);
-  const vTMI = Math.max(0, toNum(tmiLoc)) / 100;
-  const vPS = Math.max(0, toNum(psLoc)) / 100;
-
-  const capital = Math.max(0, vPrix - vApport);
-  const mensualite = annuityPayment(capital, vTaux, vDuree);
-  const assuranceMens = (capital * (vAssurance / 100)) / 12;
-  const totalRemboursementMensuel = mensualite + assuranceMens;
-
-  const nbMois = vDuree * 12;
-  const totalRembourseCapitalAndInterest = mensualite * nbMois;
-  const coutTotalInterets = Math.max(0, totalRembourseCapitalAndInterest - capital);
-  const coutTotalAssurance = assuranceMens * nbMois;
-
-  const fraisNotaire = calculateNotaryFees(vPrix);
-
-  const loyersAnn = toNum(loyer) * 12;
-  const chargesAnn = toNum(charges) + toNum(taxe);
-  const serviceDetteAnn = totalRemboursementMensuel * 12;
-
-  const taxableBase = Math.max(0, loyersAnn - chargesAnn);
-  const impotsAnn = taxableBase * (vTMI + vPS);
-  const revenuAnnApresImpots = Math.max(0, loyersAnn - chargesAnn - impotsAnn);
-  const cashflowAnnApresImpots = revenuAnnApresImpots - serviceDetteAnn;
-  const cashflowMensApresImpots = cashflowAnnApresImpots / 12;
-
-  const baseInvestie = vApport + fraisNotaire + vTrav;
-  const rendementNetApresImpots = baseInvestie > 0 ? (revenuAnnApresImpots / baseInvestie) * 100 : 0;
+  const vDuree = toNum(duree);
+  const {
+    capital,
+    mensualite,
+    assuranceMens,
+    totalRemboursementMensuel,
+    coutTotalInterets,
+    coutTotalAssurance,
+    fraisNotaireDetail,
+    revenuAnnApresImpots,
+    cashflowMensApresImpots,
+    baseInvestie,
+    projection,
+    produitNetRevente,
+    triProjection,
+    vanProjection,
+    impotsAnn,
+    microEligible,
+    impotsParRegime,
+    regimeRecommande,
+  } = simulateLocationNue(data);
+
+  // Taux d'effort du foyer avant / après ce projet
+  const impactFoyer = impactEndettement(foyer, totalRemboursementMensuel, toNum(loyer));
 
   const donutCout = [
     { name: "Apport", value: vApport },
     { name: "Capital prêt", value: capital },
-    { name: "Frais de notaire", value: fraisNotaire },
+    ...notarySlices(fraisNotaireDetail),
     { name: "Travaux initiaux", value: vTrav },
   ];
 
@@ -566,6 +512,8 @@ function LocationNue({
             <Field label="Prix du bien" suffix="€" value={prix} onChange={setPrix} help="Prix d'achat 'acte en main', hors frais de notaire." />
             <Field label="Apport" suffix="€" value={apport} onChange={setApport} help="Montant de votre apport personnel, hors frais." />
             <Field label="Travaux (initiaux, cash)" suffix="€" value={travauxInit} onChange={setTravauxInit} help="Montant des travaux financés par apport (non empruntés)." />
+            <SelectField label="Département" value={departement} onChange={setDepartement} options={DEPARTEMENT_OPTIONS} help="Détermine le taux des droits de mutation inclus dans les frais de notaire." />
+            <CheckboxField label="Bien neuf (VEFA)" checked={neuf} onChange={setNeuf} help="Frais de notaire réduits : taxe de publicité foncière à 0,715 % au lieu des droits de mutation de l'ancien." />
             <div className="h-0.5 bg-gray-100 my-4"></div>
             <Field label="Taux du prêt" suffix="%/an" value={taux} onChange={setTaux} decimals={2} help="Taux d'intérêt nominal annuel, hors assurance." />
             <Field label="Assurance" suffix="%/an" value={assurance} onChange={setAssurance} decimals={2} help="Taux de l'assurance emprunteur, calculé sur le capital initial." />
@@ -577,6 +525,20 @@ function LocationNue({
             <div className="h-0.5 bg-gray-100 my-4"></div>
             <Field label="TMI (IR)" suffix="%" value={tmiLoc} onChange={setTmiLoc} help="Votre Taux Marginal d'Imposition (ex: 0, 11, 30, 41, 45)." />
             <Field label="Prélèvements sociaux" suffix="%" value={psLoc} onChange={setPsLoc} help="Prélèvements sociaux sur les revenus fonciers (ex: 17,2%)." />
+            <SelectField
+              label="Régime fiscal"
+              value={regimeFiscal}
+              onChange={setRegimeFiscal}
+              options={[...REGIMES_FONCIERS]}
+              help="Micro-foncier : abattement de 30 % (loyers ≤ 15 000 €/an). Réel : intérêts, assurance, charges, taxe foncière et travaux déductibles ; déficit imputable sur le revenu global jusqu'à 10 700 €/an, reportable 10 ans."
+            />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <Field label="Durée de détention" suffix="ans" value={dureeDetention} onChange={setDureeDetention} help="Horizon de la projection ; le bien est revendu à la fin de la dernière année." />
+            <Field label="Indexation des loyers (IRL)" suffix="%/an" value={indexLoyer} onChange={setIndexLoyer} decimals={2} help="Révision annuelle du loyer selon l'Indice de Référence des Loyers." />
+            <Field label="Inflation charges & taxe foncière" suffix="%/an" value={inflationCharges} onChange={setInflationCharges} decimals={2} />
+            <Field label="Hausse des prix immo" suffix="%/an" value={hausseImmo} onChange={setHausseImmo} decimals={2} help="Hypothèse de revalorisation annuelle moyenne du bien." />
+            <Field label="Frais de revente" suffix="%" value={fraisVentePct} onChange={setFraisVentePct} help="Frais d'agence et diagnostics à la revente, en % du prix." />
+            <Field label="Taux d'actualisation (VAN)" suffix="%/an" value={tauxActualisation} onChange={setTauxActualisation} decimals={2} help="Rendement minimal exigé sur les fonds propres, utilisé pour la VAN." />
           </div>
         </Section>
 
@@ -603,10 +565,390 @@ function LocationNue({
             <div className="flex justify-between mt-1 pt-1 border-t border-gray-200"><span className="font-bold">Total :</span><span className="font-bold text-red-700">{fmt(coutTotalInterets + coutTotalAssurance)} €</span></div>
           </div>
 
+          <div className="bg-gray-50 p-3 rounded-xl text-sm mt-3">
+            <div className="text-gray-700 font-semibold mb-1">Fiscalité ({regimeFiscal}, année 1 : {fmt(impotsAnn)} €)</div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Impôts cumulés sur {fmt(projection.length, 0)} ans – micro-foncier :</span>
+              <span className="font-medium">{microEligible ? `${fmt(impotsParRegime["Micro-foncier"])} €` : "non éligible"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Impôts cumulés sur {fmt(projection.length, 0)} ans – réel :</span>
+              <span className="font-medium">{fmt(impotsParRegime["Réel"])} €</span>
+            </div>
+            <div className="flex justify-between mt-1 pt-1 border-t border-gray-200">
+              <span className="font-bold">Régime recommandé :</span>
+              <span className={`font-bold ${regimeRecommande === regimeFiscal ? "text-green-700" : "text-orange-600"}`}>{regimeRecommande}</span>
+            </div>
+          </div>
+
+          <div className={`p-3 rounded-xl text-sm mt-3 ${impactFoyer.respecteHcsf ? "bg-gray-50" : "bg-red-50 text-red-700"}`}>
+            <div className="text-gray-700 font-semibold mb-1">Impact sur le taux d'endettement du foyer (HCSF)</div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Avant / après ce projet (loyer retenu à 70 %) :</span>
+              <span className="font-medium">{fmt(impactFoyer.tauxAvant, 1)} % → {fmt(impactFoyer.tauxApres, 1)} %</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Reste à vivre après le projet :</span>
+              <span className="font-medium">{fmt(impactFoyer.resteAVivreApres)} €/mois</span>
+            </div>
+            <div className="text-xs text-gray-500 mt-1">Revenus et crédits du foyer saisis dans l'onglet « Capacité d'emprunt ».</div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6 mt-4">
+            <DonutWithTotal data={donutCout} colors={COLORS} title="Coût d'acquisition initial" totalTitle="Total initial" />
+            <DonutWithTotal data={donutCharge} colors={COLORS.slice(2)} title="Dépenses récurrentes (mensuelles)" totalTitle="Total mensuel" />
+          </div>
+        </Section>
+
+        {/* PROJECTION PLURIANNUELLE */}
+        <div className="lg:col-span-2">
+          <Section title={`Projection sur ${fmt(projection.length, 0)} ans – Location nue`}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div className="bg-gray-50 p-3 rounded-xl">
+                <div className="text-gray-500">Fonds propres investis</div>
+                <div className="font-semibold">{fmt(baseInvestie)} €</div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded-xl">
+                <div className="text-gray-500">Revente nette (après CRD)</div>
+                <div className="font-semibold">{fmt(produitNetRevente)} €</div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded-xl">
+                <div className="text-gray-500">TRI des fonds propres</div>
+                <div className="font-semibold">{fmt(triProjection, 2)} %</div>
+              </div>
+              <div className={`bg-gray-50 p-3 rounded-xl ${vanProjection < 0 ? "text-red-600" : "text-green-600"}`}>
+                <div className="text-gray-500">VAN à {fmt(toNum(tauxActualisation), 2)} %</div>
+                <div className="font-semibold">{fmt(vanProjection)} €</div>
+              </div>
+            </div>
+
+            <div className="mt-4 h-72 w-full no-print">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={projection} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="annee" tickFormatter={(t: number) => `An ${t}`} />
+                  <YAxis tickFormatter={(t: number) => fmt(t, 0)} />
+                  <Tooltip formatter={(v: number, name: string) => [`${fmt(v)} €`, name]} labelFormatter={(t: number) => `Année ${t}`} />
+                  <Line type="monotone" dataKey="valeurBien" name="Valeur du bien" stroke={COLORS[0]} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="crd" name="Capital restant dû" stroke={COLORS[2]} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="cashflowCumule" name="Cashflow cumulé" stroke={COLORS[3]} strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="mt-4 no-print">
+              <button
+                onClick={() => setShowProjectionTable((s) => !s)}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow"
+              >
+                {showProjectionTable ? "Masquer le tableau" : "Afficher le tableau"}
+              </button>
+            </div>
+
+            {showProjectionTable && (
+              <div className="mt-4 overflow-auto max-h-[60vh] border rounded-xl">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0 z-10">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Année</th>
+                      <th className="px-3 py-2 text-right">Loyers</th>
+                      <th className="px-3 py-2 text-right">Charges + TF</th>
+                      <th className="px-3 py-2 text-right">Intérêts</th>
+                      <th className="px-3 py-2 text-right">Capital remboursé</th>
+                      <th className="px-3 py-2 text-right">Assurance</th>
+                      <th className="px-3 py-2 text-right">Impôts</th>
+                      <th className="px-3 py-2 text-right">Déficit reportable</th>
+                      <th className="px-3 py-2 text-right">Cashflow</th>
+                      <th className="px-3 py-2 text-right">CRD</th>
+                      <th className="px-3 py-2 text-right">Revente nette</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {projection.map((row) => (
+                      <tr key={row.annee} className="odd:bg-white even:bg-gray-50">
+                        <td className="px-3 py-1">{row.annee}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.loyers)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.charges + row.taxeFonciere)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.interets)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.principal)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.assurance)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.impots)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.deficitReportable)}</td>
+                        <td className={`px-3 py-1 text-right ${row.cashflow < 0 ? "text-red-600" : ""}`}>{fmt(row.cashflow)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.crd)}</td>
+                        <td className="px-3 py-1 text-right">{row.revente ? fmt(row.revente) : "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Section>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/*********************
+ * COMPOSANT LOCATION MEUBLÉE (LMNP / LMP)
+ *********************/
+function LocationMeublee({
+  data,
+  onChange,
+  source,
+}: {
+  data: AppState["locationMeublee"];
+  onChange: (d: AppState["locationMeublee"]) => void;
+  source: AppState["locationNue"];
+}) {
+  const {
+    prix,
+    apport,
+    taux,
+    assurance,
+    duree,
+    loyer,
+    charges,
+    taxe,
+    travauxInit,
+    mobilier,
+    partTerrain,
+    tmi,
+    ps,
+    regimeFiscal,
+    autresRevenusActivite,
+    tauxCotisationsLmp,
+    departement,
+    neuf,
+    dureeDetention,
+    indexLoyer,
+    inflationCharges,
+  } = data;
+
+  // Setters
+  const setPrix = (v: string) => onChange({ ...data, prix: v });
+  const setApport = (v: string) => onChange({ ...data, apport: v });
+  const setTaux = (v: string) => onChange({ ...data, taux: v });
+  const setAssurance = (v: string) => onChange({ ...data, assurance: v });
+  const setDuree = (v: string) => onChange({ ...data, duree: v });
+  const setLoyer = (v: string) => onChange({ ...data, loyer: v });
+  const setCharges = (v: string) => onChange({ ...data, charges: v });
+  const setTaxe = (v: string) => onChange({ ...data, taxe: v });
+  const setTravauxInit = (v: string) => onChange({ ...data, travauxInit: v });
+  const setMobilier = (v: string) => onChange({ ...data, mobilier: v });
+  const setPartTerrain = (v: string) => onChange({ ...data, partTerrain: v });
+  const setTmi = (v: string) => onChange({ ...data, tmi: v });
+  const setPs = (v: string) => onChange({ ...data, ps: v });
+  const setRegimeFiscal = (v: string) => onChange({ ...data, regimeFiscal: v as RegimeBic });
+  const setAutresRevenusActivite = (v: string) => onChange({ ...data, autresRevenusActivite: v });
+  const setTauxCotisationsLmp = (v: string) => onChange({ ...data, tauxCotisationsLmp: v });
+  const setDepartement = (v: string) => onChange({ ...data, departement: v });
+  const setNeuf = (c: boolean) => onChange({ ...data, neuf: c });
+  const setDureeDetention = (v: string) => onChange({ ...data, dureeDetention: v });
+  const setIndexLoyer = (v: string) => onChange({ ...data, indexLoyer: v });
+  const setInflationCharges = (v: string) => onChange({ ...data, inflationCharges: v });
+
+  // Reprend le bien et le prêt saisis dans l'onglet Location nue
+  const importFromLocationNue = () =>
+    onChange({
+      ...data,
+      prix: source.prix,
+      apport: source.apport,
+      taux: source.taux,
+      assurance: source.assurance,
+      duree: source.duree,
+      charges: source.charges,
+      taxe: source.taxe,
+      travauxInit: source.travauxInit,
+      tmi: source.tmiLoc,
+      ps: source.psLoc,
+      departement: source.departement,
+      neuf: source.neuf,
+    });
+
+  // État local pour l'UI (non sauvegardé)
+  const [showProjectionTable, setShowProjectionTable] = useState(false);
+
+  const vApport = toNum(apport);
+  const vTrav = toNum(travauxInit);
+  const vMobilier = toNum(mobilier);
+  const {
+    capital,
+    mensualite,
+    assuranceMens,
+    totalRemboursementMensuel,
+    fraisNotaireDetail,
+    dotations,
+    statut,
+    impotsAnn,
+    revenuAnnApresImpots,
+    cashflowMensApresImpots,
+    rendementNetApresImpots,
+    projection,
+    microEligible,
+    impotsParRegime,
+    regimeRecommande,
+  } = simulateLocationMeublee(data);
+
+  const donutCout = [
+    { name: "Apport", value: vApport },
+    { name: "Capital prêt", value: capital },
+    ...notarySlices(fraisNotaireDetail),
+    { name: "Travaux initiaux", value: vTrav },
+    { name: "Mobilier", value: vMobilier },
+  ];
+
+  const donutCharge = [
+    { name: "Mensualité Prêt (C+I)", value: mensualite },
+    { name: "Assurance Emprunteur", value: assuranceMens },
+    { name: "Taxe foncière (mens.)", value: toNum(taxe) / 12 },
+    { name: "Charges (mens.)", value: toNum(charges) / 12 },
+  ];
+
+  return (
+    <>
+      <Helmet>
+        <title>Simulateur Location Meublée LMNP / LMP – Micro-BIC ou Réel, Amortissements</title>
+        <meta name="description" content="Comparez micro-BIC et réel BIC en location meublée : amortissement par composant, report des amortissements, statut LMNP ou LMP, cashflow après impôts." />
+        <link rel="canonical" href="https://wizzwid.github.io/viager-vs-location/#/location-meublee" />
+      </Helmet>
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Section title="Paramètres – Location meublée">
+          <div className="flex justify-end mb-3 no-print">
+            <button
+              onClick={importFromLocationNue}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow"
+            >
+              Reprendre le bien et le prêt de « Location nue »
+            </button>
+          </div>
+          <div className="space-y-3">
+            <Field label="Prix du bien" suffix="€" value={prix} onChange={setPrix} help="Prix d'achat hors frais de notaire." />
+            <Field label="Apport" suffix="€" value={apport} onChange={setApport} help="Montant de votre apport personnel, hors frais." />
+            <Field label="Travaux (initiaux, cash)" suffix="€" value={travauxInit} onChange={setTravauxInit} help="Travaux financés par apport, amortis sur 10 ans au réel." />
+            <Field label="Mobilier" suffix="€" value={mobilier} onChange={setMobilier} help="Achat des meubles (payé comptant), amorti sur 7 ans au réel." />
+            <SelectField label="Département" value={departement} onChange={setDepartement} options={DEPARTEMENT_OPTIONS} help="Détermine le taux des droits de mutation inclus dans les frais de notaire." />
+            <CheckboxField label="Bien neuf (VEFA)" checked={neuf} onChange={setNeuf} help="Frais de notaire réduits : taxe de publicité foncière à 0,715 % au lieu des droits de mutation de l'ancien." />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <Field label="Taux du prêt" suffix="%/an" value={taux} onChange={setTaux} decimals={2} help="Taux d'intérêt nominal annuel, hors assurance." />
+            <Field label="Assurance" suffix="%/an" value={assurance} onChange={setAssurance} decimals={2} help="Taux de l'assurance emprunteur, calculé sur le capital initial." />
+            <Field label="Durée du prêt" suffix="ans" value={duree} onChange={setDuree} />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <Field label="Loyer mensuel (meublé)" suffix="€" value={loyer} onChange={setLoyer} help="Loyer mensuel hors charges." />
+            <Field label="Charges (annuelles)" suffix="€/an" value={charges} onChange={setCharges} help="Charges non récupérables (syndic, PNO, CFE, comptabilité, entretien du mobilier...)." />
+            <Field label="Taxe foncière (annuelle)" suffix="€/an" value={taxe} onChange={setTaxe} />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <SelectField
+              label="Régime fiscal"
+              value={regimeFiscal}
+              onChange={setRegimeFiscal}
+              options={[...REGIMES_BIC]}
+              help="Micro-BIC : abattement de 50 % (recettes ≤ 77 700 €/an). Réel BIC : charges + amortissements (bâti 30 ans hors terrain, mobilier 7 ans, travaux 10 ans), sans création de déficit par l'amortissement."
+            />
+            <Field label="Part du terrain" suffix="%" value={partTerrain} onChange={setPartTerrain} help="Quote-part du prix non amortissable (terrain), souvent 10 à 20 %." />
+            <Field label="TMI (IR)" suffix="%" value={tmi} onChange={setTmi} help="Votre Taux Marginal d'Imposition (ex: 0, 11, 30, 41, 45)." />
+            <Field label="Prélèvements sociaux (LMNP)" suffix="%" value={ps} onChange={setPs} help="Prélèvements sociaux sur le bénéfice en LMNP (ex: 17,2%)." />
+            <Field label="Autres revenus d'activité du foyer" suffix="€/an" value={autresRevenusActivite} onChange={setAutresRevenusActivite} help="Salaires, BIC/BNC professionnels… Le statut LMP s'applique si les recettes dépassent 23 000 € et ces revenus." />
+            <Field label="Cotisations sociales (LMP)" suffix="%" value={tauxCotisationsLmp} onChange={setTauxCotisationsLmp} help="Taux moyen des cotisations SSI appliqué au bénéfice en LMP, à la place des prélèvements sociaux." />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <Field label="Durée de projection" suffix="ans" value={dureeDetention} onChange={setDureeDetention} />
+            <Field label="Indexation des loyers (IRL)" suffix="%/an" value={indexLoyer} onChange={setIndexLoyer} decimals={2} />
+            <Field label="Inflation charges & taxe foncière" suffix="%/an" value={inflationCharges} onChange={setInflationCharges} decimals={2} />
+          </div>
+        </Section>
+
+        <Section title="Résultats – Location meublée">
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Remboursement mensuel total</div>
+              <div className="font-semibold">{fmt(totalRemboursementMensuel)} €/mois</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Revenu annuel après impôts (hors dette)</div>
+              <div className="font-semibold">{fmt(revenuAnnApresImpots)} €</div>
+            </div>
+            <div className={`bg-gray-50 p-3 rounded-xl ${cashflowMensApresImpots < 0 ? "text-red-600" : "text-green-600"}`}>
+              <div className="text-gray-500">Cashflow net après impôts</div>
+              <div className="font-semibold">{fmt(cashflowMensApresImpots)} €/mois</div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 p-3 rounded-xl text-sm mt-3">
+            <div className="text-gray-700 font-semibold mb-1">
+              Fiscalité ({regimeFiscal}, statut {statut}, année 1 : {fmt(impotsAnn)} €)
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Amortissements annuels (bâti / mobilier / travaux) :</span>
+              <span className="font-medium">{fmt(dotations.bati, 0)} / {fmt(dotations.mobilier, 0)} / {fmt(dotations.travaux, 0)} €</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Impôts cumulés sur {fmt(projection.length, 0)} ans – micro-BIC :</span>
+              <span className="font-medium">{microEligible ? `${fmt(impotsParRegime["Micro-BIC"])} €` : "non éligible"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Impôts cumulés sur {fmt(projection.length, 0)} ans – réel BIC :</span>
+              <span className="font-medium">{fmt(impotsParRegime["Réel BIC"])} €</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Rendement net après impôts (sur fonds propres) :</span>
+              <span className="font-medium">{fmt(rendementNetApresImpots, 2)} %</span>
+            </div>
+            <div className="flex justify-between mt-1 pt-1 border-t border-gray-200">
+              <span className="font-bold">Régime recommandé :</span>
+              <span className={`font-bold ${regimeRecommande === regimeFiscal ? "text-green-700" : "text-orange-600"}`}>{regimeRecommande}</span>
+            </div>
+          </div>
+
           <div className="grid md:grid-cols-2 gap-6 mt-4">
             <DonutWithTotal data={donutCout} colors={COLORS} title="Coût d'acquisition initial" totalTitle="Total initial" />
             <DonutWithTotal data={donutCharge} colors={COLORS.slice(2)} title="Dépenses récurrentes (mensuelles)" totalTitle="Total mensuel" />
           </div>
+
+          <div className="mt-6">
+            <div className="no-print">
+              <button
+                onClick={() => setShowProjectionTable((s) => !s)}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow"
+              >
+                {showProjectionTable ? "Masquer le tableau fiscal" : "Afficher le tableau fiscal"}
+              </button>
+            </div>
+            {showProjectionTable && (
+              <div className="mt-4 overflow-auto max-h-[60vh] border rounded-xl">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0 z-10">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Année</th>
+                      <th className="px-3 py-2 text-left">Statut</th>
+                      <th className="px-3 py-2 text-right">Loyers</th>
+                      <th className="px-3 py-2 text-right">Amort. déduit</th>
+                      <th className="px-3 py-2 text-right">Amort. reporté</th>
+                      <th className="px-3 py-2 text-right">Déficit reportable</th>
+                      <th className="px-3 py-2 text-right">Imposable</th>
+                      <th className="px-3 py-2 text-right">Impôts</th>
+                      <th className="px-3 py-2 text-right">Cashflow</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {projection.map((row) => (
+                      <tr key={row.annee} className="odd:bg-white even:bg-gray-50">
+                        <td className="px-3 py-1">{row.annee}</td>
+                        <td className="px-3 py-1">{row.statut}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.loyers)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.amortissementDeduit)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.amortissementDiffere)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.deficitReportable)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.revenuImposable)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.impots)}</td>
+                        <td className={`px-3 py-1 text-right ${row.cashflow < 0 ? "text-red-600" : ""}`}>{fmt(row.cashflow)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
         </Section>
       </div>
     </>
@@ -624,7 +966,7 @@ function Viager({
   data: AppState["viager"];
   onChange: (d: AppState["viager"]) => void;
 }) {
-  const modes = ["Viager occupé", "Viager libre", "Vente à terme"] as const;
+  const modes = VIAGER_MODES;
   const {
     mode,
     valeur,
@@ -639,6 +981,14 @@ function Viager({
     hausseImmo,
     fraisVentePct,
     dureeTerme,
+    departement,
+    tableMortalite,
+    couple,
+    age2,
+    sexe2,
+    reversionPct,
+    mcTirages,
+    mcVolatilite,
   } = data;
 
   // Setters
@@ -646,6 +996,13 @@ function Viager({
   const setValeur = (v: string) => onChange({ ...data, valeur: v });
   const setAge = (v: string) => onChange({ ...data, age: v });
   const setSexe = (v: string) => onChange({ ...data, sexe: v });
+  const setTableMortalite = (v: string) => onChange({ ...data, tableMortalite: v as MortalityTable });
+  const setCouple = (c: boolean) => onChange({ ...data, couple: c });
+  const setAge2 = (v: string) => onChange({ ...data, age2: v });
+  const setSexe2 = (v: string) => onChange({ ...data, sexe2: v });
+  const setReversionPct = (v: string) => onChange({ ...data, reversionPct: v });
+  const setMcTirages = (v: string) => onChange({ ...data, mcTirages: v });
+  const setMcVolatilite = (v: string) => onChange({ ...data, mcVolatilite: v });
   const setTaux = (v: string) => onChange({ ...data, taux: v });
   const setBouquetPct = (v: string) => onChange({ ...data, bouquetPct: v });
   const setIndex = (v: string) => onChange({ ...data, index: v });
@@ -655,81 +1012,39 @@ function Viager({
   const setHausseImmo = (v: string) => onChange({ ...data, hausseImmo: v });
   const setFraisVentePct = (v: string) => onChange({ ...data, fraisVentePct: v });
   const setDureeTerme = (v: string) => onChange({ ...data, dureeTerme: v });
+  const setDepartement = (v: string) => onChange({ ...data, departement: v });
 
-  // Helpers anti-NaN
-  const safe = (n: number, def = 0) => (Number.isFinite(n) ? n : def);
-  const nz = (n: number, min = 0) => (Number.isFinite(n) ? Math.max(min, n) : min);
-
-  // Numérisation sûre
-  const vV = safe(toNum(valeur));
-  const vAge = nz(toNum(age), 1);
-  const vTaux = nz(toNum(taux), 0);
-  const vBouquetPct = nz(toNum(bouquetPct), 0);
-  const vIndex = nz(toNum(index), 0);
+  const {
+    yearsEV,
+    horizonYears,
+    valeurDUH,
+    capBouquet,
+    capRenteOuTerme,
+    renteMensuelle,
+    mensualiteTerme,
+    fraisNotaireDetail,
+    totalRentesOuTermes,
+    coutTotalInvestisseur,
+    prixFutur,
+    produitNetVente,
+    rendementAnnualise,
+    decotePct,
+  } = simulateViager(data);
   const vCharges = nz(toNum(charges), 0);
   const vTaxe = nz(toNum(taxe), 0);
-  const vLoyer = nz(toNum(loyer), 0);
-  const vHausse = nz(toNum(hausseImmo), 0) / 100;
-  const vFraisVente = nz(toNum(fraisVentePct), 0) / 100;
-  const vDureeTerme = nz(toNum(dureeTerme), 1);
-
-  // EV + horizon (plancher 1 an)
-  const rawEV = safe(getEsperanceVie(vAge, sexe), 0);
-  const yearsEV = nz(rawEV, 1);
-  const horizonYears = mode === "Vente à terme" ? vDureeTerme : yearsEV;
-
-  // Décote DUH (seulement en occupé)
-  const valeurDUH =
-    mode === "Viager occupé"
-      ? nz(presentValueAnnuity(vLoyer, yearsEV, vTaux), 0)
-      : 0;
-
-  const baseValeur =
-    mode === "Viager occupé" ? Math.max(0, vV - valeurDUH) : vV;
-
-  // Bouquet / Rente / Terme
-  const capBouquet = (vBouquetPct / 100) * baseValeur;
-  const capRenteOuTerme = Math.max(0, baseValeur - capBouquet);
-
-  const renteMensuelle =
-    mode !== "Vente à terme"
-      ? nz(solveMonthlyFromPV(capRenteOuTerme, yearsEV, vTaux, vIndex), 0)
-      : 0;
-
-  const mensualiteTerme =
-    mode === "Vente à terme" ? capRenteOuTerme / (vDureeTerme * 12) : 0;
-
-  const fraisNotaire = calculateNotaryFees(baseValeur);
-
-  const depensesMensuelles =
-    (mode === "Vente à terme" ? mensualiteTerme : renteMensuelle) +
-    (vCharges + vTaxe) / 12;
-
-  const totalRentesOuTermes =
-    (mode === "Vente à terme" ? mensualiteTerme : renteMensuelle) *
-    horizonYears *
-    12;
-
-  const coutChargesTaxes = (vCharges + vTaxe) * horizonYears;
-  const coutTotalInvestisseur =
-    capBouquet + fraisNotaire + totalRentesOuTermes + coutChargesTaxes;
-
-  // Revente
-  const prixFutur = vV * Math.pow(1 + vHausse, horizonYears);
-  const produitNetVente = prixFutur * (1 - vFraisVente);
-
-  const rendementAnnualise =
-    coutTotalInvestisseur > 0
-      ? (Math.pow(produitNetVente / coutTotalInvestisseur, 1 / horizonYears) - 1) * 100
-      : 0;
 
-  const decotePct = vV > 0 ? (valeurDUH / vV) * 100 : 0;
+  // État local pour l'UI (non sauvegardé)
+  const [showMonteCarlo, setShowMonteCarlo] = useState(false);
+  // Monte Carlo : calculé à la demande (jusqu'à plus d'une seconde), avec les saisies utilisées
+  const [calculMonteCarlo, setCalculMonteCarlo] = useState<{ donnees: AppState["viager"]; resultat: ViagerMonteCarloResult } | null>(null);
+  const lancerMonteCarlo = () => setCalculMonteCarlo({ donnees: data, resultat: simulateViagerMonteCarlo(data) });
+  const monteCarlo = calculMonteCarlo?.resultat ?? null;
 
   const donutCoutTotal = [
     ...(mode === "Viager occupé" ? [{ name: "Valeur DUH (Décote)", value: valeurDUH }] : []),
     { name: "Bouquet", value: capBouquet },
     { name: mode === "Vente à terme" ? "Capital à terme" : "Capital Rente", value: capRenteOuTerme },
-    { name: "Frais de notaire", value: fraisNotaire },
+    ...notarySlices(fraisNotaireDetail),
   ];
 
   const donutCoutMensuels = [
@@ -762,9 +1077,32 @@ function Viager({
 
           <div className="space-y-3">
             <Field label="Valeur vénale (marché)" suffix="€" value={valeur} onChange={setValeur} help="La valeur du bien s'il était vendu libre sur le marché." />
-            <Field label="Âge du crédirentier" suffix="ans" value={age} onChange={setAge} help="Âge de la personne qui vend en viager (le plus âgé si couple)." />
-            <SelectField label="Sexe" value={sexe} onChange={setSexe} options={["Femme", "Homme"]} help="Utilisé pour l'estimation de l'espérance de vie (table INSEE)." />
-            <Field label="Espérance de vie estimée" suffix="ans" value={yearsEV} onChange={() => {}} readOnly={true} decimals={1} help="Basé sur la table de mortalité. Sert d'horizon pour les calculs." />
+            <SelectField label="Département" value={departement} onChange={setDepartement} options={DEPARTEMENT_OPTIONS} help="Détermine le taux des droits de mutation, calculés sur le prix du viager (bouquet + capital de la rente)." />
+            <Field label="Âge du crédirentier" suffix="ans" value={age} onChange={setAge} help="Âge de la personne qui vend en viager (premier crédirentier si couple)." />
+            <SelectField label="Sexe" value={sexe} onChange={setSexe} options={["Femme", "Homme"]} help="Utilisé pour l'estimation de l'espérance de vie (table de mortalité)." />
+            {mode !== "Vente à terme" && (
+              <CheckboxField
+                label="Couple de crédirentiers"
+                checked={couple}
+                onChange={setCouple}
+                help="Vente par deux crédirentiers : le bien reste occupé et la rente versée jusqu'au décès du dernier survivant."
+              />
+            )}
+            {couple && mode !== "Vente à terme" && (
+              <>
+                <Field label="Âge du second crédirentier" suffix="ans" value={age2} onChange={setAge2} />
+                <SelectField label="Sexe (second)" value={sexe2} onChange={setSexe2} options={["Femme", "Homme"]} />
+                <Field label="Réversion de la rente" suffix="%" value={reversionPct} onChange={setReversionPct} help="Part de la rente maintenue au survivant après le premier décès (100 % = rente intégralement réversible)." />
+              </>
+            )}
+            <SelectField
+              label="Table de mortalité"
+              value={tableMortalite}
+              onChange={setTableMortalite}
+              options={[...MORTALITY_TABLES]}
+              help={`Tables approchées (courbe ajustée sur les espérances de vie publiées), pas les séries officielles. Table du moment : mortalité observée en 2019-2021. Prospective : base 2005 avec une baisse de la mortalité de 1,5 %/an, projetée depuis l'année de calcul ${ANNEE_CALCUL_MORTALITE} (fixe), plus prudente pour l'acheteur.`}
+            />
+            <Field label="Espérance de vie estimée" suffix="ans" value={yearsEV} onChange={() => {}} readOnly={true} decimals={1} help="Durée de vie moyenne restante (du dernier survivant en couple). Les calculs pondèrent chaque date de décès possible par sa probabilité." />
 
             <div className="h-0.5 bg-gray-100 my-4"></div>
 
@@ -828,10 +1166,12 @@ function Viager({
 
           <div className="bg-gray-50 p-3 rounded-xl text-sm mt-3">
             <div className="text-gray-700 font-semibold mb-1">
-              Projection à l'échéance ({fmt(horizonYears, 1)} ans)
+              {mode === "Vente à terme"
+                ? `Projection à l'échéance (${fmt(horizonYears, 1)} ans)`
+                : `Projection espérée (horizon moyen ${fmt(horizonYears, 1)} ans)`}
             </div>
             <div className="flex justify-between">
-              <span>Prix futur estimé :</span>
+              <span>Prix de revente espéré :</span>
               <span className="font-medium">{fmt(prixFutur)} €</span>
             </div>
             <div className="flex justify-between">
@@ -839,11 +1179,11 @@ function Viager({
               <span className="font-medium">{fmt(produitNetVente)} €</span>
             </div>
             <div className="flex justify-between mt-1 pt-1 border-t border-gray-200">
-              <span>Total déboursé (bouquet + frais + rentes/terme + charges/taxes) :</span>
+              <span>Total déboursé espéré (bouquet + frais + rentes/terme + charges/taxes) :</span>
               <span className="font-medium">{fmt(coutTotalInvestisseur)} €</span>
             </div>
             <div className="flex justify-between mt-1 pt-1 border-t border-gray-200">
-              <span className="font-bold">Rendement annualisé estimé :</span>
+              <span className="font-bold">Rendement annualisé (TRI espéré) :</span>
               <span className="font-bold">{fmt(rendementAnnualise, 2)} %</span>
             </div>
           </div>
@@ -865,10 +1205,96 @@ function Viager({
 
           {mode !== "Vente à terme" && (
             <div className="text-center text-xs text-gray-500 mt-4">
-              Coût total estimé de la rente (non actualisé) sur {fmt(yearsEV, 1)} ans:{" "}
-              {fmt(renteMensuelle * yearsEV * 12)} €
+              Coût total espéré des rentes (non actualisé, indexation comprise) :{" "}
+              {fmt(totalRentesOuTermes)} €
             </div>
           )}
+
+          {/* ANALYSE DE RISQUE MONTE CARLO */}
+          <div className="mt-6">
+            <div className="flex flex-col md:flex-row gap-3 no-print">
+              <button
+                onClick={() => setShowMonteCarlo((s) => !s)}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow"
+              >
+                {showMonteCarlo ? "Masquer l'analyse de risque" : "Analyse de risque (Monte Carlo)"}
+              </button>
+            </div>
+
+            {showMonteCarlo && (
+              <div className="mt-4 space-y-3">
+                <div className="grid md:grid-cols-2 gap-3 no-print">
+                  <Field label="Nombre de tirages" value={mcTirages} onChange={setMcTirages} help="Nombre de scénarios simulés (date de décès + trajectoire du prix)." />
+                  <Field label="Volatilité prix immo" suffix="%/an" value={mcVolatilite} onChange={setMcVolatilite} help="Écart-type de la hausse annuelle des prix autour de l'hypothèse de hausse." />
+                </div>
+                <div className="flex flex-wrap items-center gap-3 no-print">
+                  <button onClick={lancerMonteCarlo} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 hover:bg-gray-300 transition-colors">
+                    {monteCarlo ? "Relancer la simulation" : "Lancer la simulation"}
+                  </button>
+                  {calculMonteCarlo && calculMonteCarlo.donnees !== data && (
+                    <span className="text-sm text-orange-600">Saisies modifiées depuis le calcul : relancez la simulation pour mettre les résultats à jour.</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {showMonteCarlo && monteCarlo && (
+              <div className="mt-4 space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                  <div className="bg-gray-50 p-3 rounded-xl">
+                    <div className="text-gray-500">TRI médian</div>
+                    <div className="font-semibold">{fmt(monteCarlo.tri.p50, 2)} %</div>
+                  </div>
+                  <div className={`bg-gray-50 p-3 rounded-xl ${monteCarlo.probaPerte > 10 ? "text-red-600" : ""}`}>
+                    <div className="text-gray-500">Probabilité de perte</div>
+                    <div className="font-semibold">{fmt(monteCarlo.probaPerte, 1)} %</div>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded-xl">
+                    <div className="text-gray-500">Durée médiane</div>
+                    <div className="font-semibold">{fmt(monteCarlo.dureeAnnees.p50, 1)} ans</div>
+                  </div>
+                </div>
+
+                <div className="overflow-auto border rounded-xl">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Percentile</th>
+                        <th className="px-3 py-2 text-right">TRI</th>
+                        <th className="px-3 py-2 text-right">Coût total</th>
+                        <th className="px-3 py-2 text-right">Durée</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(["p5", "p25", "p50", "p75", "p95"] as const).map((p) => (
+                        <tr key={p} className="odd:bg-white even:bg-gray-50">
+                          <td className="px-3 py-1">{p.toUpperCase()}</td>
+                          <td className="px-3 py-1 text-right">{fmt(monteCarlo.tri[p], 2)} %</td>
+                          <td className="px-3 py-1 text-right">{fmt(monteCarlo.coutTotal[p])} €</td>
+                          <td className="px-3 py-1 text-right">{fmt(monteCarlo.dureeAnnees[p], 1)} ans</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="h-64 w-full no-print">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={monteCarlo.histogramme} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="tri" tickFormatter={(t: number) => `${fmt(t, 1)} %`} />
+                      <YAxis tickFormatter={(t: number) => `${fmt(t, 0)} %`} />
+                      <Tooltip formatter={(v: number) => [`${fmt(v, 1)} % des tirages`, "Fréquence"]} labelFormatter={(t: number) => `TRI ≈ ${fmt(t, 2)} %`} />
+                      <Bar dataKey="frequence" name="Fréquence" fill={COLORS[0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {fmt(monteCarlo.tirages, 0)} scénarios calculés localement : date de décès tirée dans la table de mortalité, hausse annuelle des prix tirée autour de {fmt(toNum(hausseImmo), 1)} %/an.
+                </div>
+              </div>
+            )}
+          </div>
         </Section>
       </div>
     </>
@@ -886,7 +1312,7 @@ function SCPI({
   data: AppState["scpi"];
   onChange: (d: AppState["scpi"]) => void;
 }) {
-  const scpiModes = ["Pleine propriété", "Nue-propriété"] as const;
+  const scpiModes = SCPI_MODES;
   const {
     montant,
     td,
@@ -903,6 +1329,9 @@ function SCPI({
     taux,
     assurance,
     duree,
+    typeAmortissement,
+    differe,
+    differeMois,
   } = data;
 
   // Setters
@@ -921,63 +1350,27 @@ function SCPI({
   const setTaux = (v: string) => onChange({ ...data, taux: v });
   const setAssurance = (v: string) => onChange({ ...data, assurance: v });
   const setDuree = (v: string) => onChange({ ...data, duree: v });
+  const setTypeAmortissement = (v: string) => onChange({ ...data, typeAmortissement: v as TypeAmortissement });
+  const setDiffere = (v: string) => onChange({ ...data, differe: v as TypeDiffere });
+  const setDiffereMois = (v: string) => onChange({ ...data, differeMois: v });
 
-  // Conversion
-  const vMontant = toNum(montant);
-  const vTD = toNum(td) / 100;
-  const vFraisSous = toNum(fraisSous) / 100;
-  const vFraisAnn = toNum(fraisAnn) / 100;
-  const vDelai = Math.max(0, Math.min(12, Math.round(toNum(delaiJouissanceMois))));
-  const vTMI = Math.max(0, toNum(tmiIr)) / 100;
-  const vPS = Math.max(0, toNum(ps)) / 100;
-  const vDurNP = Math.max(0, Math.round(toNum(dureeNP)));
-  const vDecoteNP = Math.max(0, toNum(decoteNP)) / 100;
-  const vRevalo = Math.max(0, toNum(revaloParts)) / 100;
-
-  const vApport = toNum(apport);
-  const vTaux = toNum(taux);
-  const vAssur = toNum(assurance);
-  const vDuree = toNum(duree);
+  const {
+    capitalNetInvesti,
+    fraisSouscription,
+    dette,
+    serviceDetteMens,
+    coutInterets,
+    remboursementFinal,
+    valeurPPATerme,
+    rendementNP,
+    cashflowMensAn1PP,
+  } = simulateScpi(data);
 
-  // Décomposition du montant déboursé
-  const capitalNetInvesti = vMontant / (1 + vFraisSous);
-  const fraisSouscription = vMontant - capitalNetInvesti;
   const donutMontant = [
     { name: "Capital net investi", value: capitalNetInvesti },
     { name: "Frais de souscription", value: fraisSouscription },
   ];
 
-  // Distributions (pleine propriété)
-  const distBrutePleine = capitalNetInvesti * vTD;
-  const distBruteAn1 = distBrutePleine * ((12 - vDelai) / 12);
-  const fraisRecurAnn = capitalNetInvesti * vFraisAnn;
-  const distNetteAn1 = Math.max(0, distBruteAn1 - fraisRecurAnn);
-  const distNettePleine = Math.max(0, distBrutePleine - fraisRecurAnn);
-
-  // Fiscalité (IR + PS) sur distributions (PP uniquement)
-  const distApresImpotsAn1 = Math.max(0, distNetteAn1 - distNetteAn1 * (vTMI + vPS));
-  const distApresImpotsPleine = Math.max(0, distNettePleine - distNettePleine * (vTMI + vPS));
-
-  // Financement du montant déboursé
-  const dette = Math.max(0, vMontant - vApport);
-  const mensu = annuityPayment(dette, vTaux, vDuree);
-  const assurMens = (dette * (vAssur / 100)) / 12;
-  const serviceDetteMens = mensu + assurMens;
-
-  // Logique NP (pas de revenus) — valeur reconstituée à terme
-  const isNP = mode === "Nue-propriété";
-  let valeurPPATerme = 0;
-  let rendementNP = 0;
-  if (isNP) {
-    const pleinePropAujourd = capitalNetInvesti / (1 - vDecoteNP);
-    valeurPPATerme = pleinePropAujourd * Math.pow(1 + vRevalo, vDurNP);
-    rendementNP = vMontant > 0 && vDurNP > 0 ? (Math.pow(valeurPPATerme / vMontant, 1 / vDurNP) - 1) * 100 : 0;
-  }
-
-  // Résumés
-  const cashflowMensAn1PP = (distApresImpotsAn1 - serviceDetteMens * 12) / 12;
-  const cashflowMensPleinPP = (distApresImpotsPleine - serviceDetteMens * 12) / 12;
-
   return (
     <>
       <Helmet>
@@ -1017,6 +1410,15 @@ function SCPI({
             <Field label="Taux du prêt" suffix="%/an" value={taux} onChange={setTaux} decimals={2} help="Taux d'intérêt nominal annuel." />
             <Field label="Assurance emprunteur" suffix="%/an" value={assurance} onChange={setAssurance} decimals={2} help="Taux d'assurance, calculé sur le capital emprunté." />
             <Field label="Durée du prêt" suffix="ans" value={duree} onChange={setDuree} />
+            <SelectField
+              label="Type de prêt"
+              value={typeAmortissement}
+              onChange={setTypeAmortissement}
+              options={[...TYPES_AMORTISSEMENT]}
+              help="In fine : seuls les intérêts sont payés, le capital est remboursé en une fois au terme (usuel en SCPI, souvent avec nantissement des parts ou d'un contrat d'assurance-vie)."
+            />
+            <SelectField label="Différé" value={differe} onChange={setDiffere} options={[...TYPES_DIFFERE]} help="Partiel : intérêts payés, capital différé. Total : intérêts capitalisés (ajoutés au capital)." />
+            {differe !== "Aucun" && <Field label="Durée du différé" suffix="mois" value={differeMois} onChange={setDiffereMois} />}
           </div>
         </Section>
 
@@ -1036,6 +1438,15 @@ function SCPI({
             </div>
           )}
 
+          {dette > 0 && (
+            <div className="grid grid-cols-2 gap-3 text-sm mt-3">
+              <div className="bg-gray-50 p-3 rounded-xl"><div className="text-gray-500">Coût des intérêts</div><div className="font-semibold">{fmt(coutInterets)} €</div></div>
+              {typeAmortissement === "In fine" && (
+                <div className="bg-gray-50 p-3 rounded-xl"><div className="text-gray-500">Remboursement in fine (au terme)</div><div className="font-semibold">{fmt(remboursementFinal)} €</div></div>
+              )}
+            </div>
+          )}
+
           <div className="grid md:grid-cols-1 gap-6 mt-4">
             <DonutWithTotal data={donutMontant} colors={COLORS} title="Répartition du montant déboursé" totalTitle="Total déboursé" />
           </div>
@@ -1060,7 +1471,7 @@ function LocalCommercial({
   data: AppState["localCommercial"];
   onChange: (d: AppState["localCommercial"]) => void;
 }) {
-  const { prix, apport, taux, assurance, duree, loyer, charges, taxe } = data;
+  const { prix, apport, taux, assurance, duree, loyer, charges, taxe, departement, neuf } = data;
 
   // Setters
   const setPrix = (v: string) => onChange({ ...data, prix: v });
@@ -1071,36 +1482,28 @@ function LocalCommercial({
   const setLoyer = (v: string) => onChange({ ...data, loyer: v });
   const setCharges = (v: string) => onChange({ ...data, charges: v });
   const setTaxe = (v: string) => onChange({ ...data, taxe: v });
+  const setDepartement = (v: string) => onChange({ ...data, departement: v });
+  const setNeuf = (c: boolean) => onChange({ ...data, neuf: c });
 
   // Calculs
-  const vPrix = toNum(prix);
   const vApport = toNum(apport);
-  const vTaux = toNum(taux);
-  const vAssurance = toNum(assurance);
-  const vDuree = toNum(duree);
-  const vLoyer = toNum(loyer);
   const vCharges = toNum(charges);
   const vTaxe = toNum(taxe);
-
-  const capital = Math.max(0, vPrix - vApport);
-  const mensualite = annuityPayment(capital, vTaux, vDuree);
-  const assuranceMens = (capital * (vAssurance / 100)) / 12;
-  const mensualiteTotale = mensualite + assuranceMens;
-
-  const fraisNotaire = calculateNotaryFees(vPrix);
-
-  const revenuAnnuel = vLoyer * 12;
-  const rendementBrut = vPrix > 0 ? (revenuAnnuel / vPrix) * 100 : 0;
-  const chargesAnn = vCharges + vTaxe;
-  const revenuNetAvantDette = Math.max(0, revenuAnnuel - chargesAnn);
-  const rendementNet = vPrix > 0 ? (revenuNetAvantDette / vPrix) * 100 : 0;
-
-  const cashflowMens = vLoyer - (vCharges + vTaxe) / 12 - mensualiteTotale;
+  const {
+    capital,
+    mensualite,
+    assuranceMens,
+    mensualiteTotale,
+    fraisNotaireDetail,
+    rendementBrut,
+    rendementNet,
+    cashflowMens,
+  } = simulateLocalCommercial(data);
 
   const donutCout = [
     { name: "Apport", value: vApport },
     { name: "Capital prêt", value: capital },
-    { name: "Frais de notaire", value: fraisNotaire },
+    ...notarySlices(fraisNotaireDetail),
   ];
 
   const donutMensuels = [
@@ -1121,6 +1524,8 @@ function LocalCommercial({
         <Section title="Paramètres – Local commercial">
           <div className="space-y-3">
             <Field label="Prix du bien" suffix="€" value={prix} onChange={setPrix} help="Prix d'achat hors frais de notaire." />
+            <SelectField label="Département" value={departement} onChange={setDepartement} options={DEPARTEMENT_OPTIONS} help="Détermine le taux des droits de mutation inclus dans les frais de notaire." />
+            <CheckboxField label="Local neuf (VEFA)" checked={neuf} onChange={setNeuf} help="Frais réduits : taxe de publicité foncière à 0,715 % au lieu des droits de mutation." />
             <Field label="Apport" suffix="€" value={apport} onChange={setApport} help="Montant de votre apport personnel." />
             <div className="h-0.5 bg-gray-100 my-4"></div>
             <Field label="Taux du prêt" suffix="%/an" value={taux} onChange={setTaux} decimals={2} help="Taux d'intérêt nominal annuel." />
@@ -1166,6 +1571,13 @@ function LocalCommercial({
   );
 }
 
+// Valeurs proposées à l'ajout d'une ligne au plan de financement
+const LIGNES_DEFAUT: Record<TypeLignePret, AppState["creditImmo"]["lignes"][number]> = {
+  PTZ: { type: "PTZ", montant: "40000", taux: "0", assurance: "0,30", duree: "20", differe: "60" },
+  "Action Logement": { type: "Action Logement", montant: "30000", taux: "1", assurance: "0,30", duree: "20", differe: "0" },
+  "Autre prêt": { type: "Autre prêt", montant: "20000", taux: "3,5", assurance: "0,30", duree: "15", differe: "0" },
+};
+
 /****************************************
  * COMPOSANT CREDIT IMMOBILIER (MODIFIÉ)
  ****************************************/
@@ -1177,7 +1589,35 @@ function CreditImmo({
   data: AppState["creditImmo"];
   onChange: (d: AppState["creditImmo"]) => void;
 }) {
-  const { capital, taux, assurance, duree, assuranceSurCRD } = data;
+  const {
+    capital,
+    taux,
+    assurance,
+    duree,
+    assuranceSurCRD,
+    typeAmortissement,
+    differe,
+    differeMois,
+    fraisDossier,
+    garantie,
+    fraisGarantie,
+    restitutionGarantiePct,
+    fraisCourtage,
+    seuilsUsure,
+    indemnitesRA,
+    evenements,
+    lissage,
+    lignes,
+    typeTaux,
+    indexInitial,
+    marge,
+    cap,
+    plancher,
+    revisionMois,
+    ajustementRevision,
+    scenarioIndex,
+    trajectoireIndex,
+  } = data;
 
   // Setters
   const setCapital = (v: string) => onChange({ ...data, capital: v });
@@ -1185,6 +1625,54 @@ function CreditImmo({
   const setAssurance = (v: string) => onChange({ ...data, assurance: v });
   const setDuree = (v: string) => onChange({ ...data, duree: v });
   const setAssuranceSurCRD = (c: boolean) => onChange({ ...data, assuranceSurCRD: c });
+  const setTypeAmortissement = (v: string) => onChange({ ...data, typeAmortissement: v as TypeAmortissement });
+  const setDiffere = (v: string) => onChange({ ...data, differe: v as TypeDiffere });
+  const setDiffereMois = (v: string) => onChange({ ...data, differeMois: v });
+  const setFraisDossier = (v: string) => onChange({ ...data, fraisDossier: v });
+  const setGarantie = (v: string) => onChange({ ...data, garantie: v as Garantie });
+  const setFraisGarantie = (v: string) => onChange({ ...data, fraisGarantie: v });
+  const setRestitutionGarantiePct = (v: string) => onChange({ ...data, restitutionGarantiePct: v });
+  const setFraisCourtage = (v: string) => onChange({ ...data, fraisCourtage: v });
+  const setSeuilUsure = (i: number, v: string) => onChange({ ...data, seuilsUsure: seuilsUsure.map((x, j) => (j === i ? v : x)) });
+  const setIndemnitesRA = (c: boolean) => onChange({ ...data, indemnitesRA: c });
+
+  // Événements (remboursements anticipés, modulations)
+  type Evenement = AppState["creditImmo"]["evenements"][number];
+  const setEvenement = (i: number, patch: Partial<Evenement>) =>
+    onChange({ ...data, evenements: evenements.map((e, j) => (j === i ? { ...e, ...patch } : e)) });
+  const addEvenement = () =>
+    onChange({
+      ...data,
+      evenements: [
+        ...evenements,
+        { type: "Remboursement partiel", mois: "60", montant: "20000", option: "Réduire la durée", modulationPct: "10" },
+      ],
+    });
+  const removeEvenement = (i: number) => onChange({ ...data, evenements: evenements.filter((_, j) => j !== i) });
+
+  // Plan de financement : lignes complémentaires
+  type Ligne = AppState["creditImmo"]["lignes"][number];
+  const setLissage = (c: boolean) => onChange({ ...data, lissage: c });
+  const setLigne = (i: number, patch: Partial<Ligne>) =>
+    onChange({ ...data, lignes: lignes.map((l, j) => (j === i ? { ...l, ...patch } : l)) });
+  const addLigne = (type: TypeLignePret) => onChange({ ...data, lignes: [...lignes, LIGNES_DEFAUT[type]] });
+  const removeLigne = (i: number) => onChange({ ...data, lignes: lignes.filter((_, j) => j !== i) });
+
+  // Taux variable capé
+  const setTypeTaux = (v: string) => onChange({ ...data, typeTaux: v as TypeTaux });
+  const setIndexInitial = (v: string) => onChange({ ...data, indexInitial: v });
+  const setMarge = (v: string) => onChange({ ...data, marge: v });
+  const setCap = (v: string) => onChange({ ...data, cap: v });
+  const setPlancher = (v: string) => onChange({ ...data, plancher: v });
+  const setRevisionMois = (v: string) => onChange({ ...data, revisionMois: v });
+  const setAjustementRevision = (v: string) => onChange({ ...data, ajustementRevision: v as AjustementRevision });
+  const setScenarioIndex = (v: string) => onChange({ ...data, scenarioIndex: v as ScenarioIndex });
+  const setTrajectoireIndex = (i: number, v: string) => {
+    const next = [...trajectoireIndex];
+    while (next.length <= i) next.push("");
+    next[i] = v;
+    onChange({ ...data, trajectoireIndex: next });
+  };
 
   // États locaux pour l'UI (non sauvegardés)
   const [showTable, setShowTable] = useState(false);
@@ -1193,104 +1681,48 @@ function CreditImmo({
   // Conversion
   const vCap = toNum(capital);
   const vTaux = toNum(taux);
-  const vAss = toNum(assurance);
   const vDur = toNum(duree);
 
-  // Calcul de la mensualité HORS assurance (toujours fixe)
-  const mensuHorsAss = annuityPayment(vCap, vTaux, vDur);
-  // Assurance fixe (pour le mode "Capital Initial")
-  const assMensFixe = (vCap * (vAss / 100)) / 12;
-
-  // --- Tableau d'amortissement (MODIFIÉ) ---
-  type Row = {
-    mois: number;
-    echeance: number;
-    interets: number;
-    assurance: number;
-    principal: number;
-    crd: number;
-  };
-
-  const schedule = useMemo((): Row[] => {
-    const rows: Row[] = [];
-    let crd = vCap;
-    const r = vTaux / 100 / 12; // Taux mensuel
-    const mensu = mensuHorsAss; // Mensualité (capital + intérêts)
-    const totalMonths = Math.round(vDur * 12);
-    const vAssRate = vAss / 100; // Taux assurance annuel
-
-    if (totalMonths === 0 || vCap === 0) return [];
-
-    for (let m = 1; m <= totalMonths; m++) {
-      const interets = r > 0 ? crd * r : 0;
-      let principal = mensu - interets;
-      if (principal < 0) principal = 0;
-
-      // Assurance (MODIFIÉ)
-      const assurance = assuranceSurCRD
-        ? (crd * vAssRate) / 12 // Calcul sur CRD
-        : assMensFixe; // Calcul sur capital initial
-
-      // Ajustement dernier mois
-      if (m === totalMonths) {
-        principal = crd;
-      }
-      crd = Math.max(0, crd - principal);
-      
-      rows.push({
-        mois: m,
-        echeance: mensu + assurance,
-        interets,
-        assurance: assurance,
-        principal,
-        crd,
-      });
-      
-      if (crd === 0) break; // Sortir si le prêt est remboursé (ex: taux 0)
-    }
-    return rows;
-  }, [vCap, vTaux, vAss, vDur, mensuHorsAss, assMensFixe, assuranceSurCRD]);
-
-  // --- Totaux et moyennes (MODIFIÉ) ---
-  // Calculés à partir du tableau pour refléter le mode d'assurance
-  const totalInterets = useMemo(() => schedule.reduce((s, r) => s + r.interets, 0), [schedule]);
-  const totalAssurance = useMemo(() => schedule.reduce((s, r) => s + r.assurance, 0), [schedule]);
-  const coutTotal = totalInterets + totalAssurance;
-  const n = schedule.length || 1;
-  const assMensMoyenne = totalAssurance / n;
-  const mensuTotMoyenne = mensuHorsAss + assMensMoyenne;
+  const {
+    mensuHorsAss,
+    schedule,
+    chartData,
+    totalInterets,
+    totalAssurance,
+    totalEcheances,
+    totalPrincipal,
+    totalRemboursementsAnticipes,
+    totalIndemnites,
+    dureeEffectiveMois,
+    interetsEconomises,
+    coutTotal,
+    assMensMoyenne,
+    mensuTotMoyenne,
+    capitalTotal,
+    lignes: lignesPlan,
+    mensualiteLissee,
+    alerteLissage,
+    taeg,
+    scenariosTaux,
+  } = useMemo(() => simulateCreditImmo(data), [data]);
+
+  const isVariable = typeTaux === "Variable capé";
+  const anneesPret = Math.max(1, Math.ceil(vDur));
+  // CRD annuel de chaque scénario, pour la superposition avec le taux fixe
+  const scenariosChart = Array.from({ length: Math.max(0, ...scenariosTaux.map((s) => s.crdAnnuel.length)) }, (_, annee) =>
+    Object.fromEntries([["annee", annee], ...scenariosTaux.map((s) => [s.scenario, s.crdAnnuel[annee] ?? 0])])
+  );
 
   const donut = [
     { name: "Intérêts", value: totalInterets },
     { name: "Assurance", value: totalAssurance },
-    { name: "Capital", value: vCap },
+    { name: "Capital", value: capitalTotal },
+    { name: "Indemnités RA", value: totalIndemnites },
   ];
 
-  // --- Données du graphique (NOUVEAU) ---
-  const chartData = useMemo(() => {
-    let cumulInterets = 0;
-    let cumulAssurance = 0;
-    const data = [{ mois: 0, crd: vCap, cumulInterets: 0, cumulAssurance: 0 }];
-
-    schedule.forEach((row) => {
-      cumulInterets += row.interets;
-      cumulAssurance += row.assurance;
-      // On prend un point tous les ans (mois % 12 === 0) et le dernier
-      if (row.mois % 12 === 0 || row.mois === schedule.length) {
-        data.push({
-          mois: row.mois,
-          crd: row.crd,
-          cumulInterets: cumulInterets,
-          cumulAssurance: cumulAssurance,
-        });
-      }
-    });
-    return data;
-  }, [schedule, vCap]);
-
   // --- Export CSV (MODIFIÉ pour gérer l'échéance variable) ---
   const exportCSV = () => {
-    const header = ["Mois","Échéance totale","Capital remboursé","Intérêts","Assurance","Capital restant dû"];
+    const header = ["Mois","Échéance totale","Capital remboursé","Intérêts","Assurance","Remboursement anticipé","Indemnités RA","Capital restant dû"];
     const lines = [header.join(";")];
     schedule.forEach(row => {
       lines.push([
@@ -1299,18 +1731,13 @@ function CreditImmo({
         row.principal.toFixed(2).replace(".",","),
         row.interets.toFixed(2).replace(".",","),
         row.assurance.toFixed(2).replace(".",","),
+        row.remboursementAnticipe.toFixed(2).replace(".",","),
+        row.indemnites.toFixed(2).replace(".",","),
         row.crd.toFixed(2).replace(".",",")
       ].join(";"));
     });
     const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `amortissement_${vCap}€_${vTaux}%_${vDur}ans.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    telecharger(blob, `amortissement_${vCap}€_${vTaux}%_${vDur}ans.csv`);
   };
   
   const YAxisFormatter = (tick: number) => fmt(tick, 0);
@@ -1331,10 +1758,69 @@ function CreditImmo({
       <div className="grid lg:grid-cols-2 gap-6">
         <Section title="Paramètres – Crédit">
           <div className="space-y-3">
-            <Field label="Capital emprunté" suffix="€" value={capital} onChange={setCapital} help="Montant total du prêt demandé à la banque." />
-            <Field label="Taux nominal" suffix="%/an" value={taux} onChange={setTaux} decimals={2} help="Taux d'intérêt annuel fixe, hors assurance." />
+            <Field label="Capital emprunté" suffix="€" value={capital} onChange={setCapital} help="Montant du prêt bancaire principal (hors prêts complémentaires du plan de financement)." />
+            <SelectField
+              label="Type de taux"
+              value={typeTaux}
+              onChange={setTypeTaux}
+              options={[...TYPES_TAUX]}
+              help="Variable capé : le taux suit l'indice de référence (Euribor) à chaque révision, dans la limite du cap à la hausse et du plancher à la baisse."
+            />
+            <Field
+              label={isVariable ? "Taux fixe de comparaison" : "Taux nominal"}
+              suffix="%/an"
+              value={taux}
+              onChange={setTaux}
+              decimals={2}
+              help={isVariable ? "Taux d'un prêt fixe équivalent, pour mesurer le risque du taux variable." : "Taux d'intérêt annuel fixe, hors assurance."}
+            />
             <Field label="Assurance emprunteur" suffix="%/an" value={assurance} onChange={setAssurance} decimals={2} help="Taux annuel de l'assurance." />
-            <Field label="Durée" suffix="ans" value={duree} onChange={setDuree} />
+            <Field label="Durée" suffix="ans" value={duree} onChange={setDuree} help="Durée totale, différé éventuel inclus." />
+            {isVariable && (
+              <div className="border rounded-xl p-3 space-y-2 bg-gray-50">
+                <Field label="Indice initial (Euribor)" suffix="%" value={indexInitial} onChange={setIndexInitial} decimals={2} />
+                <Field label="Marge de la banque" suffix="%" value={marge} onChange={setMarge} decimals={2} help={`Taux initial = indice + marge, soit ${fmt(toNum(indexInitial) + toNum(marge), 2)} %.`} />
+                <Field label="Cap (hausse maximale)" suffix="pts" value={cap} onChange={setCap} decimals={2} help="Hausse maximale du taux par rapport au taux initial, sur toute la durée (ex : 1 ou 2 points)." />
+                <Field label="Plancher (baisse maximale)" suffix="pts" value={plancher} onChange={setPlancher} decimals={2} />
+                <Field label="Révision tous les" suffix="mois" value={revisionMois} onChange={setRevisionMois} help="Périodicité de révision du taux, le plus souvent annuelle." />
+                <SelectField
+                  label="Après révision"
+                  value={ajustementRevision}
+                  onChange={setAjustementRevision}
+                  options={[...AJUSTEMENTS_REVISION]}
+                  help="Durée constante : la mensualité est recalculée. Mensualité constante : la durée s'allonge ou se raccourcit."
+                />
+                <SelectField
+                  label="Scénario d'indice"
+                  value={scenarioIndex}
+                  onChange={setScenarioIndex}
+                  options={[...SCENARIOS_INDEX]}
+                  help="Scénario utilisé pour le tableau, le graphique et les totaux. Les scénarios +2 pts et -1 pt atteignent leur niveau en deux ans."
+                />
+                {scenarioIndex === "Personnalisé" && (
+                  <>
+                    <div className="text-xs text-gray-500">Indice par année (une case vide reprend la valeur précédente) :</div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Array.from({ length: anneesPret }, (_, i) => (
+                        <Field key={i} label={`Année ${i + 1}`} suffix="%" value={trajectoireIndex[i] ?? ""} onChange={(v) => setTrajectoireIndex(i, v)} decimals={2} />
+                      ))}
+                    </div>
+                  </>
+                )}
+                {(evenements.length > 0 || typeAmortissement !== "Amortissable" || differe !== "Aucun") && (
+                  <p className="text-xs text-orange-600">Les événements, le type de prêt et le différé ne s'appliquent pas au prêt à taux variable.</p>
+                )}
+              </div>
+            )}
+            <SelectField
+              label="Type de prêt"
+              value={typeAmortissement}
+              onChange={setTypeAmortissement}
+              options={[...TYPES_AMORTISSEMENT]}
+              help="Amortissable : échéance constante. Amortissement constant : même part de capital chaque mois, échéances dégressives. In fine : intérêts seuls, capital remboursé au terme."
+            />
+            <SelectField label="Différé" value={differe} onChange={setDiffere} options={[...TYPES_DIFFERE]} help="Partiel : intérêts payés, capital différé. Total : intérêts capitalisés (ajoutés au capital). L'assurance reste due." />
+            {differe !== "Aucun" && <Field label="Durée du différé" suffix="mois" value={differeMois} onChange={setDiffereMois} />}
             <div className="h-0.5 bg-gray-100 my-4"></div>
             <CheckboxField
               label="Assurance sur CRD"
@@ -1342,6 +1828,118 @@ function CreditImmo({
               onChange={setAssuranceSurCRD}
               help="Cochez pour calculer l'assurance chaque mois sur le Capital Restant Dû (dégressif). Sinon, elle est fixe (calculée sur le capital initial)."
             />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <div className="text-sm font-semibold text-gray-700">Frais & garantie (TAEG)</div>
+            <Field label="Frais de dossier" suffix="€" value={fraisDossier} onChange={setFraisDossier} />
+            <SelectField label="Garantie" value={garantie} onChange={setGarantie} options={[...GARANTIES]} />
+            {garantie !== "Aucune" && (
+              <Field
+                label={garantie === "Caution Crédit Logement" ? "Coût de la caution" : "Frais d'hypothèque / PPD"}
+                suffix="€"
+                value={fraisGarantie}
+                onChange={setFraisGarantie}
+                help={garantie === "Caution Crédit Logement" ? "Commission de caution + participation au fonds mutuel de garantie (FMG)." : "Frais d'acte, taxe de publicité foncière et contribution de sécurité immobilière."}
+              />
+            )}
+            {garantie === "Caution Crédit Logement" && (
+              <Field label="Part restituée en fin de prêt" suffix="%" value={restitutionGarantiePct} onChange={setRestitutionGarantiePct} help="Partie du coût de la caution (FMG) restituée au remboursement du prêt." />
+            )}
+            <Field label="Frais de courtage" suffix="€" value={fraisCourtage} onChange={setFraisCourtage} />
+            <div className="text-xs text-gray-500">Seuils de l'usure (taux fixe) – à mettre à jour chaque trimestre (Banque de France) :</div>
+            {TRANCHES_USURE.map((t, i) => (
+              <Field key={t.libelle} label={t.libelle} suffix="%" value={seuilsUsure[i] ?? ""} onChange={(v) => setSeuilUsure(i, v)} decimals={2} />
+            ))}
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <div className="text-sm font-semibold text-gray-700">Remboursements anticipés & modulations</div>
+            <CheckboxField
+              label="Indemnités de remboursement anticipé"
+              checked={indemnitesRA}
+              onChange={setIndemnitesRA}
+              help="Plafond légal : 6 mois d'intérêts sur le capital remboursé, sans dépasser 3 % du capital restant dû. Décochez si votre contrat les exclut."
+            />
+            {evenements.map((e, i) => (
+              <div key={i} className="border rounded-xl p-3 space-y-2 bg-gray-50">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Événement {i + 1}</span>
+                  <button onClick={() => removeEvenement(i)} className="text-sm text-red-600 hover:underline no-print">
+                    Supprimer
+                  </button>
+                </div>
+                <SelectField label="Type" value={e.type} onChange={(v) => setEvenement(i, { type: v as TypeEvenementPret })} options={[...EVENEMENTS_PRET]} />
+                <Field label="Mois" suffix="n°" value={e.mois} onChange={(v) => setEvenement(i, { mois: v })} help="Numéro de l'échéance après laquelle l'événement s'applique (modulation : dès cette échéance)." />
+                {e.type === "Remboursement partiel" && (
+                  <>
+                    <Field label="Montant remboursé" suffix="€" value={e.montant} onChange={(v) => setEvenement(i, { montant: v })} />
+                    <SelectField label="Effet" value={e.option} onChange={(v) => setEvenement(i, { option: v as OptionRemboursement })} options={[...OPTIONS_REMBOURSEMENT]} />
+                  </>
+                )}
+                {e.type === "Modulation" && (
+                  <Field label="Variation de l'échéance" suffix="%" value={e.modulationPct} onChange={(v) => setEvenement(i, { modulationPct: v })} help="Ex : 20 pour augmenter l'échéance de 20 %, -10 pour la baisser de 10 %. La durée s'ajuste en conséquence, dans la limite d'un allongement de 2 ans : une baisse plus forte est ramenée à l'échéance qui solde le prêt à cette date." />
+                )}
+              </div>
+            ))}
+            <button
+              onClick={addEvenement}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow no-print"
+            >
+              Ajouter un événement
+            </button>
+            {lissage && lignes.length > 0 && (evenements.length > 0 || typeAmortissement !== "Amortissable" || differe !== "Aucun") && (
+              <p className="text-xs text-orange-600">Les événements, le type de prêt et le différé ne s'appliquent pas à un prêt principal lissé.</p>
+            )}
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <div className="text-sm font-semibold text-gray-700">Plan de financement (prêts complémentaires)</div>
+            {lignes.map((l, i) => (
+              <div key={i} className="border rounded-xl p-3 space-y-2 bg-gray-50">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{l.type}</span>
+                  <button onClick={() => removeLigne(i)} className="text-sm text-red-600 hover:underline no-print">
+                    Supprimer
+                  </button>
+                </div>
+                <Field label="Montant" suffix="€" value={l.montant} onChange={(v) => setLigne(i, { montant: v })} />
+                <Field label="Taux nominal" suffix="%/an" value={l.taux} onChange={(v) => setLigne(i, { taux: v })} decimals={2} />
+                <Field label="Assurance" suffix="%/an" value={l.assurance} onChange={(v) => setLigne(i, { assurance: v })} decimals={2} />
+                <Field label="Durée totale" suffix="ans" value={l.duree} onChange={(v) => setLigne(i, { duree: v })} />
+                <Field
+                  label="Différé"
+                  suffix="mois"
+                  value={l.differe}
+                  onChange={(v) => setLigne(i, { differe: v })}
+                  help="Période initiale sans remboursement de capital (seuls intérêts et assurance sont payés), incluse dans la durée totale. PTZ : 5, 10 ou 15 ans selon les revenus."
+                />
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2 no-print">
+              {TYPES_LIGNE_PRET.map((t) => (
+                <button
+                  key={t}
+                  onClick={() => addLigne(t)}
+                  className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow"
+                >
+                  + {t}
+                </button>
+              ))}
+            </div>
+            {lignes.length > 0 && (
+              <CheckboxField
+                label="Lisser le prêt principal"
+                checked={lissage}
+                onChange={setLissage}
+                help="L'échéance du prêt principal s'adapte à celles des prêts complémentaires (différés, fins de prêt) pour que la mensualité totale hors assurance reste constante."
+              />
+            )}
+            {alerteLissage === "lignes-plus-longues" && (
+              <p className="text-xs text-orange-600">
+                Lissage non appliqué : un prêt complémentaire se termine après le prêt principal. Allongez le prêt principal ou raccourcissez ce prêt.
+              </p>
+            )}
+            {alerteLissage === "total-depasse" && (
+              <p className="text-xs text-orange-600">
+                Certains mois, les prêts complémentaires dépassent à eux seuls la mensualité lissée : le prêt principal n'y est pas remboursé et la
+                mensualité totale n'est pas constante.
+              </p>
+            )}
           </div>
         </Section>
 
@@ -1360,13 +1958,168 @@ function CreditImmo({
               <div className="font-semibold">{fmt(mensuTotMoyenne)} €/mois</div>
             </div>
             <div className="bg-gray-50 p-3 rounded-xl">
-              <div className="text-gray-500">Coût total (int.+ass.)</div>
+              <div className="text-gray-500">Coût total (int.+ass.{totalIndemnites > 0 ? "+IRA" : ""})</div>
               <div className="font-semibold">{fmt(coutTotal)} €</div>
             </div>
           </div>
 
+          <div className={`p-3 rounded-xl text-sm mt-3 ${taeg.depasseUsure ? "bg-red-50 text-red-700" : "bg-gray-50"}`}>
+            <div className="flex justify-between">
+              <span className="text-gray-500">TAEG (assurance, frais et garantie inclus) :</span>
+              <span className="font-bold">{fmt(taeg.taeg, 2)} %</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Seuil de l'usure ({taeg.trancheUsure}) :</span>
+              <span className="font-medium">{fmt(taeg.seuilUsure, 2)} %</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Frais initiaux / restitution de garantie :</span>
+              <span className="font-medium">{fmt(taeg.fraisInitiaux)} € / {fmt(taeg.restitutionGarantie)} €</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Coût total du crédit (frais inclus) :</span>
+              <span className="font-medium">{fmt(taeg.coutTotalCredit)} €</span>
+            </div>
+            {taeg.depasseUsure && (
+              <div className="mt-1 font-semibold">
+                ⚠️ Le TAEG dépasse le taux de l'usure : l'offre ne peut pas être légalement accordée en l'état (réduire l'assurance, les frais ou le taux).
+              </div>
+            )}
+          </div>
+
+          {lignesPlan.length > 1 && (
+            <div className="mt-3 overflow-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Ligne</th>
+                    <th className="px-3 py-2 text-right">Montant</th>
+                    <th className="px-3 py-2 text-right">Taux</th>
+                    <th className="px-3 py-2 text-right">Durée</th>
+                    <th className="px-3 py-2 text-right">Échéance (hors ass.)</th>
+                    <th className="px-3 py-2 text-right">Intérêts</th>
+                    <th className="px-3 py-2 text-right">Assurance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lignesPlan.map((l, i) => (
+                    <tr key={i} className="odd:bg-white even:bg-gray-50">
+                      <td className="px-3 py-1">{l.libelle}</td>
+                      <td className="px-3 py-1 text-right">{fmt(l.montant, 0)} €</td>
+                      <td className="px-3 py-1 text-right">{fmt(l.tauxPct, 2)} %</td>
+                      <td className="px-3 py-1 text-right">{fmt(l.dureeMois, 0)} mois</td>
+                      <td className="px-3 py-1 text-right">{fmt(l.echeanceInitiale)} €</td>
+                      <td className="px-3 py-1 text-right">{fmt(l.totalInterets)} €</td>
+                      <td className="px-3 py-1 text-right">{fmt(l.totalAssurance)} €</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-100">
+                  <tr>
+                    <td className="px-3 py-2 font-semibold">Total</td>
+                    <td className="px-3 py-2 text-right font-semibold">{fmt(capitalTotal, 0)} €</td>
+                    <td colSpan={3} className="px-3 py-2 text-right font-semibold">
+                      {mensualiteLissee !== null ? `Mensualité lissée : ${fmt(mensualiteLissee)} €` : ""}
+                    </td>
+                    <td className="px-3 py-2 text-right font-semibold">{fmt(totalInterets)} €</td>
+                    <td className="px-3 py-2 text-right font-semibold">{fmt(totalAssurance)} €</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          {scenariosTaux.length > 0 && (
+            <div className="mt-3">
+              <div className="text-sm font-semibold text-gray-700 mb-2">Scénarios de taux – prêt principal</div>
+              <div className="overflow-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Scénario</th>
+                      <th className="px-3 py-2 text-right">Taux min – max</th>
+                      <th className="px-3 py-2 text-right">Mensualité max (hors ass.)</th>
+                      <th className="px-3 py-2 text-right">Durée</th>
+                      <th className="px-3 py-2 text-right">Intérêts</th>
+                      <th className="px-3 py-2 text-right">Coût total</th>
+                      <th className="px-3 py-2 text-right">Écart vs fixe</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {scenariosTaux.map((s) => (
+                      <tr key={s.scenario} className={s.scenario === scenarioIndex ? "bg-blue-50 font-medium" : "odd:bg-white even:bg-gray-50"}>
+                        <td className="px-3 py-1">{s.scenario}</td>
+                        <td className="px-3 py-1 text-right">
+                          {fmt(s.tauxMin, 2)} – {fmt(s.tauxMax, 2)} %
+                        </td>
+                        <td className="px-3 py-1 text-right">{fmt(s.mensualiteMax)} €</td>
+                        <td className="px-3 py-1 text-right">{fmt(s.dureeMois, 0)} mois</td>
+                        <td className="px-3 py-1 text-right">{fmt(s.totalInterets)} €</td>
+                        <td className="px-3 py-1 text-right">{fmt(s.coutTotal)} €</td>
+                        <td className={`px-3 py-1 text-right ${s.coutTotal > scenariosTaux[0].coutTotal ? "text-red-600" : "text-green-600"}`}>
+                          {fmt(s.coutTotal - scenariosTaux[0].coutTotal)} €
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="h-64 w-full mt-3">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={scenariosChart} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="annee" tickFormatter={(t: number) => `An ${t}`} />
+                    <YAxis tickFormatter={YAxisFormatter} />
+                    <Tooltip formatter={TooltipFormatter} labelFormatter={(t: number) => `Année ${t} – capital restant dû`} />
+                    {scenariosTaux.map((s, i) => (
+                      <Line
+                        key={s.scenario}
+                        type="monotone"
+                        dataKey={s.scenario}
+                        name={s.scenario}
+                        stroke={COLORS[i % COLORS.length]}
+                        strokeWidth={s.scenario === scenarioIndex ? 3 : 1.5}
+                        strokeDasharray={s.scenario === "Taux fixe" ? "5 5" : undefined}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                {scenariosTaux.map((s, i) => (
+                  <span key={s.scenario} className="inline-flex items-center gap-1">
+                    <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                    {s.scenario}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {evenements.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mt-3">
+              <div className="bg-gray-50 p-3 rounded-xl">
+                <div className="text-gray-500">Durée effective</div>
+                <div className="font-semibold">{fmt(dureeEffectiveMois, 0)} mois</div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded-xl">
+                <div className="text-gray-500">Remboursements anticipés</div>
+                <div className="font-semibold">{fmt(totalRemboursementsAnticipes)} €</div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded-xl">
+                <div className="text-gray-500">Indemnités (IRA)</div>
+                <div className="font-semibold">{fmt(totalIndemnites)} €</div>
+              </div>
+              <div className={`bg-gray-50 p-3 rounded-xl ${interetsEconomises < 0 ? "text-red-600" : "text-green-600"}`}>
+                <div className="text-gray-500">Intérêts économisés</div>
+                <div className="font-semibold">{fmt(interetsEconomises)} €</div>
+              </div>
+            </div>
+          )}
+
           <div className="grid md:grid-cols-1 gap-6 mt-4">
-            <DonutWithTotal data={donut} colors={["#E67E22", "#F2C94C", "#3559E0"]} title="Décomposition du coût total" totalTitle="Total remboursé" />
+            <DonutWithTotal data={donut} colors={["#E67E22", "#F2C94C", "#3559E0", "#EB5757"]} title="Décomposition du coût total" totalTitle="Total remboursé" />
           </div>
 
           {/* GRAPHIQUE + TABLEAU REPLIABLES */}
@@ -1421,6 +2174,8 @@ function CreditImmo({
                       <th className="px-3 py-2 text-right">Capital remboursé</th>
                       <th className="px-3 py-2 text-right">Intérêts</th>
                       <th className="px-3 py-2 text-right">Assurance</th>
+                      <th className="px-3 py-2 text-right">Remb. anticipé</th>
+                      <th className="px-3 py-2 text-right">IRA</th>
                       <th className="px-3 py-2 text-right">CRD</th>
                     </tr>
                   </thead>
@@ -1432,6 +2187,8 @@ function CreditImmo({
                         <td className="px-3 py-1 text-right">{fmt(row.principal)}</td>
                         <td className="px-3 py-1 text-right">{fmt(row.interets)}</td>
                         <td className="px-3 py-1 text-right">{fmt(row.assurance)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.remboursementAnticipe)}</td>
+                        <td className="px-3 py-1 text-right">{fmt(row.indemnites)}</td>
                         <td className="px-3 py-1 text-right">{fmt(row.crd)}</td>
                       </tr>
                     ))}
@@ -1439,11 +2196,13 @@ function CreditImmo({
                   <tfoot className="bg-gray-100 sticky bottom-0">
                     <tr>
                       <td className="px-3 py-2 font-semibold">Total</td>
-                      <td className="px-3 py-2 text-right font-semibold">{fmt(schedule.reduce((s, r) => s + r.echeance, 0))}</td>
-                      <td className="px-3 py-2 text-right font-semibold">{fmt(schedule.reduce((s, r) => s + r.principal, 0))}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{fmt(totalEcheances)}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{fmt(totalPrincipal)}</td>
                       <td className="px-3 py-2 text-right font-semibold">{fmt(totalInterets)}</td>
                       <td className="px-3 py-2 text-right font-semibold">{fmt(totalAssurance)}</td>
-                      <td className="px-3 py-2 text-right font-semibold">{fmt(0)}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{fmt(totalRemboursementsAnticipes)}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{fmt(totalIndemnites)}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{fmt(schedule.length ? schedule[schedule.length - 1].crd : 0)}</td>
                     </tr>
                   </tfoot>
                 </table>
@@ -1456,6 +2215,250 @@ function CreditImmo({
   );
 }
 
+/*********************
+ * COMPOSANT CAPACITÉ D'EMPRUNT
+ *********************/
+function CapaciteEmprunt({
+  data,
+  onChange,
+  onPush,
+}: {
+  data: AppState["capacite"];
+  onChange: (d: AppState["capacite"]) => void;
+  onPush: (r: CapaciteEmpruntResult) => void;
+}) {
+  const { revenusMensuels, loyersPercus, creditsEnCours, personnesFoyer, taux, assurance, duree, tauxEndettementMax } = data;
+
+  // Setters
+  const setRevenusMensuels = (v: string) => onChange({ ...data, revenusMensuels: v });
+  const setLoyersPercus = (v: string) => onChange({ ...data, loyersPercus: v });
+  const setCreditsEnCours = (v: string) => onChange({ ...data, creditsEnCours: v });
+  const setPersonnesFoyer = (v: string) => onChange({ ...data, personnesFoyer: v });
+  const setTaux = (v: string) => onChange({ ...data, taux: v });
+  const setAssurance = (v: string) => onChange({ ...data, assurance: v });
+  const setDuree = (v: string) => onChange({ ...data, duree: v });
+  const setTauxEndettementMax = (v: string) => onChange({ ...data, tauxEndettementMax: v });
+
+  const result = simulateCapaciteEmprunt(data);
+  const {
+    revenusRetenus,
+    chargesExistantes,
+    tauxEndettementActuel,
+    dureeRetenue,
+    mensualiteMax,
+    mensualiteHorsAssurance,
+    assuranceMens,
+    capitalMax,
+    coutTotalInterets,
+    resteAVivre,
+    resteAVivreParPersonne,
+  } = result;
+
+  const donutRevenus = [
+    { name: "Crédits en cours", value: chargesExistantes },
+    { name: "Nouvelle mensualité", value: mensualiteMax },
+    { name: "Reste à vivre", value: Math.max(0, resteAVivre) },
+  ];
+
+  return (
+    <>
+      <Helmet>
+        <title>Capacité d'emprunt – Calcul selon la norme HCSF (35 %, 25 ans)</title>
+        <meta name="description" content="Combien pouvez-vous emprunter ? Mensualité maximale à 35 % d'endettement assurance comprise, durée 25 ans, loyers retenus à 70 %, reste à vivre." />
+        <link rel="canonical" href="https://wizzwid.github.io/viager-vs-location/#/capacite-emprunt" />
+      </Helmet>
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Section title="Paramètres – Capacité d'emprunt">
+          <div className="space-y-3">
+            <Field label="Revenus nets mensuels du foyer" suffix="€/mois" value={revenusMensuels} onChange={setRevenusMensuels} help="Salaires et revenus réguliers, nets avant impôt." />
+            <Field label="Loyers perçus" suffix="€/mois" value={loyersPercus} onChange={setLoyersPercus} help="Loyers des biens déjà loués, retenus à 70 % par les banques." />
+            <Field label="Mensualités de crédits en cours" suffix="€/mois" value={creditsEnCours} onChange={setCreditsEnCours} help="Crédits immobiliers, auto, consommation… assurance comprise." />
+            <Field label="Personnes dans le foyer" suffix="pers." value={personnesFoyer} onChange={setPersonnesFoyer} />
+            <div className="h-0.5 bg-gray-100 my-4"></div>
+            <Field label="Taux nominal" suffix="%/an" value={taux} onChange={setTaux} decimals={2} />
+            <Field label="Assurance emprunteur" suffix="%/an" value={assurance} onChange={setAssurance} decimals={2} help="Taux annuel sur le capital emprunté, inclus dans le taux d'effort." />
+            <Field label="Durée" suffix="ans" value={duree} onChange={setDuree} help="Plafonnée à 25 ans par la norme HCSF." />
+            <Field label="Taux d'endettement maximal" suffix="%" value={tauxEndettementMax} onChange={setTauxEndettementMax} help="35 % au plus (HCSF), assurance comprise." />
+          </div>
+        </Section>
+
+        <Section title="Résultats – Capacité d'emprunt">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Capital empruntable</div>
+              <div className="font-semibold text-lg">{fmt(capitalMax, 0)} €</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Mensualité maximale (assurance incl.)</div>
+              <div className="font-semibold text-lg">{fmt(mensualiteMax)} €/mois</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Revenus retenus</div>
+              <div className="font-semibold">{fmt(revenusRetenus)} €/mois</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Taux d'endettement actuel</div>
+              <div className="font-semibold">{fmt(tauxEndettementActuel, 1)} %</div>
+            </div>
+            <div className={`bg-gray-50 p-3 rounded-xl ${resteAVivre < 0 ? "text-red-600" : ""}`}>
+              <div className="text-gray-500">Reste à vivre</div>
+              <div className="font-semibold">{fmt(resteAVivre)} €/mois</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-xl">
+              <div className="text-gray-500">Reste à vivre par personne</div>
+              <div className="font-semibold">{fmt(resteAVivreParPersonne)} €/mois</div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 p-3 rounded-xl text-sm mt-3">
+            <div className="flex justify-between"><span className="text-gray-500">Durée retenue :</span><span className="font-medium">{fmt(dureeRetenue, 0)} ans</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">Mensualité hors assurance / assurance :</span><span className="font-medium">{fmt(mensualiteHorsAssurance)} € / {fmt(assuranceMens)} €</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">Coût des intérêts :</span><span className="font-medium">{fmt(coutTotalInterets)} €</span></div>
+          </div>
+
+          <div className="grid md:grid-cols-1 gap-6 mt-4">
+            <DonutWithTotal data={donutRevenus} colors={COLORS.slice(2)} title="Répartition des revenus retenus" totalTitle="Revenus retenus" />
+          </div>
+
+          <div className="mt-4 no-print">
+            <button
+              onClick={() => onPush(result)}
+              disabled={capitalMax <= 0}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition shadow disabled:opacity-50"
+            >
+              Simuler ce prêt dans « Crédit immobilier »
+            </button>
+          </div>
+        </Section>
+      </div>
+    </>
+  );
+}
+
+/*********************
+ * COMPOSANT COMPARATIF DES STRATÉGIES
+ *********************/
+function Comparatif({
+  state,
+  data,
+  onChange,
+}: {
+  state: AppState;
+  data: AppState["comparaison"];
+  onChange: (d: AppState["comparaison"]) => void;
+}) {
+  const { horizon, hausseImmo, fraisVentePct, alignerCapital, capitalCible, critere } = data;
+
+  // Setters
+  const setHorizon = (v: string) => onChange({ ...data, horizon: v });
+  const setHausseImmo = (v: string) => onChange({ ...data, hausseImmo: v });
+  const setFraisVentePct = (v: string) => onChange({ ...data, fraisVentePct: v });
+  const setAlignerCapital = (c: boolean) => onChange({ ...data, alignerCapital: c });
+  const setCapitalCible = (v: string) => onChange({ ...data, capitalCible: v });
+  const setCritere = (v: string) => onChange({ ...data, critere: v as CritereComparaison });
+
+  const { horizon: vHorizon, strategies, classement } = useMemo(() => compareStrategies(state), [state]);
+
+  // Une ligne par année, une colonne de patrimoine net par stratégie
+  const chartData = Array.from({ length: vHorizon }, (_, i) => ({
+    annee: i + 1,
+    ...Object.fromEntries(strategies.map((s) => [s.strategie, s.annees[i].patrimoineNet])),
+  }));
+  const rang = (s: StrategieComparee) => classement.indexOf(s.strategie) + 1;
+
+  return (
+    <>
+      <Helmet>
+        <title>Comparatif Viager vs Location vs SCPI – TRI, Effort d'épargne, Patrimoine</title>
+        <meta name="description" content="Comparez location nue, meublée, viager, SCPI et local commercial sur un même horizon : fonds propres, effort mensuel, cashflow, TRI et patrimoine net." />
+        <link rel="canonical" href="https://wizzwid.github.io/viager-vs-location/#/comparatif" />
+      </Helmet>
+      <div className="grid lg:grid-cols-3 gap-6">
+        <Section title="Hypothèses communes">
+          <div className="space-y-3">
+            <Field label="Horizon de comparaison" suffix="ans" value={horizon} onChange={setHorizon} help="Toutes les stratégies sont projetées puis liquidées (valeur nette de frais - capital restant dû) à cet horizon." />
+            <Field label="Revalorisation immobilière" suffix="%/an" value={hausseImmo} onChange={setHausseImmo} decimals={2} help="Appliquée à tous les biens (location, viager, local). Les parts de SCPI suivent leur propre revalorisation." />
+            <Field label="Frais de revente" suffix="%" value={fraisVentePct} onChange={setFraisVentePct} decimals={2} />
+            <CheckboxField label="Aligner les fonds propres" checked={alignerCapital} onChange={setAlignerCapital} help="Met chaque stratégie à l'échelle (prix, prêt, loyers proportionnels) pour qu'elle mobilise le même apport. Le TRI est inchangé." />
+            {alignerCapital && <Field label="Fonds propres cibles" suffix="€" value={capitalCible} onChange={setCapitalCible} />}
+            <SelectField label="Critère de classement" value={critere} onChange={setCritere} options={[...CRITERES_COMPARAISON]} />
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Les paramètres de chaque stratégie sont ceux saisis dans son onglet. Viager : flux espérés selon la table de mortalité,
+            position restante valorisée au taux du viager. Local commercial : hors fiscalité.
+          </p>
+        </Section>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Section title={`Classement sur ${fmt(vHorizon, 0)} ans (${critere})`}>
+            <div className="overflow-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">#</th>
+                    <th className="px-3 py-2 text-left">Stratégie</th>
+                    <th className="px-3 py-2 text-right">Fonds propres</th>
+                    <th className="px-3 py-2 text-right">Effort mensuel</th>
+                    <th className="px-3 py-2 text-right">Cashflow net mensuel</th>
+                    <th className="px-3 py-2 text-right">TRI</th>
+                    <th className="px-3 py-2 text-right">Patrimoine net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...strategies]
+                    .sort((a, b) => rang(a) - rang(b))
+                    .map((s) => (
+                      <tr key={s.strategie} className={rang(s) === 1 ? "bg-green-50 font-semibold" : "odd:bg-white even:bg-gray-50"}>
+                        <td className="px-3 py-1">{rang(s)}</td>
+                        <td className="px-3 py-1">
+                          {s.strategie}
+                          {s.avantImpots && <span className="text-xs text-gray-500"> (avant impôts)</span>}
+                          {alignerCapital && <span className="text-xs text-gray-500"> ×{fmt(s.echelle, 2)}</span>}
+                        </td>
+                        <td className="px-3 py-1 text-right">{fmt(s.fondsPropres, 0)} €</td>
+                        <td className="px-3 py-1 text-right">{fmt(s.effortMensuel, 0)} €</td>
+                        <td className={`px-3 py-1 text-right ${s.cashflowMensuel < 0 ? "text-red-600" : "text-green-600"}`}>{fmt(s.cashflowMensuel, 0)} €</td>
+                        <td className="px-3 py-1 text-right">{fmt(s.tri, 2)} %</td>
+                        <td className="px-3 py-1 text-right">{fmt(s.patrimoineNet, 0)} €</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Effort et cashflow : moyennes mensuelles sur l'horizon. Patrimoine net : valeur liquidative + cashflows cumulés (non réinvestis).
+            </p>
+          </Section>
+
+          <Section title="Patrimoine net par année">
+            <div className="h-80 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="annee" tickFormatter={(t: number) => `An ${t}`} />
+                  <YAxis tickFormatter={(t: number) => fmt(t, 0)} />
+                  <Tooltip formatter={(v: number, name: string) => [`${fmt(v)} €`, name]} labelFormatter={(t: number) => `Année ${t}`} />
+                  {STRATEGIES.map((s, i) => (
+                    <Line key={s} type="monotone" dataKey={s} name={s} stroke={COLORS[i % COLORS.length]} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-2 text-sm">
+              {STRATEGIES.map((s, i) => (
+                <span key={s} className="inline-flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                  {s}
+                </span>
+              ))}
+            </div>
+          </Section>
+        </div>
+      </div>
+    </>
+  );
+}
+
 function CommandementsInvestisseur() {
   // Mini-calculateur €/m²
   const [prix, setPrix] = useState("250000");
@@ -1653,6 +2656,820 @@ function CommandementsInvestisseur() {
   );
 }
 
+/*********************
+ * COMPOSANT ALERTE DE RESTAURATION
+ *********************/
+// Lien partagé ou sauvegarde locale restauré partiellement (anomalies) ou pas du tout (liste vide)
+function AlerteRestauration({
+  source,
+  anomalies,
+  onClose,
+}: {
+  source: "lien" | "sauvegarde";
+  anomalies: string[];
+  onClose: () => void;
+}) {
+  const [origine, restaure] = source === "lien" ? ["Le lien partagé", "restauré"] : ["La sauvegarde de ce navigateur", "restaurée"];
+  return (
+    <div className="no-print rounded-2xl border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-semibold">
+            {anomalies.length
+              ? `${origine} n'a pu être ${restaure} que partiellement : ${anomalies.length} réglage(s) remplacé(s) par la valeur par défaut.`
+              : `${origine} est illisible : les valeurs par défaut sont affichées.`}
+          </div>
+          {anomalies.length > 0 && (
+            <details className="mt-2">
+              <summary className="cursor-pointer">Détail</summary>
+              <ul className="list-disc ml-5 mt-1 space-y-0.5">
+                {anomalies.map((a, i) => (
+                  <li key={i}>{a}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+        <button onClick={onClose} className="px-3 py-1 rounded-lg text-xs font-medium bg-amber-200 hover:bg-amber-300 transition">
+          Fermer
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT QR CODE DU LIEN
+ *********************/
+// QR code généré localement (module qrcode chargé à la demande), pour ouvrir la simulation sur un téléphone
+function PartageQr({ lien, onClose }: { lien: string; onClose: () => void }) {
+  const [svg, setSvg] = useState("");
+  const [erreur, setErreur] = useState("");
+
+  useEffect(() => {
+    let actif = true;
+    import("qrcode")
+      .then((QRCode) => QRCode.toString(lien, { type: "svg", errorCorrectionLevel: "M", margin: 2 }))
+      .then((s) => {
+        if (!actif) return;
+        setSvg(s);
+        setErreur("");
+      })
+      .catch((e) => actif && setErreur(e instanceof Error ? e.message : "Erreur inconnue"));
+    return () => {
+      actif = false;
+    };
+  }, [lien]);
+
+  return (
+    <div className="no-print">
+      <Section title="QR code de la simulation">
+        <div className="flex flex-col md:flex-row gap-6 items-start">
+          <div className="w-56 h-56 shrink-0 rounded-xl border bg-white flex items-center justify-center">
+            {svg ? (
+              <img src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`} alt="QR code du lien de la simulation" className="w-full h-full" />
+            ) : (
+              <span className="text-sm text-gray-400">{erreur ? "Indisponible" : "Génération…"}</span>
+            )}
+          </div>
+          <div className="space-y-3 text-sm">
+            <p className="text-gray-700">Scannez ce code avec un téléphone pour ouvrir l'onglet actif avec les mêmes paramètres. Seules les valeurs modifiées sont incluses dans le lien.</p>
+            <p className="text-xs text-gray-500">Lien de {lien.length} caractères</p>
+            {erreur && <p className="text-red-600">Le QR code n'a pas pu être généré : {erreur}</p>}
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow">
+              Fermer
+            </button>
+          </div>
+        </div>
+      </Section>
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT SCÉNARIOS ENREGISTRÉS
+ *********************/
+const fmtDate = (iso: string) =>
+  new Date(iso).toLocaleString("fr-FR", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function Scenarios({
+  data,
+  onChange,
+  ongletActif,
+  state,
+  onLoad,
+  onClose,
+}: {
+  data: Scenario[];
+  onChange: (d: Scenario[]) => void;
+  ongletActif: string;
+  state: AppState;
+  onLoad: (s: Scenario) => void;
+  onClose: () => void;
+}) {
+  const [nom, setNom] = useState("");
+  const [enEdition, setEnEdition] = useState<{ id: string; nom: string } | null>(null);
+  const [message, setMessage] = useState<{ texte: string; erreur: boolean } | null>(null);
+  const fichier = useRef<HTMLInputElement>(null);
+
+  const enregistrer = () => {
+    if (!estOngletSimulateur(ongletActif)) return;
+    onChange([...data, creerScenario(nom, ongletActif, state)]);
+    setNom("");
+    setMessage(null);
+  };
+  const remplacer = (s: Scenario) => onChange(data.map((x) => (x.id === s.id ? s : x)));
+  const dupliquer = (s: Scenario) => {
+    const i = data.findIndex((x) => x.id === s.id);
+    onChange([...data.slice(0, i + 1), dupliquerScenario(s), ...data.slice(i + 1)]);
+  };
+  const supprimer = (s: Scenario) => {
+    if (window.confirm(`Supprimer le scénario « ${s.nom} » ?`)) onChange(data.filter((x) => x.id !== s.id));
+  };
+  const validerNom = () => {
+    if (!enEdition) return;
+    const s = data.find((x) => x.id === enEdition.id);
+    if (s) remplacer(renommerScenario(s, enEdition.nom));
+    setEnEdition(null);
+  };
+
+  const exporter = () =>
+    telecharger(
+      new Blob([exporterBibliotheque(data)], { type: "application/json" }),
+      `scenarios_${new Date().toISOString().slice(0, 10)}.json`
+    );
+  const importer = async (f: File | undefined) => {
+    if (!f) return;
+    try {
+      const r = importerBibliotheque(await f.text(), data);
+      onChange(r.scenarios);
+      setMessage({
+        texte: `${r.importes} scénario(s) importé(s)${r.ignores ? `, ${r.ignores} entrée(s) invalide(s) ignorée(s)` : ""}.`,
+        erreur: false,
+      });
+    } catch (e) {
+      setMessage({ texte: `Import impossible : ${e instanceof Error ? e.message : "fichier illisible"}`, erreur: true });
+    } finally {
+      if (fichier.current) fichier.current.value = "";
+    }
+  };
+
+  const bouton = "px-3 py-1 rounded-lg text-xs font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition";
+  const tries = [...data].sort((a, b) => b.modifieLe.localeCompare(a.modifieLe));
+
+  return (
+    <div className="no-print">
+      <Section title="Scénarios enregistrés">
+        <div className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-3 md:items-center">
+            <input
+              className="flex-1 rounded-xl border p-2 focus:outline-none focus:ring"
+              placeholder={estOngletSimulateur(ongletActif) ? `Nom du scénario (${ongletActif})` : "Choisissez un simulateur"}
+              value={nom}
+              onChange={(e) => setNom(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && enregistrer()}
+              disabled={!estOngletSimulateur(ongletActif)}
+              type="text"
+            />
+            <button
+              onClick={enregistrer}
+              disabled={!estOngletSimulateur(ongletActif)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition shadow disabled:opacity-50"
+            >
+              Enregistrer l'onglet actif
+            </button>
+            <button onClick={exporter} disabled={data.length === 0} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow disabled:opacity-50">
+              Exporter (JSON)
+            </button>
+            <button onClick={() => fichier.current?.click()} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow">
+              Importer
+            </button>
+            <input ref={fichier} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importer(e.target.files?.[0])} />
+          </div>
+          {message && <p className={`text-sm ${message.erreur ? "text-red-600" : "text-green-700"}`}>{message.texte}</p>}
+
+          {tries.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun scénario enregistré. Les scénarios sont conservés dans ce navigateur ; exportez-les pour les transférer sur une autre machine.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-3">Nom</th>
+                    <th className="py-2 pr-3">Simulateur</th>
+                    <th className="py-2 pr-3">Créé le</th>
+                    <th className="py-2 pr-3">Modifié le</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {tries.map((s) => (
+                    <tr key={s.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3 font-medium">
+                        {enEdition?.id === s.id ? (
+                          <input
+                            className="w-full rounded-lg border p-1 focus:outline-none focus:ring"
+                            value={enEdition.nom}
+                            autoFocus
+                            onChange={(e) => setEnEdition({ id: s.id, nom: e.target.value })}
+                            onBlur={validerNom}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") validerNom();
+                              if (e.key === "Escape") setEnEdition(null);
+                            }}
+                            type="text"
+                          />
+                        ) : (
+                          s.nom
+                        )}
+                      </td>
+                      <td className="py-2 pr-3">{s.onglet}</td>
+                      <td className="py-2 pr-3 whitespace-nowrap">{fmtDate(s.creeLe)}</td>
+                      <td className="py-2 pr-3 whitespace-nowrap">{fmtDate(s.modifieLe)}</td>
+                      <td className="py-2">
+                        <div className="flex gap-2 justify-end">
+                          <button onClick={() => onLoad(s)} className="px-3 py-1 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition">
+                            Charger
+                          </button>
+                          <button onClick={() => dupliquer(s)} className={bouton}>
+                            Dupliquer
+                          </button>
+                          <button onClick={() => setEnEdition({ id: s.id, nom: s.nom })} className={bouton}>
+                            Renommer
+                          </button>
+                          <button onClick={() => supprimer(s)} className="px-3 py-1 rounded-lg text-xs font-medium bg-red-100 text-red-700 hover:bg-red-200 transition">
+                            Supprimer
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <DiffScenarios scenarios={data} state={state} ongletActif={ongletActif} />
+          <div>
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow">
+              Fermer
+            </button>
+          </div>
+        </div>
+      </Section>
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT COMPARAISON DE VARIANTES
+ *********************/
+// Écart signé affiché avec l'unité de la ligne (les écarts de pourcentages sont en points)
+function fmtEcart(e: EcartVariante, unite: LigneRapport["unite"] = "", decimales = 2) {
+  const signe = (n: number) => (n > 0 ? "+" : "");
+  const u = unite === "%" || unite === "%/an" ? "pts" : unite;
+  const absolu = `${signe(e.absolu)}${fmt(e.absolu, decimales)}${u ? ` ${u}` : ""}`;
+  return Number.isFinite(e.relatif) ? `${absolu} (${signe(e.relatif)}${fmt(e.relatif, 1)} %)` : absolu;
+}
+
+function DiffScenarios({ scenarios, state, ongletActif }: { scenarios: Scenario[]; state: AppState; ongletActif: string }) {
+  const onglets = ONGLETS_SIMULATEURS.filter((o) => scenarios.some((s) => s.onglet === o));
+  const [onglet, setOnglet] = useState<OngletSimulateur>(
+    estOngletSimulateur(ongletActif) && onglets.includes(ongletActif) ? ongletActif : onglets[0] ?? "Crédit immobilier"
+  );
+  const [ids, setIds] = useState<string[]>([]);
+  const [avecActuel, setAvecActuel] = useState(true);
+  const [graphique, setGraphique] = useState(0);
+
+  const candidats = scenarios.filter((s) => s.onglet === onglet);
+  const choisis = candidats.filter((s) => ids.includes(s.id));
+  const variantes: Variante[] = [
+    ...(avecActuel ? [{ nom: "Saisie actuelle", state }] : []),
+    ...choisis.map((s) => ({ nom: s.nom, state: appliquerScenario(state, s) })),
+  ];
+  const comparaison = variantes.length >= 2 ? comparerVariantes(onglet, variantes) : null;
+  const g = comparaison?.graphiques[Math.min(graphique, comparaison.graphiques.length - 1)];
+
+  const toggle = (id: string, c: boolean) => setIds((prev) => (c ? [...prev, id] : prev.filter((x) => x !== id)));
+  const changerOnglet = (o: string) => {
+    setOnglet(o as OngletSimulateur);
+    setGraphique(0);
+  };
+
+  if (onglets.length === 0) return null;
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      <div className="text-sm font-semibold text-gray-700">Comparer des variantes d'un même simulateur</div>
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <SelectField label="Simulateur" value={onglet} onChange={changerOnglet} options={onglets} />
+          <CheckboxField label="Inclure la saisie actuelle" checked={avecActuel} onChange={setAvecActuel} />
+        </div>
+        <div className="space-y-2">
+          {candidats.map((s) => (
+            <CheckboxField key={s.id} label={s.nom} checked={ids.includes(s.id)} onChange={(c) => toggle(s.id, c)} />
+          ))}
+        </div>
+      </div>
+
+      {!comparaison ? (
+        <p className="text-sm text-gray-500">Choisissez au moins deux variantes (scénarios enregistrés ou saisie actuelle).</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">Écarts calculés par rapport à la première colonne ({comparaison.noms[0]}). Les paramètres modifiés sont surlignés.</p>
+          <div className="overflow-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Paramètre</th>
+                  {comparaison.noms.map((n, i) => (
+                    <th key={i} className="px-3 py-2 text-right">
+                      <span className="inline-flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                        {n}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparaison.parametres.map((p) => (
+                  <tr key={p.libelle} className={p.modifie ? "bg-amber-50 font-semibold" : "odd:bg-white even:bg-gray-50"}>
+                    <td className="px-3 py-1">{p.libelle}</td>
+                    {p.valeurs.map((v, i) => (
+                      <td key={i} className={`px-3 py-1 text-right ${p.modifie && i > 0 && v !== p.valeurs[0] ? "text-amber-700" : ""}`}>
+                        {v || "—"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Résultat</th>
+                  {comparaison.noms.map((n, i) => (
+                    <th key={i} className="px-3 py-2 text-right">{n}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparaison.resultats.map((r) => (
+                  <tr key={r.libelle} className={r.modifie ? "bg-blue-50" : "odd:bg-white even:bg-gray-50"}>
+                    <td className="px-3 py-1">{r.libelle}</td>
+                    {r.lignes.map((l, i) => (
+                      <td key={i} className="px-3 py-1 text-right align-top">
+                        <div className={r.modifie ? "font-semibold" : ""}>{l ? formatValeurRapport(l) : "—"}</div>
+                        {r.ecarts[i] && r.ecarts[i]!.absolu !== 0 && l && (
+                          <div className="text-xs text-gray-500">
+                            {fmtEcart(r.ecarts[i]!, l.unite, l.decimales)}
+                          </div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {g && (
+            <div>
+              {comparaison.graphiques.length > 1 && (
+                <div className="md:w-2/3">
+                  <SelectField
+                    label="Graphique superposé"
+                    value={String(comparaison.graphiques.indexOf(g))}
+                    onChange={(v) => setGraphique(Number(v))}
+                    options={comparaison.graphiques.map((x, i) => ({ value: String(i), label: x.titre }))}
+                  />
+                </div>
+              )}
+              {comparaison.graphiques.length === 1 && <div className="text-sm font-semibold text-gray-700">{g.titre}</div>}
+              <div className="h-72 w-full mt-3">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={g.donnees} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey={g.abscisse.cle} />
+                    <YAxis tickFormatter={(t: number) => fmt(t, 0)} />
+                    <Tooltip formatter={(v: number, n: string) => [fmt(v), n]} labelFormatter={(t: number) => `${g.abscisse.libelle} ${t}`} />
+                    {g.series.map((serie, i) => (
+                      <Line key={serie.cle} type="monotone" dataKey={serie.cle} name={serie.nom} stroke={COLORS[i % COLORS.length]} strokeWidth={2} dot={false} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                {g.series.map((serie, i) => (
+                  <span key={serie.cle} className="inline-flex items-center gap-1">
+                    <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                    {serie.nom}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT ANALYSE DE SENSIBILITÉ
+ *********************/
+// Tornado de l'indicateur clé de l'onglet : chaque saisie décalée de ±x %, classement par écart
+function Sensibilite({ onglet, state }: { onglet: OngletSensibilite; state: AppState }) {
+  const [variation, setVariation] = useState("10");
+  const vVariation = Math.min(90, Math.max(1, toNum(variation) || 10));
+  // Calcul à la demande (deux simulations par saisie), conservé avec les saisies de l'onglet utilisées :
+  // seules celles-ci rendent l'analyse obsolète
+  const cle = CLES_ONGLETS[onglet];
+  const [calcul, setCalcul] = useState<{ donnees: AppState[typeof cle]; analyse: AnalyseSensibilite } | null>(null);
+  const lancer = () => setCalcul({ donnees: state[cle], analyse: analyserSensibilite(onglet, state, vVariation) });
+  const analyse = calcul?.analyse ?? null;
+  const indicateur = analyse?.indicateur;
+  const fmtIndicateur = (v: number) => `${fmt(v)} ${indicateur?.unite ?? ""}`.trim();
+  const data = (analyse?.impacts ?? []).map((i) => ({
+    libelle: i.libelle,
+    bas: i.resultatBas - (indicateur?.valeur ?? 0),
+    haut: i.resultatHaut - (indicateur?.valeur ?? 0),
+    impact: i,
+  }));
+
+  return (
+    <div className="no-print">
+      <Section title="Analyse de sensibilité">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <Field
+              label="Variation testée (±)"
+              suffix="%"
+              value={variation}
+              onChange={(v) => {
+                setVariation(v);
+                setCalcul(null);
+              }}
+              help="Chaque saisie numérique de l'onglet est décalée de cet écart à la baisse puis à la hausse, les autres restant fixes, dans sa plage autorisée (ex : un pourcentage reste entre 0 et 100)."
+            />
+            <div className="flex flex-wrap items-center gap-3">
+              <button onClick={lancer} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 hover:bg-gray-300 transition-colors">
+                {analyse ? "Relancer l'analyse" : "Lancer l'analyse"}
+              </button>
+              {calcul && calcul.donnees !== state[cle] && <span className="text-sm text-orange-600">Saisies modifiées depuis le calcul : relancez l'analyse.</span>}
+            </div>
+          </div>
+          {analyse && (
+            <div className="bg-gray-50 p-3 rounded-xl text-sm">
+              <div className="text-gray-500">{analyse.indicateur.libelle} (référence)</div>
+              <div className="text-xl font-semibold">{fmtIndicateur(analyse.indicateur.valeur)}</div>
+              {analyse.impacts[0] && (
+                <div className="text-gray-600 mt-1">
+                  Hypothèse la plus influente : <span className="font-medium">{analyse.impacts[0].libelle}</span> (écart de {fmtIndicateur(analyse.impacts[0].ecart)} entre -{fmt(vVariation, 0)} % et +{fmt(vVariation, 0)} %).
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {analyse && (
+          <div className="mt-4">
+            <div style={{ height: Math.max(160, data.length * 30 + 40) }} className="w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data} layout="vertical" barGap={-14} margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" tickFormatter={(t: number) => fmt(t, Math.abs(analyse.indicateur.valeur) < 100 ? 2 : 0)} />
+                  <YAxis type="category" dataKey="libelle" width={210} tick={{ fontSize: 12 }} />
+                  <ReferenceLine x={0} stroke="#666" />
+                  <Tooltip
+                    formatter={(v: number, n: string, item: { payload?: (typeof data)[number] }) => {
+                      const i = item.payload?.impact;
+                      const saisie = i ? (n === "bas" ? i.basse : i.haute) : 0;
+                      return [`${v > 0 ? "+" : ""}${fmtIndicateur(v)} (saisie à ${fmt(saisie)})`, n === "bas" ? `-${fmt(vVariation, 0)} %` : `+${fmt(vVariation, 0)} %`];
+                    }}
+                  />
+                  <Bar dataKey="bas" name="bas" fill={COLORS[5]} barSize={14} />
+                  <Bar dataKey="haut" name="haut" fill={COLORS[3]} barSize={14} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-2 text-sm">
+              {[
+                { nom: `Saisie -${fmt(vVariation, 0)} %`, couleur: COLORS[5] },
+                { nom: `Saisie +${fmt(vVariation, 0)} %`, couleur: COLORS[3] },
+              ].map((l) => (
+                <span key={l.nom} className="inline-flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: l.couleur }} />
+                  {l.nom}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Barres : écart de l'indicateur par rapport à la référence. Saisies sans effet sur l'indicateur omises
+              {analyse.ignores.length ? ` ; saisies nulles non testées : ${analyse.ignores.join(", ")}` : ""}.
+            </p>
+          </div>
+        )}
+      </Section>
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT TABLE DE DONNÉES
+ *********************/
+// Table à deux entrées (façon Excel) : un indicateur recalculé sur une grille de deux saisies, colorée
+// autour d'un seuil ; un clic sur une case reporte le couple de valeurs dans le formulaire.
+function TableDonnees({ onglet, state, onChange }: { onglet: OngletSensibilite; state: AppState; onChange: (s: AppState) => void }) {
+  const champs = champsNumeriques(onglet);
+  const indicateurs = INDICATEURS[onglet];
+  const axeTexte = (champ: string) => {
+    const a = axeParDefaut(onglet, state, champ);
+    return { champ, min: String(Math.round(a.min * 100) / 100).replace(".", ","), max: String(Math.round(a.max * 100) / 100).replace(".", ","), points: String(a.points) };
+  };
+  const [cleIndicateur, setCleIndicateur] = useState(() => indicateurParDefaut(onglet, state).cle);
+  const [lignes, setLignes] = useState(() => axeTexte(AXES_PAR_DEFAUT[onglet][0]));
+  const [colonnes, setColonnes] = useState(() => axeTexte(AXES_PAR_DEFAUT[onglet][1]));
+  const [seuil, setSeuil] = useState("0");
+  // Grille calculée à la demande (jusqu'à 225 simulations), conservée avec les saisies de l'onglet utilisées ;
+  // effacée dès qu'un réglage de la table change
+  const cle = CLES_ONGLETS[onglet];
+  const [calcul, setCalcul] = useState<{ donnees: AppState[typeof cle]; table: ReturnType<typeof calculerTableDonnees> } | null>(null);
+  const maj = <T,>(set: (v: T) => void) => (v: T) => {
+    set(v);
+    setCalcul(null);
+  };
+
+  const indicateur = indicateurs.find((i) => i.cle === cleIndicateur) ?? indicateurs[0];
+  const vSeuil = toNum(seuil);
+  const axe = (a: typeof lignes): AxeTable => ({ champ: a.champ, min: toNum(a.min), max: toNum(a.max), points: toNum(a.points) || 7 });
+  const calculer = () => setCalcul({ donnees: state[cle], table: calculerTableDonnees(onglet, state, indicateur, axe(lignes), axe(colonnes), vSeuil) });
+  const table = calcul?.table ?? null;
+  // Une case ne modifie que les deux saisies des axes, que chaque case fixe déjà : la grille reste à jour
+  const appliquer = (i: number, j: number) => {
+    if (!calcul) return;
+    const suivant = appliquerCellule(onglet, state, lignes.champ, calcul.table.lignes[i], colonnes.champ, calcul.table.colonnes[j]);
+    setCalcul({ ...calcul, donnees: suivant[cle] });
+    onChange(suivant);
+  };
+
+  const libelle = (champ: string) => champs.find((c) => c.champ === champ)?.libelle ?? champ;
+  const decimales = (valeurs: number[]) => (valeurs.some((v) => Math.abs(v - Math.round(v)) > 1e-9) ? (Math.abs(valeurs[valeurs.length - 1]) < 100 ? 2 : 0) : 0);
+  const ecartMax = table ? Math.max(Math.abs(table.plage.max - vSeuil), Math.abs(table.plage.min - vSeuil)) || 1 : 1;
+  // Vert si la case est du côté favorable du seuil, rouge sinon ; intensité selon l'écart
+  const couleur = (v: number) => {
+    if (!Number.isFinite(v)) return "#f3f4f6";
+    const d = (v - vSeuil) * indicateur.sens;
+    const a = 0.12 + 0.6 * Math.min(1, Math.abs(d) / ecartMax);
+    return d >= 0 ? `rgba(34, 197, 94, ${a})` : `rgba(239, 68, 68, ${a})`;
+  };
+  const options = champs.map((c) => ({ value: c.champ, label: c.libelle }));
+  const champsAxe = (a: typeof lignes, set: (a: typeof lignes) => void, titre: string) => (
+    <div className="space-y-3">
+      <SelectField label={titre} value={a.champ} onChange={maj((champ: string) => set(axeTexte(champ)))} options={options} />
+      <Field label="De" value={a.min} onChange={maj((min: string) => set({ ...a, min }))} />
+      <Field label="À" value={a.max} onChange={maj((max: string) => set({ ...a, max }))} />
+      <Field label="Nombre de valeurs" value={a.points} onChange={maj((points: string) => set({ ...a, points }))} help={`Entre 2 et ${TAILLE_MAX_AXE}, bornes comprises.`} />
+    </div>
+  );
+
+  return (
+    <div className="no-print">
+      <Section title="Table de données à deux entrées">
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <SelectField label="Indicateur" value={indicateur.cle} onChange={maj(setCleIndicateur)} options={indicateurs.map((i) => ({ value: i.cle, label: i.libelle }))} />
+            <Field label="Seuil (point mort)" suffix={indicateur.unite} value={seuil} onChange={maj(setSeuil)} help="La frontière en trait épais sépare les cases au-dessus et au-dessous de ce seuil." />
+          </div>
+          {champsAxe(lignes, setLignes, "Saisie en lignes")}
+          {champsAxe(colonnes, setColonnes, "Saisie en colonnes")}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <button onClick={calculer} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 hover:bg-gray-300 transition-colors">
+            {table ? "Recalculer la table" : "Calculer la table"}
+          </button>
+          <span className="text-sm text-gray-500">Chaque case recalcule l'indicateur avec le couple de saisies correspondant, les autres restant fixes.</span>
+          {calcul && calcul.donnees !== state[cle] && <span className="text-sm text-orange-600">Saisies modifiées depuis le calcul : recalculez la table.</span>}
+        </div>
+
+        {table && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left text-xs text-gray-500 font-normal">
+                    {libelle(lignes.champ)} ↓ / {libelle(colonnes.champ)} →
+                  </th>
+                  {table.colonnes.map((c, j) => (
+                    <th key={j} className="p-2 text-right font-medium">{fmt(c, decimales(table.colonnes))}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.valeurs.map((ligne, i) => (
+                  <tr key={i}>
+                    <th className="p-2 text-right font-medium">{fmt(table.lignes[i], decimales(table.lignes))}</th>
+                    {ligne.map((v, j) => (
+                      <td
+                        key={j}
+                        className="p-2 text-right cursor-pointer hover:outline hover:outline-2 hover:outline-gray-700"
+                        style={{
+                          backgroundColor: couleur(v),
+                          borderRight: table.frontiere[i][j].droite ? "3px solid #111827" : "1px solid #fff",
+                          borderBottom: table.frontiere[i][j].bas ? "3px solid #111827" : "1px solid #fff",
+                        }}
+                        title={`${libelle(lignes.champ)} : ${fmt(table.lignes[i], 2)} · ${libelle(colonnes.champ)} : ${fmt(table.colonnes[j], 2)} — cliquer pour appliquer`}
+                        onClick={() => appliquer(i, j)}
+                      >
+                        {Number.isFinite(v) ? fmt(v, Math.abs(v) < 100 ? 2 : 0) : "—"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              {indicateur.libelle} ({indicateur.unite}). Vert : côté favorable du seuil de {fmt(vSeuil, 2)} {indicateur.unite}, rouge : côté défavorable ; trait épais : point mort.
+              Un clic sur une case reporte les deux valeurs dans le formulaire (bornées à leur plage autorisée).
+            </p>
+          </div>
+        )}
+      </Section>
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT VALEUR CIBLE
+ *********************/
+// Recherche inverse : la saisie choisie est ajustée pour que l'indicateur atteigne la cible, puis reportée
+// dans le formulaire ; sinon, la plage de l'indicateur explique pourquoi la cible est hors d'atteinte.
+function ValeurCible({ onglet, state, onChange }: { onglet: OngletSensibilite; state: AppState; onChange: (s: AppState) => void }) {
+  const champs = champsNumeriques(onglet);
+  const indicateurs = INDICATEURS[onglet];
+  const texte = (v: number) => String(Math.round(v * 100) / 100).replace(".", ",");
+  const plageTexte = (champ: string) => {
+    const p = plageRecherche(onglet, state, champ);
+    return { min: texte(p.min), max: texte(p.max) };
+  };
+  const [cleIndicateur, setCleIndicateur] = useState(() => indicateurParDefaut(onglet, state).cle);
+  const [cible, setCible] = useState("0");
+  // Saisie proposée : la seconde entrée de la table de données (loyer, durée, bouquet…)
+  const [champ, setChamp] = useState(AXES_PAR_DEFAUT[onglet][1]);
+  const [plage, setPlage] = useState(() => plageTexte(AXES_PAR_DEFAUT[onglet][1]));
+  const [resultat, setResultat] = useState<ResultatValeurCible | null>(null);
+
+  const indicateur = indicateurs.find((i) => i.cle === cleIndicateur) ?? indicateurs[0];
+  const libelle = champs.find((c) => c.champ === champ)?.libelle ?? champ;
+  const fmtIndicateur = (v: number) => `${fmt(v, 2)} ${indicateur.unite}`;
+  const maj = <T,>(set: (v: T) => void) => (v: T) => {
+    set(v);
+    setResultat(null);
+  };
+
+  const chercher = () => {
+    const r = chercherValeurCible(onglet, state, indicateur, { champ, cible: toNum(cible), min: toNum(plage.min), max: toNum(plage.max) });
+    setResultat(r);
+    if (r.trouvee) onChange(r.state);
+  };
+
+  return (
+    <div className="no-print">
+      <Section title="Valeur cible">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <SelectField label="Indicateur" value={indicateur.cle} onChange={maj(setCleIndicateur)} options={indicateurs.map((i) => ({ value: i.cle, label: i.libelle }))} />
+            <Field label="Valeur à atteindre" suffix={indicateur.unite} value={cible} onChange={maj(setCible)} help="Ex : cashflow à 0 pour l'équilibre, mensualité à 1 200 €, rendement à 5 %." />
+          </div>
+          <div className="space-y-3">
+            <SelectField
+              label="Saisie à ajuster"
+              value={champ}
+              onChange={maj((c: string) => {
+                setChamp(c);
+                setPlage(plageTexte(c));
+              })}
+              options={champs.map((c) => ({ value: c.champ, label: c.libelle }))}
+            />
+            <Field label="Chercher entre" value={plage.min} onChange={maj((min: string) => setPlage({ ...plage, min }))} help="Plage explorée, bornée à la plage autorisée du champ. Les autres saisies restent fixes." />
+            <Field label="Et" value={plage.max} onChange={maj((max: string) => setPlage({ ...plage, max }))} />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <button onClick={chercher} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 hover:bg-gray-300 transition-colors">
+            Chercher la valeur
+          </button>
+          {resultat?.trouvee && (
+            <span className="text-sm text-gray-700">
+              {libelle} mis(e) à jour : <span className="font-semibold">{fmt(resultat.valeur, 2)}</span>
+              {resultat.exacte
+                ? ` (${indicateur.libelle.toLowerCase()} : ${fmtIndicateur(resultat.resultat)}).`
+                : ` : l'indicateur varie par paliers, ${fmtIndicateur(resultat.resultat)} au plus près de la cible.`}
+              {resultat.solutions > 1 && ` ${resultat.solutions} solutions sur la plage : la plus proche de la saisie précédente est retenue.`}
+            </span>
+          )}
+        </div>
+
+        {resultat && !resultat.trouvee && (
+          <div className="mt-3 p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-900">
+            {resultat.motif === "plage-invalide" && "Plage invalide : la première borne doit être inférieure à la seconde et recouper la plage autorisée du champ."}
+            {resultat.motif === "non-calculable" && `${indicateur.libelle} n'est pas calculable sur cette plage.`}
+            {resultat.motif === "hors-atteinte" && (
+              <>
+                Aucune solution entre {plage.min} et {plage.max} : {indicateur.libelle.toLowerCase()} y varie de {fmtIndicateur(resultat.plage.min)} à{" "}
+                {fmtIndicateur(resultat.plage.max)}, la cible de {fmtIndicateur(toNum(cible))} n'est jamais atteinte. Au plus près : {fmtIndicateur(resultat.resultat)} pour{" "}
+                {libelle.toLowerCase()} = {fmt(resultat.valeur, 2)}. Élargissez la plage ou ajustez une autre saisie ; le formulaire n'a pas été modifié.
+              </>
+            )}
+          </div>
+        )}
+      </Section>
+    </div>
+  );
+}
+
+/*********************
+ * COMPOSANT RAPPORT PDF
+ *********************/
+// Le module PDF (jsPDF) n'est chargé qu'à la génération du rapport
+function RapportPdf({ state, ongletActif, onClose }: { state: AppState; ongletActif: string; onClose: () => void }) {
+  const [onglets, setOnglets] = useState<OngletSimulateur[]>(
+    estOngletSimulateur(ongletActif) ? [ongletActif] : ["Crédit immobilier"]
+  );
+  const [client, setClient] = useState("");
+  const [conseiller, setConseiller] = useState("");
+  const [enCours, setEnCours] = useState(false);
+  const [erreur, setErreur] = useState("");
+
+  const toggleOnglet = (o: OngletSimulateur, c: boolean) =>
+    setOnglets((prev) => ONGLETS_SIMULATEURS.filter((x) => (x === o ? c : prev.includes(x))));
+
+  const generer = async () => {
+    setEnCours(true);
+    setErreur("");
+    try {
+      const { genererRapportPdf } = await import("./rapportPdf");
+      const blob = await genererRapportPdf(
+        onglets.map((o) => sectionRapport(o, state)),
+        { client, conseiller, couleurs: COLORS }
+      );
+      telecharger(blob, `rapport_simulation_${new Date().toISOString().slice(0, 10)}.pdf`);
+    } catch (e) {
+      setErreur(e instanceof Error ? e.message : "Erreur inconnue");
+    } finally {
+      setEnCours(false);
+    }
+  };
+
+  return (
+    <div className="no-print">
+      <Section title="Générer un rapport PDF">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <div className="text-sm font-semibold text-gray-700">Simulateurs à inclure</div>
+            {ONGLETS_SIMULATEURS.map((o) => (
+              <CheckboxField key={o} label={o} checked={onglets.includes(o)} onChange={(c) => toggleOnglet(o, c)} />
+            ))}
+          </div>
+          <div className="space-y-3">
+            {[
+              { label: "Client (page de garde)", value: client, onChange: setClient },
+              { label: "Conseiller", value: conseiller, onChange: setConseiller },
+            ].map((f) => (
+              <label key={f.label} className="flex items-center justify-between gap-3 w-full">
+                <span className="w-1/2 text-sm text-gray-700 font-medium">{f.label}</span>
+                <input className="w-1/2 rounded-xl border p-2 focus:outline-none focus:ring" value={f.value} onChange={(e) => f.onChange(e.target.value)} type="text" />
+              </label>
+            ))}
+            <p className="text-xs text-gray-500">
+              Le rapport reprend les paramètres, résultats, graphiques, tableaux (dont le tableau d'amortissement) et hypothèses de chaque simulateur choisi, avec l'avertissement d'usage. Il est généré dans votre navigateur : aucune donnée n'est envoyée.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={generer}
+                disabled={enCours || onglets.length === 0}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition shadow disabled:opacity-50"
+              >
+                {enCours ? "Génération…" : "Télécharger le PDF"}
+              </button>
+              <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow">
+                Fermer
+              </button>
+            </div>
+            {erreur && <p className="text-sm text-red-600">Le rapport n'a pas pu être généré : {erreur}</p>}
+          </div>
+        </div>
+      </Section>
+    </div>
+  );
+}
+
 /****************************************
  * COMPOSANT CONTACT (Lazy Load)
  ****************************************/
@@ -1705,55 +3522,39 @@ function ContactSection() {
   );
 }
 
-// NOUVEAU : Fonctions de (dé)sérialisation pour l'URL
-// Utilise btoa/atob pour une sérialisation compatible URL
-function serializeState(state: AppState): string {
-  try {
-    const stringState = JSON.stringify(state);
-    return btoa(stringState);
-  } catch (e) {
-    console.error("Erreur de sérialisation:", e);
-    return "";
-  }
+// Route de l'onglet avec son état en paramètre (format compact, voir engine/partage)
+function hashPartage(tab: string, state: AppState): string {
+  return ecrireRoute(tab, estOngletSimulateur(tab) ? { z: encoderPartage(tab, state) } : {});
 }
 
-function deserializeState(data: string): AppState | null {
+// Anciens liens `?data=` (état complet en base64) : migration et validation champ par champ
+// (voir engine/schema) ; null si le lien est illisible
+function deserializeState(data: string): RestaurationEtat | null {
   try {
     const jsonString = atob(data);
-    const parsed = JSON.parse(jsonString);
-    // Ici, on pourrait ajouter une validation de schéma plus robuste
-    if (typeof parsed === "object" && parsed !== null && parsed.locationNue) {
-      // Fusionner avec l'état par défaut pour gérer les migrations
-      return {
-        locationNue: { ...DEFAULT_STATE.locationNue, ...parsed.locationNue },
-        viager: { ...DEFAULT_STATE.viager, ...parsed.viager },
-        scpi: { ...DEFAULT_STATE.scpi, ...parsed.scpi },
-        localCommercial: { ...DEFAULT_STATE.localCommercial, ...parsed.localCommercial },
-        creditImmo: { ...DEFAULT_STATE.creditImmo, ...parsed.creditImmo },
-      };
-    }
-    return null;
+    return restaurerEtat(JSON.parse(jsonString));
   } catch (e) {
     console.error("Erreur de désérialisation:", e);
     return null;
   }
 }
 
-// NOUVEAU : Fonction pour parser le hash
-function parseHash(hash: string): [string | null, string | null] {
-  if (!hash.startsWith("#")) {
-    return [null, null];
-  }
-  const [tabPart, dataPart] = hash.substring(1).split("?data=");
-  const tab = tabPart || null;
-  const data = dataPart || null;
-  return [tab, data];
-}
-
-const TABS = ["Crédit immobilier", "Location nue", "Viager", "SCPI", "Local commercial", "10 Commandements"];
+const TABS: string[] = ROUTES.map((r) => r.onglet);
 const DEFAULT_TAB = "Crédit immobilier";
 const LOCAL_STORAGE_STATE_KEY = "appState-v2";
 const LOCAL_STORAGE_TAB_KEY = "appTab-v2";
+const LOCAL_STORAGE_SCENARIOS_KEY = "scenarios-v1";
+
+// Bibliothèque de scénarios du navigateur (entrées invalides écartées)
+function chargerScenarios(): Scenario[] {
+  try {
+    const brut = JSON.parse(localStorage.getItem(LOCAL_STORAGE_SCENARIOS_KEY) ?? "[]");
+    return Array.isArray(brut) ? brut.map((s) => validerScenario(s)).filter((s): s is Scenario => s !== null) : [];
+  } catch (e) {
+    console.error("Erreur de lecture des scénarios:", e);
+    return [];
+  }
+}
 
 /*********************
  * APP PRINCIPALE (MODIFIÉE)
@@ -1762,38 +3563,47 @@ export default function App() {
   const [tab, setTab] = useState(DEFAULT_TAB);
   const [globalState, setGlobalState] = useState<AppState>(DEFAULT_STATE);
   const [copied, setCopied] = useState(false); // Pour le feedback du bouton "Copier"
+  const [showRapport, setShowRapport] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+  const [alerteRestauration, setAlerteRestauration] = useState<{ source: "lien" | "sauvegarde"; anomalies: string[] } | null>(null);
+  const [scenarios, setScenarios] = useState<Scenario[]>(chargerScenarios);
   const debounceTimer = useRef<number | null>(null);
 
   // --- NOUVEAU : Initialisation de l'état (URL > localStorage > Défaut) ---
   useEffect(() => {
-    // 1. Essayer de lire depuis l'URL
-    const [hashTab, hashData] = parseHash(window.location.hash);
-    
-    if (hashData) {
-      const stateFromUrl = deserializeState(hashData);
+    const route = lireRoute(window.location.hash);
+
+    // 1. Ancien lien `?data=` : état complet
+    if (route?.params.data) {
+      const stateFromUrl = deserializeState(route.params.data);
       if (stateFromUrl) {
-        setGlobalState(stateFromUrl);
-        if (hashTab && TABS.includes(hashTab)) {
-          setTab(hashTab);
+        setGlobalState(stateFromUrl.state);
+        setTab(route.onglet);
+        if (stateFromUrl.anomalies.length) {
+          setAlerteRestauration({ source: "lien", anomalies: stateFromUrl.anomalies });
         }
         return; // État chargé depuis l'URL
       }
+      setAlerteRestauration({ source: "lien", anomalies: [] });
     }
 
-    // 2. Sinon, essayer de lire depuis localStorage
+    // 2. Saisies conservées dans localStorage
+    let state = DEFAULT_STATE;
     try {
       const stateFromLs = localStorage.getItem(LOCAL_STORAGE_STATE_KEY);
       const tabFromLs = localStorage.getItem(LOCAL_STORAGE_TAB_KEY);
       if (stateFromLs) {
-        const parsedState = JSON.parse(stateFromLs);
-        // Fusionner avec défaut pour éviter les erreurs si la structure a changé
-        setGlobalState({
-          locationNue: { ...DEFAULT_STATE.locationNue, ...parsedState.locationNue },
-          viager: { ...DEFAULT_STATE.viager, ...parsedState.viager },
-          scpi: { ...DEFAULT_STATE.scpi, ...parsedState.scpi },
-          localCommercial: { ...DEFAULT_STATE.localCommercial, ...parsedState.localCommercial },
-          creditImmo: { ...DEFAULT_STATE.creditImmo, ...parsedState.creditImmo },
-        });
+        // Migration et validation : un champ invalide reprend sa valeur par défaut
+        const restauration = restaurerEtat(JSON.parse(stateFromLs));
+        if (restauration) {
+          state = restauration.state;
+          if (restauration.anomalies.length) {
+            setAlerteRestauration({ source: "sauvegarde", anomalies: restauration.anomalies });
+          }
+        } else {
+          setAlerteRestauration({ source: "sauvegarde", anomalies: [] });
+        }
       }
       if (tabFromLs && TABS.includes(tabFromLs)) {
         setTab(tabFromLs);
@@ -1802,8 +3612,36 @@ export default function App() {
       console.error("Erreur de lecture localStorage:", e);
       // Utiliser l'état par défaut
     }
+
+    // 3. Lien compact `?z=` : onglet partagé appliqué par-dessus les saisies locales
+    if (route?.params.z) {
+      const partage = decoderPartage(route.params.z);
+      if (partage) {
+        state = appliquerPartage(state, partage);
+        setTab(partage.onglet);
+        if (partage.anomalies.length) {
+          setAlerteRestauration({ source: "lien", anomalies: partage.anomalies });
+        }
+      } else {
+        setAlerteRestauration({ source: "lien", anomalies: [] });
+      }
+    } else if (route) {
+      setTab(route.onglet);
+    }
+    setGlobalState(state);
   }, []); // Exécuté une seule fois au montage
 
+  // Précédent / suivant : seul l'onglet suit l'entrée d'historique ; l'état `z` qu'elle contient est
+  // ignoré pour ne pas écraser des saisies plus récentes
+  useEffect(() => {
+    const onPopState = () => {
+      const route = lireRoute(window.location.hash);
+      if (route) setTab(route.onglet);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
   // --- NOUVEAU : Sauvegarde (localStorage + URL) avec debounce ---
   useEffect(() => {
     if (debounceTimer.current) {
@@ -1813,13 +3651,12 @@ export default function App() {
     debounceTimer.current = window.setTimeout(() => {
       try {
         // 1. Sauvegarde localStorage
-        const jsonState = JSON.stringify(globalState);
+        const jsonState = JSON.stringify(versionnerEtat(globalState));
         localStorage.setItem(LOCAL_STORAGE_STATE_KEY, jsonState);
         localStorage.setItem(LOCAL_STORAGE_TAB_KEY, tab);
 
         // 2. Mise à jour de l'URL (sans recharger la page)
-        const serializedData = serializeState(globalState);
-        const newHash = `#${tab}?data=${serializedData}`;
+        const newHash = hashPartage(tab, globalState);
         
         // Utilise replaceState pour ne pas polluer l'historique du navigateur
         if (window.location.hash !== newHash) {
@@ -1838,6 +3675,14 @@ export default function App() {
     };
   }, [globalState, tab]); // Se déclenche à chaque changement d'état ou d'onglet
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_SCENARIOS_KEY, JSON.stringify(scenarios));
+    } catch (e) {
+      console.error("Erreur de sauvegarde des scénarios:", e);
+    }
+  }, [scenarios]);
+
   // --- NOUVEAU : Fonctions de gestion d'état ---
   const handleStateChange = (
     tabKey: keyof AppState,
@@ -1849,15 +3694,48 @@ export default function App() {
     }));
   };
 
+  // Changement d'onglet : nouvelle entrée d'historique (l'état de la route est ensuite mis à jour sur place)
   const handleTabChange = (newTab: string) => {
+    if (newTab !== tab) {
+      window.history.pushState(null, "", hashPartage(newTab, globalState));
+    }
     setTab(newTab);
   };
 
+  // Reprend le capital empruntable (et taux, assurance, durée) dans le simulateur de crédit
+  const handlePushCapacite = (r: CapaciteEmpruntResult) => {
+    const { taux, assurance } = globalState.capacite;
+    handleStateChange("creditImmo", {
+      ...globalState.creditImmo,
+      capital: String(Math.floor(r.capitalMax)),
+      taux,
+      assurance,
+      duree: String(r.dureeRetenue),
+    });
+    handleTabChange("Crédit immobilier");
+  };
+
+  const handleLoadScenario = (s: Scenario) => {
+    setGlobalState((prev) => appliquerScenario(prev, s));
+    handleTabChange(s.onglet);
+  };
+
   const handlePrint = () => window.print();
 
+  // Export tableur de l'onglet actif (module exceljs chargé à la demande)
+  const ongletExportable = estOngletSimulateur(tab);
+  const handleExportXlsx = async () => {
+    if (!estOngletSimulateur(tab)) return;
+    const { genererClasseurXlsx } = await import("./exportXlsx");
+    const blob = await genererClasseurXlsx(sectionRapport(tab, globalState));
+    const slug = tab.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^A-Za-z0-9]+/g, "_").toLowerCase();
+    telecharger(blob, `simulation_${slug}_${new Date().toISOString().slice(0, 10)}.xlsx`);
+  };
+
   // --- NOUVEAU : Bouton "Copier le lien" ---
+  const lienPartage = () => `${window.location.origin}${window.location.pathname}${window.location.search}${hashPartage(tab, globalState)}`;
   const handleCopyLink = () => {
-    navigator.clipboard.writeText(window.location.href).then(() => {
+    navigator.clipboard.writeText(lienPartage()).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2500);
     });
@@ -1867,7 +3745,17 @@ export default function App() {
   const renderTabContent = () => {
     switch (tab) {
       case "Location nue":
-        return <LocationNue data={globalState.locationNue} onChange={(d) => handleStateChange("locationNue", d)} />;
+        return (
+          <LocationNue data={globalState.locationNue} onChange={(d) => handleStateChange("locationNue", d)} foyer={globalState.capacite} />
+        );
+      case "Location meublée":
+        return (
+          <LocationMeublee
+            data={globalState.locationMeublee}
+            onChange={(d) => handleStateChange("locationMeublee", d)}
+            source={globalState.locationNue}
+          />
+        );
       case "Viager":
         return <Viager data={globalState.viager} onChange={(d) => handleStateChange("viager", d)} />;
       case "SCPI":
@@ -1876,6 +3764,16 @@ export default function App() {
         return <LocalCommercial data={globalState.localCommercial} onChange={(d) => handleStateChange("localCommercial", d)} />;
       case "Crédit immobilier":
         return <CreditImmo data={globalState.creditImmo} onChange={(d) => handleStateChange("creditImmo", d)} />;
+      case "Capacité d'emprunt":
+        return (
+          <CapaciteEmprunt
+            data={globalState.capacite}
+            onChange={(d) => handleStateChange("capacite", d)}
+            onPush={handlePushCapacite}
+          />
+        );
+      case "Comparatif":
+        return <Comparatif state={globalState} data={globalState.comparaison} onChange={(d) => handleStateChange("comparaison", d)} />;
       case "10 Commandements":
         return <CommandementsInvestisseur />;
       default:
@@ -1920,7 +3818,41 @@ export default function App() {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline-block mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M6 9V2h12v7M6 18H4a2 2 0 01-2-2v-5a2 2 0 012-2h16a2 2 0 012 2v5a2 2 0 01-2 2h-2M6 14h12M18 14v4a2 2 0 01-2 2H8a2 2 0 01-2-2v-4"/></svg>
                 Imprimer (PDF)
               </button>
+
+              <button
+                onClick={() => setShowRapport((s) => !s)}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow flex items-center justify-center"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline-block mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z"/><path d="M14 2v6h6M12 18v-6M9 15l3 3 3-3"/></svg>
+                Générer le rapport
+              </button>
+
+              <button
+                onClick={() => setShowScenarios((s) => !s)}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow flex items-center justify-center"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline-block mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21H5a2 2 0 01-2-2V5a2 2 0 012-2h11l5 5v11a2 2 0 01-2 2z"/><path d="M17 21v-8H7v8M7 3v5h8"/></svg>
+                Scénarios{scenarios.length ? ` (${scenarios.length})` : ""}
+              </button>
+
+              <button
+                onClick={handleExportXlsx}
+                disabled={!ongletExportable}
+                title={ongletExportable ? "Paramètres, résultats et tableaux de l'onglet au format Excel" : "Aucune donnée à exporter pour cet onglet"}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow flex items-center justify-center disabled:opacity-50"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline-block mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2"/><path d="M3 9h18M3 15h18M9 3v18"/></svg>
+                Exporter (Excel)
+              </button>
               
+              <button
+                onClick={() => setShowQr((s) => !s)}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition shadow flex items-center justify-center"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 inline-block mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="7" height="7"/><rect x="14" y="3" width="7" height="7"/><rect x="3" y="14" width="7" height="7"/><path d="M14 14h3v3h-3zM20 14v.01M14 20h.01M17 20h4v-3"/></svg>
+                QR code
+              </button>
+
               {/* NOUVEAU BOUTON */}
               <button
                 onClick={handleCopyLink}
@@ -1952,8 +3884,37 @@ export default function App() {
             <p className="text-sm text-gray-500">Date du rapport : {new Date().toLocaleDateString("fr-FR")}</p>
           </div>
 
+          {alerteRestauration && (
+            <AlerteRestauration
+              source={alerteRestauration.source}
+              anomalies={alerteRestauration.anomalies}
+              onClose={() => setAlerteRestauration(null)}
+            />
+          )}
+
+          {showQr && <PartageQr lien={lienPartage()} onClose={() => setShowQr(false)} />}
+
+          {showScenarios && (
+            <Scenarios
+              data={scenarios}
+              onChange={setScenarios}
+              ongletActif={tab}
+              state={globalState}
+              onLoad={handleLoadScenario}
+              onClose={() => setShowScenarios(false)}
+            />
+          )}
+
+          {showRapport && <RapportPdf state={globalState} ongletActif={tab} onClose={() => setShowRapport(false)} />}
+
           {renderTabContent()}
 
+          {estOngletSensibilite(tab) && <Sensibilite key={tab} onglet={tab} state={globalState} />}
+
+          {estOngletSensibilite(tab) && <TableDonnees key={tab} onglet={tab} state={globalState} onChange={setGlobalState} />}
+
+          {estOngletSensibilite(tab) && <ValeurCible key={tab} onglet={tab} state={globalState} onChange={setGlobalState} />}
+
           {/* À PROPOS */}
           <section id="apropos" className="mt-16 px-4 max-w-4xl mx-auto">
             <h2 className="text-2xl font-semibold mb-4">À propos</h2>
@@ -1989,7 +3950,13 @@ export default function App() {
               </div>
 
               <div className="mt-6 flex flex-wrap gap-3">
-                <a href="#simulateur" className="bg-blue-600 text-white px-5 py-2.5 rounded-md shadow hover:bg-blue-700 transition">Comparer maintenant</a>
+                <a
+                  href={ecrireRoute("Comparatif")}
+                  onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
+                  className="bg-blue-600 text-white px-5 py-2.5 rounded-md shadow hover:bg-blue-700 transition"
+                >
+                  Comparer maintenant
+                </a>
                 <a href="#contact" className="px-5 py-2.5 rounded-md border border-gray-300 hover:bg-gray-50 transition">Contacter l’équipe</a>
               </div>
             </div>
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { impactEndettement, simulateCapaciteEmprunt } from "./capaciteEmprunt";
+import { annuityPayment } from "./finance";
+import { DEFAULT_STATE } from "./state";
+
+const capacite = DEFAULT_STATE.capacite;
+
+describe("simulateCapaciteEmprunt", () => {
+  it("mensualité maximale à 35 % et capital correspondant", () => {
+    const r = simulateCapaciteEmprunt({ ...capacite, revenusMensuels: "4000", loyersPercus: "1000", creditsEnCours: "300" });
+    expect(r.revenusRetenus).toBe(4700);
+    expect(r.mensualiteMax).toBeCloseTo(4700 * 0.35 - 300, 8);
+    expect(annuityPayment(r.capitalMax, 3.2, 25) + (r.capitalMax * 0.003) / 12).toBeCloseTo(r.mensualiteMax, 6);
+    expect(r.resteAVivre).toBeCloseTo(4700 - 300 - r.mensualiteMax, 8);
+  });
+
+  it("durée et taux d'endettement plafonnés aux règles du HCSF", () => {
+    const r = simulateCapaciteEmprunt({ ...capacite, duree: "30", tauxEndettementMax: "40" });
+    expect(r.dureeRetenue).toBe(25);
+    expect(r.mensualiteMax).toBeCloseTo(4500 * 0.35, 8);
+  });
+});
+
+describe("impactEndettement", () => {
+  it("70 % du loyer ajouté aux revenus", () => {
+    const r = impactEndettement({ ...capacite, revenusMensuels: "4000" }, 1000, 800);
+    expect(r.tauxAvant).toBe(0);
+    expect(r.tauxApres).toBeCloseTo((1000 / 4560) * 100, 8);
+    expect(r.respecteHcsf).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+import { annuityPayment } from "./finance";
+import type { AppState } from "./state";
+import { toNum } from "./utils";
+
+/*********************
+ * CAPACITÉ D'EMPRUNT (NORME HCSF)
+ *********************/
+// Recommandation HCSF (décision D-HCSF-2021-7) : taux d'effort assurance comprise ≤ 35 %,
+// durée ≤ 25 ans. Les revenus locatifs sont retenus à 70 % (pratique bancaire usuelle).
+export const HCSF_TAUX_ENDETTEMENT_MAX = 35;
+export const HCSF_DUREE_MAX = 25;
+export const PART_LOYERS_RETENUE = 0.7;
+
+export type CapaciteEmpruntResult = {
+  revenusRetenus: number;
+  chargesExistantes: number;
+  tauxEndettementActuel: number;
+  dureeRetenue: number;
+  mensualiteMax: number;
+  mensualiteHorsAssurance: number;
+  assuranceMens: number;
+  capitalMax: number;
+  coutTotalInterets: number;
+  resteAVivre: number;
+  resteAVivreParPersonne: number;
+};
+
+export type ImpactEndettement = {
+  tauxAvant: number;
+  tauxApres: number;
+  resteAVivreApres: number;
+  respecteHcsf: boolean;
+};
+
+const tauxEffort = (charges: number, revenus: number) => (revenus > 0 ? (charges / revenus) * 100 : charges > 0 ? Infinity : 0);
+
+export function simulateCapaciteEmprunt(input: AppState["capacite"]): CapaciteEmpruntResult {
+  const vRevenus = toNum(input.revenusMensuels);
+  const vLoyers = toNum(input.loyersPercus);
+  const vCredits = toNum(input.creditsEnCours);
+  const vTaux = toNum(input.taux);
+  const vAssurance = toNum(input.assurance);
+  const vTauxMax = Math.min(HCSF_TAUX_ENDETTEMENT_MAX, Math.max(0, toNum(input.tauxEndettementMax)));
+  const vPersonnes = Math.max(1, Math.round(toNum(input.personnesFoyer)));
+
+  const dureeRetenue = Math.max(1, Math.min(HCSF_DUREE_MAX, toNum(input.duree)));
+  const revenusRetenus = vRevenus + vLoyers * PART_LOYERS_RETENUE;
+  const chargesExistantes = vCredits;
+
+  // Mensualité maximale assurance comprise, puis capital tel que annuité(C) + assurance(C) = mensualité max
+  const mensualiteMax = Math.max(0, (revenusRetenus * vTauxMax) / 100 - chargesExistantes);
+  const coefAnnuite = annuityPayment(1, vTaux, dureeRetenue);
+  const coefAssurance = vAssurance / 100 / 12;
+  const capitalMax = coefAnnuite + coefAssurance > 0 ? mensualiteMax / (coefAnnuite + coefAssurance) : 0;
+  const mensualiteHorsAssurance = capitalMax * coefAnnuite;
+  const assuranceMens = capitalMax * coefAssurance;
+  const coutTotalInterets = mensualiteHorsAssurance * Math.round(dureeRetenue * 12) - capitalMax;
+
+  const resteAVivre = revenusRetenus - chargesExistantes - mensualiteMax;
+
+  return {
+    revenusRetenus,
+    chargesExistantes,
+    tauxEndettementActuel: tauxEffort(chargesExistantes, revenusRetenus),
+    dureeRetenue,
+    mensualiteMax,
+    mensualiteHorsAssurance,
+    assuranceMens,
+    capitalMax,
+    coutTotalInterets,
+    resteAVivre,
+    resteAVivreParPersonne: resteAVivre / vPersonnes,
+  };
+}
+
+// Effet d'un nouveau projet locatif (mensualité assurance comprise, loyer mensuel) sur le taux d'effort du foyer
+export function impactEndettement(input: AppState["capacite"], mensualite: number, loyer: number): ImpactEndettement {
+  const vRevenus = toNum(input.revenusMensuels);
+  const vLoyers = toNum(input.loyersPercus);
+  const vCredits = toNum(input.creditsEnCours);
+  const vTauxMax = Math.min(HCSF_TAUX_ENDETTEMENT_MAX, Math.max(0, toNum(input.tauxEndettementMax)));
+
+  const revenusAvant = vRevenus + vLoyers * PART_LOYERS_RETENUE;
+  const revenusApres = revenusAvant + loyer * PART_LOYERS_RETENUE;
+  const tauxApres = tauxEffort(vCredits + mensualite, revenusApres);
+
+  return {
+    tauxAvant: tauxEffort(vCredits, revenusAvant),
+    tauxApres,
+    resteAVivreApres: revenusApres - vCredits - mensualite,
+    respecteHcsf: tauxApres <= vTauxMax,
+  };
+}
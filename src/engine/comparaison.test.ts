@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { compareStrategies, STRATEGIES } from "./comparaison";
+import { DEFAULT_STATE } from "./state";
+
+describe("compareStrategies", () => {
+  it("toutes les stratégies sur l'horizon choisi", () => {
+    const r = compareStrategies({ ...DEFAULT_STATE, comparaison: { ...DEFAULT_STATE.comparaison, horizon: "12" } });
+    expect(r.horizon).toBe(12);
+    expect(r.strategies.map((s) => s.strategie)).toEqual([...STRATEGIES]);
+    r.strategies.forEach((s) => expect(s.annees).toHaveLength(12));
+    expect([...r.classement].sort()).toEqual([...STRATEGIES].sort());
+  });
+
+  it("classement selon le critère retenu", () => {
+    const r = compareStrategies({ ...DEFAULT_STATE, comparaison: { ...DEFAULT_STATE.comparaison, critere: "Patrimoine net" } });
+    const patrimoine = r.classement.map((n) => r.strategies.find((s) => s.strategie === n)!.patrimoineNet);
+    for (let i = 1; i < patrimoine.length; i++) expect(patrimoine[i]).toBeLessThanOrEqual(patrimoine[i - 1]);
+  });
+
+  it("capital aligné : mêmes fonds propres pour chaque stratégie", () => {
+    const r = compareStrategies({ ...DEFAULT_STATE, comparaison: { ...DEFAULT_STATE.comparaison, alignerCapital: true, capitalCible: "50000" } });
+    r.strategies.forEach((s) => expect(s.fondsPropres).toBeCloseTo(50000, 6));
+  });
+});
@@ -0,0 +1,208 @@
+import { buildSchedule, yearlyLoanTotals } from "./creditImmo";
+import { irr } from "./finance";
+import { simulateLocalCommercial } from "./localCommercial";
+import { simulateLocationMeublee } from "./locationMeublee";
+import { simulateLocationNue } from "./locationNue";
+import { simulateScpi } from "./scpi";
+import type { AppState } from "./state";
+import { toNum } from "./utils";
+import { simulateViager } from "./viager";
+
+/*********************
+ * COMPARATIF DES STRATÉGIES
+ *********************/
+// Chaque stratégie est ramenée à une même grille annuelle sur l'horizon commun :
+// fonds propres à t0, cashflow net de chaque année, encaissements de capital (revente viager)
+// et valeur liquidative en fin d'année (valeur nette de frais de revente - CRD).
+// Patrimoine net = valeur liquidative + cashflows cumulés (non réinvestis).
+export const STRATEGIES = ["Location nue", "Location meublée", "Viager", "SCPI", "Local commercial"] as const;
+export type Strategie = (typeof STRATEGIES)[number];
+
+export const CRITERES_COMPARAISON = ["TRI", "Patrimoine net", "Effort mensuel"] as const;
+export type CritereComparaison = (typeof CRITERES_COMPARAISON)[number];
+
+export type ComparaisonAnnee = {
+  annee: number;
+  cashflow: number;
+  valeurLiquidative: number;
+  patrimoineNet: number;
+};
+
+export type StrategieComparee = {
+  strategie: Strategie;
+  echelle: number;
+  fondsPropres: number;
+  effortMensuel: number;
+  cashflowMensuel: number;
+  tri: number;
+  patrimoineNet: number;
+  enrichissement: number;
+  avantImpots: boolean;
+  annees: ComparaisonAnnee[];
+};
+
+export type ComparaisonResult = {
+  horizon: number;
+  strategies: StrategieComparee[];
+  classement: Strategie[];
+};
+
+// Flux bruts d'une stratégie, avant mise à l'échelle
+type FluxStrategie = {
+  fondsPropres: number;
+  cashflows: number[];
+  encaissements: number[];
+  valeurs: number[];
+  avantImpots: boolean;
+};
+
+const croissance = (base: number, taux: number, t: number) => base * Math.pow(1 + taux, t);
+
+function fluxLocationNue(input: AppState["locationNue"], horizon: number, hausse: string, fraisVente: string): FluxStrategie {
+  const r = simulateLocationNue({ ...input, dureeDetention: String(horizon), hausseImmo: hausse, fraisVentePct: fraisVente });
+  const vFraisVente = toNum(fraisVente) / 100;
+  return {
+    fondsPropres: r.baseInvestie,
+    cashflows: r.projection.map((p) => p.cashflow),
+    encaissements: r.projection.map(() => 0),
+    valeurs: r.projection.map((p) => p.valeurBien * (1 - vFraisVente) - p.crd),
+    avantImpots: false,
+  };
+}
+
+function fluxLocationMeublee(input: AppState["locationMeublee"], horizon: number, hausse: number, fraisVente: number): FluxStrategie {
+  const r = simulateLocationMeublee({ ...input, dureeDetention: String(horizon) });
+  const vPrix = toNum(input.prix);
+  return {
+    fondsPropres: r.baseInvestie,
+    cashflows: r.projection.map((p) => p.cashflow),
+    encaissements: r.projection.map(() => 0),
+    valeurs: r.projection.map((p) => croissance(vPrix, hausse, p.annee) * (1 - fraisVente) - p.crd),
+    avantImpots: false,
+  };
+}
+
+// Viager : flux mensuels espérés ; la position encore ouverte à une date est valorisée
+// par l'actualisation (au taux du viager) des flux espérés restants.
+function fluxViager(input: AppState["viager"], horizon: number, hausse: string, fraisVente: string): FluxStrategie {
+  const r = simulateViager({ ...input, hausseImmo: hausse, fraisVentePct: fraisVente });
+  const fondsPropres = r.capBouquet + r.fraisNotaire;
+  const flux = r.fluxEsperes.map((f, m) => f - r.reventeEsperee[m] + (m === 0 ? fondsPropres : 0));
+  const q = 1 / (1 + Math.max(0, toNum(input.taux)) / 100 / 12);
+  const valeurRestante = (debut: number) => {
+    let total = 0;
+    let f = 1;
+    for (let m = debut; m < r.fluxEsperes.length; m++) {
+      total += r.fluxEsperes[m] * f;
+      f *= q;
+    }
+    return total;
+  };
+  const somme = (arr: number[], y: number) => arr.slice(y * 12, (y + 1) * 12).reduce((s, v) => s + v, 0);
+  const annees = Array.from({ length: horizon }, (_, i) => i);
+  return {
+    fondsPropres,
+    cashflows: annees.map((i) => somme(flux, i)),
+    encaissements: annees.map((i) => somme(r.reventeEsperee, i)),
+    valeurs: annees.map((i) => valeurRestante((i + 1) * 12)),
+    avantImpots: false,
+  };
+}
+
+// SCPI : parts revalorisées au rythme de `revaloParts` ; en nue-propriété, la décote se résorbe
+// linéairement jusqu'au remembrement, puis les parts distribuent comme en pleine propriété.
+function fluxScpi(input: AppState["scpi"], horizon: number): FluxStrategie {
+  const r = simulateScpi(input);
+  const vRevalo = Math.max(0, toNum(input.revaloParts)) / 100;
+  const vDurNP = Math.max(0, Math.round(toNum(input.dureeNP)));
+  const vDecoteNP = Math.min(0.99, Math.max(0, toNum(input.decoteNP) / 100));
+  const isNP = input.mode === "Nue-propriété";
+  const pret = yearlyLoanTotals(r.schedule, horizon);
+  const pleinePropriete = isNP ? r.capitalNetInvesti / (1 - vDecoteNP) : r.capitalNetInvesti;
+  const distPleine = r.capitalNetInvesti > 0 ? (r.distApresImpotsPleine * pleinePropriete) / r.capitalNetInvesti : 0;
+
+  return {
+    fondsPropres: Math.min(toNum(input.montant), toNum(input.apport)),
+    cashflows: pret.map((p, i) => {
+      const dist = isNP ? (i >= vDurNP ? distPleine : 0) : i === 0 ? r.distApresImpotsAn1 : r.distApresImpotsPleine;
+      return dist - p.interets - p.principal - p.assurance;
+    }),
+    encaissements: pret.map(() => 0),
+    valeurs: pret.map((p, i) => {
+      const t = i + 1;
+      const decote = isNP && t < vDurNP ? (vDecoteNP * (vDurNP - t)) / vDurNP : 0;
+      return croissance(pleinePropriete, vRevalo, t) * (1 - decote) - p.crd;
+    }),
+    avantImpots: false,
+  };
+}
+
+function fluxLocalCommercial(input: AppState["localCommercial"], horizon: number, hausse: number, fraisVente: number): FluxStrategie {
+  const r = simulateLocalCommercial(input);
+  const vPrix = toNum(input.prix);
+  const pret = yearlyLoanTotals(buildSchedule(r.capital, toNum(input.taux), toNum(input.assurance), toNum(input.duree), false), horizon);
+  return {
+    fondsPropres: toNum(input.apport) + r.fraisNotaire,
+    cashflows: pret.map((p) => r.revenuAnnuel - r.chargesAnn - p.interets - p.principal - p.assurance),
+    encaissements: pret.map(() => 0),
+    valeurs: pret.map((p, i) => croissance(vPrix, hausse, i + 1) * (1 - fraisVente) - p.crd),
+    avantImpots: true,
+  };
+}
+
+// Mise à l'échelle linéaire (échelle = fonds propres cible / fonds propres saisis) puis indicateurs communs
+function indicateurs(strategie: Strategie, f: FluxStrategie, capitalCible: number | null): StrategieComparee {
+  const echelle = capitalCible !== null && f.fondsPropres > 0 ? capitalCible / f.fondsPropres : 1;
+  const horizon = f.cashflows.length;
+  let cumul = 0;
+  const annees: ComparaisonAnnee[] = f.cashflows.map((cf, i) => {
+    cumul += (cf + f.encaissements[i]) * echelle;
+    const valeurLiquidative = f.valeurs[i] * echelle;
+    return { annee: i + 1, cashflow: cf * echelle, valeurLiquidative, patrimoineNet: valeurLiquidative + cumul };
+  });
+
+  const fondsPropres = f.fondsPropres * echelle;
+  const flux = [-fondsPropres, ...annees.map((a, i) => a.cashflow + f.encaissements[i] * echelle)];
+  flux[horizon] += annees[horizon - 1].valeurLiquidative;
+  const patrimoineNet = annees[horizon - 1].patrimoineNet;
+
+  return {
+    strategie,
+    echelle,
+    fondsPropres,
+    effortMensuel: annees.reduce((s, a) => s + Math.max(0, -a.cashflow), 0) / (12 * horizon),
+    cashflowMensuel: annees.reduce((s, a) => s + a.cashflow, 0) / (12 * horizon),
+    tri: fondsPropres > 0 ? irr(flux, 1) : NaN,
+    patrimoineNet,
+    enrichissement: patrimoineNet - fondsPropres,
+    avantImpots: f.avantImpots,
+    annees,
+  };
+}
+
+export function compareStrategies(state: AppState): ComparaisonResult {
+  const input = state.comparaison;
+  const horizon = Math.max(1, Math.min(50, Math.round(toNum(input.horizon))));
+  const vHausse = toNum(input.hausseImmo) / 100;
+  const vFraisVente = toNum(input.fraisVentePct) / 100;
+  const capitalCible = input.alignerCapital && toNum(input.capitalCible) > 0 ? toNum(input.capitalCible) : null;
+
+  const flux: Record<Strategie, FluxStrategie> = {
+    "Location nue": fluxLocationNue(state.locationNue, horizon, input.hausseImmo, input.fraisVentePct),
+    "Location meublée": fluxLocationMeublee(state.locationMeublee, horizon, vHausse, vFraisVente),
+    Viager: fluxViager(state.viager, horizon, input.hausseImmo, input.fraisVentePct),
+    SCPI: fluxScpi(state.scpi, horizon),
+    "Local commercial": fluxLocalCommercial(state.localCommercial, horizon, vHausse, vFraisVente),
+  };
+  const strategies = STRATEGIES.map((s) => indicateurs(s, flux[s], capitalCible));
+
+  // Classement : TRI et patrimoine décroissants, effort croissant (TRI indéfini en dernier)
+  const cle = (s: StrategieComparee) => {
+    if (input.critere === "Patrimoine net") return s.patrimoineNet;
+    if (input.critere === "Effort mensuel") return -s.effortMensuel;
+    return Number.isFinite(s.tri) ? s.tri : -Infinity;
+  };
+  const classement = [...strategies].sort((a, b) => cle(b) - cle(a)).map((s) => s.strategie);
+
+  return { horizon, strategies, classement };
+}
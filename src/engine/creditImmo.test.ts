@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { buildSchedule, buildSmoothedSchedule, simulateCreditImmo, type EvenementPret } from "./creditImmo";
+import { DEFAULT_STATE } from "./state";
+
+const somme = (rows: { [k: string]: number }[], k: string) => rows.reduce((s, r) => s + r[k], 0);
+
+const remboursement = (mois: number, montant: number, option: EvenementPret["option"] = "Réduire la durée"): EvenementPret => ({
+  type: "Remboursement partiel",
+  mois,
+  montant,
+  option,
+  modulationPct: 0,
+});
+
+describe("buildSchedule", () => {
+  it("prêt amortissable de 100 000 € à 3,6 % sur 20 ans, assurance 0,3 % sur capital initial", () => {
+    const rows = buildSchedule(100000, 3.6, 0.3, 20, false);
+    expect(rows).toHaveLength(240);
+    expect(rows[0].interets).toBeCloseTo(300, 8);
+    expect(rows[0].assurance).toBeCloseTo(25, 8);
+    expect(rows[0].echeance).toBeCloseTo(610.11, 2);
+    expect(rows[239].crd).toBe(0);
+    expect(somme(rows, "principal")).toBeCloseTo(100000, 6);
+  });
+
+  it("assurance sur CRD : décroissante", () => {
+    const rows = buildSchedule(100000, 3.6, 0.3, 20, true);
+    expect(rows[0].assurance).toBeCloseTo(25, 8);
+    expect(rows[239].assurance).toBeLessThan(0.2);
+  });
+
+  it("in fine : capital remboursé à la dernière échéance", () => {
+    const rows = buildSchedule(100000, 3, 0, 10, false, [], true, { amortissement: "In fine", differe: "Aucun", differeMois: 0 });
+    expect(rows).toHaveLength(120);
+    expect(rows[0].principal).toBe(0);
+    expect(rows[0].echeance).toBeCloseTo(250, 8);
+    expect(rows[119].principal).toBe(100000);
+  });
+
+  it("amortissement constant : principal identique chaque mois", () => {
+    const rows = buildSchedule(120000, 3, 0, 10, false, [], true, { amortissement: "Amortissement constant", differe: "Aucun", differeMois: 0 });
+    expect(rows[0].principal).toBeCloseTo(1000, 8);
+    expect(rows[60].principal).toBeCloseTo(1000, 8);
+    expect(rows[119].crd).toBe(0);
+  });
+
+  it("différé total : intérêts capitalisés pendant le différé", () => {
+    const rows = buildSchedule(100000, 3.6, 0, 20, false, [], true, { amortissement: "Amortissable", differe: "Total", differeMois: 12 });
+    expect(rows[11].crd).toBeCloseTo(100000 * Math.pow(1.003, 12), 6);
+    expect(rows[0].echeance).toBe(0);
+    expect(rows).toHaveLength(240);
+    expect(rows[239].crd).toBe(0);
+  });
+
+  it("IRA plafonnées à 6 mois d'intérêts ou 3 % du CRD", () => {
+    const faible = buildSchedule(100000, 3.6, 0, 20, false, [remboursement(12, 50000)]);
+    expect(faible[11].indemnites).toBeCloseTo(50000 * 0.003 * 6, 8);
+
+    const eleve = buildSchedule(100000, 12, 0, 20, false, [remboursement(12, 50000)]);
+    const crdAvant = eleve[11].crd + 50000;
+    expect(eleve[11].indemnites).toBeCloseTo(crdAvant * 0.03, 8);
+  });
+
+  it("remboursement partiel : durée ou mensualité réduite", () => {
+    const base = buildSchedule(100000, 3.6, 0, 20, false);
+    const duree = buildSchedule(100000, 3.6, 0, 20, false, [remboursement(60, 30000)]);
+    expect(duree.length).toBeLessThan(240);
+    expect(duree[60].echeance).toBeCloseTo(base[60].echeance, 8);
+
+    const mensu = buildSchedule(100000, 3.6, 0, 20, false, [remboursement(60, 30000, "Réduire la mensualité")]);
+    expect(mensu).toHaveLength(240);
+    expect(mensu[60].echeance).toBeLessThan(base[60].echeance);
+    expect(mensu[239].crd).toBe(0);
+  });
+
+  it("durée réduite : dernière échéance limitée au capital restant dû", () => {
+    const rows = buildSchedule(100000, 3.6, 0.3, 20, false, [remboursement(60, 30000)]);
+    const mensu = rows[0].echeance - rows[0].assurance;
+    const derniere = rows[rows.length - 1];
+    expect(derniere.crd).toBe(0);
+    expect(derniere.echeance - derniere.assurance).toBeLessThan(mensu - 1);
+    rows.forEach((r) => expect(r.echeance).toBeCloseTo(r.interets + r.principal + r.assurance, 8));
+  });
+
+  it("modulation : total des échéances égal aux sommes versées", () => {
+    const modulation: EvenementPret = { type: "Modulation", mois: 24, montant: 0, option: "Réduire la durée", modulationPct: 30 };
+    const rows = buildSchedule(100000, 3.6, 0, 20, false, [modulation]);
+    expect(somme(rows, "echeance")).toBeCloseTo(somme(rows, "interets") + somme(rows, "principal"), 6);
+    expect(somme(rows, "principal")).toBeCloseTo(100000, 6);
+  });
+
+  it("modulation à la baisse : durée allongée de 2 ans au plus, prêt soldé", () => {
+    const modulation: EvenementPret = { type: "Modulation", mois: 24, montant: 0, option: "Réduire la durée", modulationPct: -90 };
+    const rows = buildSchedule(100000, 3.6, 0, 20, false, [modulation]);
+    expect(rows).toHaveLength(240 + 24);
+    expect(rows[rows.length - 1].crd).toBe(0);
+    expect(rows[30].principal).toBeGreaterThan(0);
+    expect(somme(rows, "principal")).toBeCloseTo(100000, 6);
+  });
+});
+
+describe("simulateCreditImmo", () => {
+  it("totaux cohérents avec le tableau", () => {
+    const r = simulateCreditImmo(DEFAULT_STATE.creditImmo);
+    expect(r.totalPrincipal).toBeCloseTo(250000, 4);
+    expect(r.totalEcheances).toBeCloseTo(r.totalInterets + r.totalPrincipal + r.totalAssurance, 4);
+    expect(r.coutTotal).toBeCloseTo(r.totalInterets + r.totalAssurance, 6);
+    expect(r.dureeEffectiveMois).toBe(300);
+  });
+});
+
+describe("buildSmoothedSchedule", () => {
+  it("total hors assurance constant avec un différé sur l'autre ligne", () => {
+    const autre = buildSchedule(40000, 0, 0, 15, false, [], true, { amortissement: "Amortissable", differe: "Partiel", differeMois: 60 });
+    const autres = autre.map((r) => r.echeance - r.assurance);
+    const { schedule, mensualiteLissee, totalDepasse } = buildSmoothedSchedule(200000, 3.6, 0, 20, false, autres);
+    expect(totalDepasse).toBe(false);
+    schedule.forEach((r, i) => expect(r.echeance + (autres[i] ?? 0)).toBeCloseTo(mensualiteLissee, 6));
+    expect(schedule[239].crd).toBe(0);
+  });
+
+  it("autres lignes supérieures au total lissé : échéance principale nulle, jamais négative", () => {
+    const autres = Array.from({ length: 60 }, () => 2000);
+    const { schedule, mensualiteLissee, totalDepasse } = buildSmoothedSchedule(50000, 3.6, 0, 20, false, autres);
+    expect(totalDepasse).toBe(true);
+    expect(mensualiteLissee).toBeLessThan(2000);
+    schedule.forEach((r) => expect(r.echeance).toBeGreaterThanOrEqual(0));
+    expect(schedule[0].echeance).toBe(0);
+    expect(schedule[60].echeance).toBeCloseTo(mensualiteLissee, 6);
+    expect(schedule[239].crd).toBe(0);
+    expect(somme(schedule, "echeance")).toBeCloseTo(somme(schedule, "interets") + 50000, 4);
+  });
+});
+
+describe("simulateCreditImmo – lissage", () => {
+  const ptz = { type: "PTZ" as const, montant: "40000", taux: "0", assurance: "0", duree: "15", differe: "0" };
+
+  it("prêt complémentaire plus long que le prêt principal : lissage refusé", () => {
+    const r = simulateCreditImmo({ ...DEFAULT_STATE.creditImmo, duree: "10", lissage: true, lignes: [ptz] });
+    expect(r.alerteLissage).toBe("lignes-plus-longues");
+    expect(r.mensualiteLissee).toBeNull();
+  });
+
+  it("lignes supérieures au total lissé : alerte", () => {
+    const r = simulateCreditImmo({ ...DEFAULT_STATE.creditImmo, capital: "20000", lissage: true, lignes: [{ ...ptz, montant: "200000", duree: "5" }] });
+    expect(r.alerteLissage).toBe("total-depasse");
+    r.lignes.forEach((l) => expect(l.totalInterets).toBeGreaterThanOrEqual(0));
+    expect(r.schedule[r.schedule.length - 1].crd).toBe(0);
+  });
+
+  it("lissage sans difficulté : aucune alerte", () => {
+    const r = simulateCreditImmo({ ...DEFAULT_STATE.creditImmo, lissage: true, lignes: [ptz] });
+    expect(r.alerteLissage).toBeNull();
+    expect(r.mensualiteLissee).not.toBeNull();
+  });
+});
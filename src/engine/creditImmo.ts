@@ -0,0 +1,515 @@
+import { annuityPayment } from "./finance";
+import { calculateTaeg, type TaegResult } from "./taeg";
+import type { AppState } from "./state";
+import { buildVariableSchedule, SCENARIOS_INDEX, trajectoireIndex, type ScenarioIndex, type TauxVariable } from "./tauxVariable";
+import { toNum } from "./utils";
+
+/*********************
+ * SIMULATION CRÉDIT IMMOBILIER
+ *********************/
+export const EVENEMENTS_PRET = ["Remboursement partiel", "Remboursement total", "Modulation"] as const;
+export type TypeEvenementPret = (typeof EVENEMENTS_PRET)[number];
+
+export const OPTIONS_REMBOURSEMENT = ["Réduire la durée", "Réduire la mensualité"] as const;
+export type OptionRemboursement = (typeof OPTIONS_REMBOURSEMENT)[number];
+
+export const TYPES_AMORTISSEMENT = ["Amortissable", "Amortissement constant", "In fine"] as const;
+export type TypeAmortissement = (typeof TYPES_AMORTISSEMENT)[number];
+
+export const TYPES_DIFFERE = ["Aucun", "Partiel", "Total"] as const;
+export type TypeDiffere = (typeof TYPES_DIFFERE)[number];
+
+// Profil du prêt : mode d'amortissement après un éventuel différé (partiel : intérêts payés,
+// total : intérêts capitalisés ; l'assurance reste due). Le différé est inclus dans la durée.
+export type ProfilPret = {
+  amortissement: TypeAmortissement;
+  differe: TypeDiffere;
+  differeMois: number;
+};
+
+export const PROFIL_PRET_DEFAUT: ProfilPret = { amortissement: "Amortissable", differe: "Aucun", differeMois: 0 };
+
+// Plafond légal des IRA (art. R313-25 C. conso.) : 6 mois d'intérêts sur le capital remboursé, dans la limite de 3 % du CRD
+export const IRA_MOIS_INTERETS = 6;
+export const IRA_PLAFOND_CRD = 0.03;
+
+// Allongement maximal de la durée initiale par modulation à la baisse des échéances (usage bancaire courant)
+export const MODULATION_ALLONGEMENT_MAX_MOIS = 24;
+
+// Événement appliqué au mois `mois` : remboursement anticipé (après l'échéance) ou modulation (dès l'échéance)
+export type EvenementPret = {
+  type: TypeEvenementPret;
+  mois: number;
+  montant: number;
+  option: OptionRemboursement;
+  modulationPct: number;
+};
+
+export type ScheduleRow = {
+  mois: number;
+  echeance: number;
+  interets: number;
+  assurance: number;
+  principal: number;
+  remboursementAnticipe: number;
+  indemnites: number;
+  crd: number;
+};
+
+export const TYPES_LIGNE_PRET = ["PTZ", "Action Logement", "Autre prêt"] as const;
+export type TypeLignePret = (typeof TYPES_LIGNE_PRET)[number];
+
+// Ligne de financement complémentaire (durée totale en années, différé partiel en mois)
+export type LignePret = {
+  type: TypeLignePret;
+  montant: number;
+  tauxPct: number;
+  assurancePct: number;
+  years: number;
+  differeMois: number;
+};
+
+// Synthèse d'une ligne du plan (la première est le prêt principal)
+export type LignePlanResult = {
+  libelle: string;
+  montant: number;
+  tauxPct: number;
+  dureeMois: number;
+  echeanceInitiale: number;
+  totalInterets: number;
+  totalAssurance: number;
+};
+
+export type CreditChartPoint = {
+  mois: number;
+  crd: number;
+  cumulInterets: number;
+  cumulAssurance: number;
+};
+
+// Prêt principal sous un scénario d'indice (ou à taux fixe, pour comparaison)
+export type ScenarioTauxResult = {
+  scenario: ScenarioIndex | "Taux fixe";
+  tauxMin: number;
+  tauxMax: number;
+  mensualiteMax: number;
+  dureeMois: number;
+  totalInterets: number;
+  coutTotal: number;
+  crdAnnuel: number[];
+};
+
+// Lissage du prêt principal impossible ou imparfait
+export type AlerteLissage =
+  | "lignes-plus-longues" // une ligne finit après le prêt principal : lissage non appliqué
+  | "total-depasse"; // certains mois, les autres lignes dépassent seules la mensualité lissée
+
+export type CreditImmoResult = {
+  mensuHorsAss: number;
+  schedule: ScheduleRow[];
+  chartData: CreditChartPoint[];
+  totalInterets: number;
+  totalAssurance: number;
+  totalEcheances: number;
+  totalPrincipal: number;
+  totalRemboursementsAnticipes: number;
+  totalIndemnites: number;
+  dureeEffectiveMois: number;
+  interetsEconomises: number;
+  coutTotal: number;
+  assMensMoyenne: number;
+  mensuTotMoyenne: number;
+  capitalTotal: number;
+  lignes: LignePlanResult[];
+  mensualiteLissee: number | null;
+  alerteLissage: AlerteLissage | null;
+  taeg: TaegResult;
+  scenariosTaux: ScenarioTauxResult[];
+};
+
+// Nombre d'échéances restant à payer pour solder `crd` à mensualité constante
+function nombreEcheances(crd: number, r: number, mensu: number) {
+  if (mensu <= crd * r) return Infinity;
+  if (r === 0) return Math.ceil(crd / mensu);
+  return Math.ceil(-Math.log(1 - (crd * r) / mensu) / Math.log(1 + r));
+}
+
+// Tableau d'amortissement (annuité constante par défaut, assurance fixe ou sur CRD), modifié par le profil
+// du prêt et les événements éventuels. Les modulations ne concernent que les prêts amortissables.
+export function buildSchedule(
+  capital: number,
+  tauxPct: number,
+  assurancePct: number,
+  years: number,
+  assuranceSurCRD: boolean,
+  evenements: EvenementPret[] = [],
+  indemnitesRA = true,
+  profil: ProfilPret = PROFIL_PRET_DEFAUT
+): ScheduleRow[] {
+  const rows: ScheduleRow[] = [];
+  let crd = capital;
+  const r = tauxPct / 100 / 12; // Taux mensuel
+  const totalMonths = Math.round(years * 12);
+  const differe = profil.differe === "Aucun" ? 0 : Math.max(0, Math.min(totalMonths - 1, Math.round(profil.differeMois)));
+  let mensu = annuityPayment(capital, tauxPct, (totalMonths - differe) / 12); // Mensualité (capital + intérêts)
+  let amortiConstant = capital / Math.max(1, totalMonths - differe);
+  const vAssRate = assurancePct / 100; // Taux assurance annuel
+  const assMensFixe = (capital * vAssRate) / 12;
+  // Échéance finale garantie tant qu'aucun événement n'a modifié la durée, et au plus tard à la fin de l'allongement permis
+  let dureeFixe = true;
+  const finMax = totalMonths + MODULATION_ALLONGEMENT_MAX_MOIS;
+
+  if (totalMonths === 0 || capital === 0) return [];
+
+  for (let m = 1; m <= finMax && crd > 0; m++) {
+    const interets = r > 0 ? crd * r : 0;
+    const duMois = evenements.filter((e) => e.mois === m);
+    const enDiffere = m <= differe;
+
+    // Fin du différé : échéances recalculées sur le CRD (augmenté des intérêts capitalisés en différé total)
+    if (m === differe + 1 && differe > 0) {
+      mensu = annuityPayment(crd, tauxPct, (totalMonths - differe) / 12);
+      amortiConstant = crd / (totalMonths - differe);
+    }
+
+    // Modulation : l'échéance varie de ±x %, la durée s'ajuste ; à la baisse, l'échéance reste au moins
+    // celle qui solde le CRD à la fin de l'allongement permis
+    if (profil.amortissement === "Amortissable" && !enDiffere) {
+      duMois
+        .filter((e) => e.type === "Modulation")
+        .forEach((e) => {
+          const plancher = annuityPayment(crd, tauxPct, (finMax - m + 1) / 12);
+          mensu = Math.max(plancher, mensu * (1 + e.modulationPct / 100));
+          dureeFixe = false;
+        });
+    }
+
+    let principal: number;
+    if (enDiffere) principal = profil.differe === "Total" ? -interets : 0;
+    else if (profil.amortissement === "In fine") principal = 0;
+    else if (profil.amortissement === "Amortissement constant") principal = Math.min(crd, amortiConstant);
+    else principal = Math.min(crd, Math.max(0, mensu - interets));
+
+    const assurance = assuranceSurCRD
+      ? (crd * vAssRate) / 12 // Calcul sur CRD
+      : assMensFixe; // Calcul sur capital initial
+
+    // Ajustement dernier mois (remboursement in fine inclus)
+    if ((dureeFixe && m === totalMonths) || m === finMax) {
+      principal = crd;
+    }
+    crd = Math.max(0, crd - principal);
+    // Somme réellement versée : la mensualité, sauf à la dernière échéance plafonnée au CRD
+    const paiement = enDiffere && profil.differe === "Total" ? 0 : interets + principal;
+    const echeance = paiement + assurance;
+
+    // Remboursements anticipés, après l'échéance du mois
+    let remboursementAnticipe = 0;
+    let indemnites = 0;
+    duMois
+      .filter((e) => e.type !== "Modulation" && crd > 0)
+      .forEach((e) => {
+        const montant = e.type === "Remboursement total" ? crd : Math.min(crd, Math.max(0, e.montant));
+        // Durée restante conservée en cas de réduction de la mensualité
+        const restant = dureeFixe ? totalMonths - m : nombreEcheances(crd, r, mensu);
+        if (indemnitesRA) indemnites += Math.min(montant * r * IRA_MOIS_INTERETS, crd * IRA_PLAFOND_CRD);
+        crd -= montant;
+        remboursementAnticipe += montant;
+        if (e.type === "Remboursement partiel" && e.option === "Réduire la mensualité" && crd > 0 && restant > 0) {
+          mensu = annuityPayment(crd, tauxPct, restant / 12);
+          amortiConstant = crd / restant;
+        } else if (profil.amortissement !== "In fine") {
+          dureeFixe = false;
+        }
+      });
+
+    rows.push({ mois: m, echeance, interets, assurance, principal, remboursementAnticipe, indemnites, crd });
+  }
+  return rows;
+}
+
+// Points annuels (et dernier mois) pour le graphique CRD / cumuls
+export function buildChartData(schedule: ScheduleRow[], capital: number): CreditChartPoint[] {
+  let cumulInterets = 0;
+  let cumulAssurance = 0;
+  const data: CreditChartPoint[] = [{ mois: 0, crd: capital, cumulInterets: 0, cumulAssurance: 0 }];
+
+  schedule.forEach((row) => {
+    cumulInterets += row.interets;
+    cumulAssurance += row.assurance;
+    if (row.mois % 12 === 0 || row.mois === schedule.length) {
+      data.push({ mois: row.mois, crd: row.crd, cumulInterets, cumulAssurance });
+    }
+  });
+  return data;
+}
+
+// Totaux annuels du tableau d'amortissement (intérêts, capital, assurance, CRD de fin d'année)
+export function yearlyLoanTotals(schedule: ScheduleRow[], years: number) {
+  return Array.from({ length: years }, (_, i) => {
+    const rows = schedule.slice(i * 12, (i + 1) * 12);
+    return {
+      interets: rows.reduce((s, r) => s + r.interets, 0),
+      principal: rows.reduce((s, r) => s + r.principal, 0),
+      assurance: rows.reduce((s, r) => s + r.assurance, 0),
+      crd: rows.length ? rows[rows.length - 1].crd : 0,
+    };
+  });
+}
+
+/*********************
+ * PLAN DE FINANCEMENT MULTI-LIGNES
+ *********************/
+// Ligne complémentaire : différé partiel (intérêts et assurance seuls), puis annuité constante
+export function buildLigneSchedule(ligne: LignePret): ScheduleRow[] {
+  return buildSchedule(ligne.montant, ligne.tauxPct, ligne.assurancePct, ligne.years, false, [], true, {
+    amortissement: "Amortissable",
+    differe: "Partiel",
+    differeMois: ligne.differeMois,
+  });
+}
+
+// Prêt principal lissé : son échéance (hors assurance) complète celles des autres lignes
+// pour que le total reste constant. La constante T solde exactement le prêt en n mois :
+// T·Σ(1+r)^(n-m) = C·(1+r)^n + Σ A_m·(1+r)^(n-m), A_m = échéances hors assurance des autres lignes.
+// Si certains mois A_m dépasse T, l'échéance du prêt principal y est nulle (jamais négative) : T est
+// alors cherchée par bissection sur Σ max(0, T - A_m)·(1+r)^(n-m) = C·(1+r)^n, et le total de ces
+// mois-là dépasse T (`totalDepasse`).
+export function buildSmoothedSchedule(
+  capital: number,
+  tauxPct: number,
+  assurancePct: number,
+  years: number,
+  assuranceSurCRD: boolean,
+  autresEcheances: number[]
+): { schedule: ScheduleRow[]; mensualiteLissee: number; totalDepasse: boolean } {
+  const n = Math.round(years * 12);
+  const r = tauxPct / 100 / 12;
+  if (n === 0 || capital === 0) return { schedule: [], mensualiteLissee: 0, totalDepasse: false };
+
+  const autres = Array.from({ length: n }, (_, i) => autresEcheances[i] ?? 0);
+  const poids = autres.map((_, i) => Math.pow(1 + r, n - 1 - i));
+  const du = capital * Math.pow(1 + r, n);
+  const somme = (f: (a: number, i: number) => number) => autres.reduce((s, a, i) => s + f(a, i) * poids[i], 0);
+
+  let mensualiteLissee = (du + somme((a) => a)) / somme(() => 1);
+  const totalDepasse = autres.some((a) => a > mensualiteLissee);
+  if (totalDepasse) {
+    let lo = 0;
+    let hi = mensualiteLissee;
+    for (let i = 0; i < 200 && hi - lo > 1e-9; i++) {
+      const t = (lo + hi) / 2;
+      if (somme((a) => Math.max(0, t - a)) < du) lo = t;
+      else hi = t;
+    }
+    mensualiteLissee = (lo + hi) / 2;
+  }
+
+  const rows: ScheduleRow[] = [];
+  let crd = capital;
+  const vAssRate = assurancePct / 100;
+  for (let m = 1; m <= n; m++) {
+    const interets = crd * r;
+    const echeancePrincipale = Math.max(0, mensualiteLissee - autres[m - 1]);
+    const principal = m === n ? crd : echeancePrincipale - interets;
+    const assurance = ((assuranceSurCRD ? crd : capital) * vAssRate) / 12;
+    crd = Math.max(0, crd - principal);
+    rows.push({ mois: m, echeance: interets + principal + assurance, interets, assurance, principal, remboursementAnticipe: 0, indemnites: 0, crd });
+  }
+  return { schedule: rows, mensualiteLissee, totalDepasse };
+}
+
+// Tableau consolidé : somme mois par mois des lignes (CRD total des lignes en cours)
+export function combineSchedules(schedules: ScheduleRow[][]): ScheduleRow[] {
+  const months = Math.max(0, ...schedules.map((s) => s.length));
+  return Array.from({ length: months }, (_, i) => {
+    const rows = schedules.map((s) => s[i]).filter((r): r is ScheduleRow => r !== undefined);
+    const somme = (k: keyof ScheduleRow) => rows.reduce((t, r) => t + r[k], 0);
+    return {
+      mois: i + 1,
+      echeance: somme("echeance"),
+      interets: somme("interets"),
+      assurance: somme("assurance"),
+      principal: somme("principal"),
+      remboursementAnticipe: somme("remboursementAnticipe"),
+      indemnites: somme("indemnites"),
+      crd: somme("crd"),
+    };
+  });
+}
+
+// Première échéance suivant le différé (hors assurance)
+export function echeanceApresDiffere(schedule: ScheduleRow[], differeMois: number) {
+  const row = schedule[Math.max(0, Math.min(schedule.length - 1, Math.round(differeMois)))];
+  return row ? row.echeance - row.assurance : 0;
+}
+
+// Taux appliqué chaque mois, déduit des intérêts et du CRD de début de mois
+function synthesePrincipal(scenario: ScenarioTauxResult["scenario"], capital: number, schedule: ScheduleRow[]): ScenarioTauxResult {
+  const taux = schedule.map((r, i) => {
+    const crdDebut = i === 0 ? capital : schedule[i - 1].crd;
+    return crdDebut > 0 ? (r.interets / crdDebut) * 1200 : 0;
+  });
+  const totalInterets = schedule.reduce((s, r) => s + r.interets, 0);
+  return {
+    scenario,
+    tauxMin: taux.length ? Math.min(...taux) : 0,
+    tauxMax: taux.length ? Math.max(...taux) : 0,
+    mensualiteMax: schedule.reduce((m, r) => Math.max(m, r.echeance - r.assurance), 0),
+    dureeMois: schedule.length,
+    totalInterets,
+    coutTotal: totalInterets + schedule.reduce((s, r) => s + r.assurance + r.indemnites, 0),
+    crdAnnuel: [capital, ...schedule.filter((r) => r.mois % 12 === 0 || r.mois === schedule.length).map((r) => r.crd)],
+  };
+}
+
+function syntheseLigne(libelle: string, montant: number, tauxPct: number, schedule: ScheduleRow[], differeMois: number): LignePlanResult {
+  return {
+    libelle,
+    montant,
+    tauxPct,
+    dureeMois: schedule.length,
+    echeanceInitiale: echeanceApresDiffere(schedule, differeMois),
+    totalInterets: schedule.reduce((s, r) => s + r.interets, 0),
+    totalAssurance: schedule.reduce((s, r) => s + r.assurance, 0),
+  };
+}
+
+export function simulateCreditImmo(input: AppState["creditImmo"]): CreditImmoResult {
+  const vCap = toNum(input.capital);
+  const vTaux = toNum(input.taux);
+  const vAss = toNum(input.assurance);
+  const vDur = toNum(input.duree);
+
+  const profil: ProfilPret = {
+    amortissement: input.typeAmortissement ?? "Amortissable",
+    differe: input.differe ?? "Aucun",
+    differeMois: toNum(input.differeMois),
+  };
+  const evenements: EvenementPret[] = (input.evenements ?? [])
+    .map((e) => ({
+      type: e.type,
+      mois: Math.round(toNum(e.mois)),
+      montant: toNum(e.montant),
+      option: e.option,
+      modulationPct: toNum(e.modulationPct),
+    }))
+    .filter((e) => e.mois >= 1);
+
+  // Lignes complémentaires du plan de financement ; le prêt principal peut être lissé (événements alors ignorés)
+  const lignes: LignePret[] = (input.lignes ?? []).map((l) => ({
+    type: l.type,
+    montant: toNum(l.montant),
+    tauxPct: toNum(l.taux),
+    assurancePct: toNum(l.assurance),
+    years: toNum(l.duree),
+    differeMois: toNum(l.differe),
+  }));
+  const schedulesLignes = lignes.map(buildLigneSchedule);
+  // Le total ne peut rester constant au-delà du prêt principal : lissage refusé si une ligne finit après lui
+  const lignesPlusLongues = schedulesLignes.some((s) => s.length > Math.round(vDur * 12));
+  const lisse =
+    input.lissage && lignes.length > 0 && !lignesPlusLongues
+      ? buildSmoothedSchedule(
+          vCap,
+          vTaux,
+          vAss,
+          vDur,
+          input.assuranceSurCRD,
+          combineSchedules(schedulesLignes).map((r) => r.echeance - r.assurance)
+        )
+      : null;
+
+  // Taux variable capé : le prêt principal suit le scénario d'indice retenu (profil et événements ignorés)
+  const variable: TauxVariable | null =
+    input.typeTaux === "Variable capé" && !lisse
+      ? {
+          indexInitial: toNum(input.indexInitial),
+          marge: toNum(input.marge),
+          cap: Math.max(0, toNum(input.cap)),
+          plancher: Math.max(0, toNum(input.plancher)),
+          revisionMois: toNum(input.revisionMois),
+          ajustement: input.ajustementRevision ?? "Durée constante",
+        }
+      : null;
+  const trajectoirePersonnalisee = (input.trajectoireIndex ?? []).map((v) => (v.trim() === "" ? NaN : toNum(v)));
+  const scheduleVariable = (scenario: ScenarioIndex) =>
+    variable
+      ? buildVariableSchedule(vCap, vAss, vDur, input.assuranceSurCRD, variable, trajectoireIndex(scenario, variable.indexInitial, vDur, trajectoirePersonnalisee))
+      : [];
+
+  const schedulePrincipal = lisse
+    ? lisse.schedule
+    : variable
+    ? scheduleVariable(input.scenarioIndex ?? "Stable")
+    : buildSchedule(vCap, vTaux, vAss, vDur, input.assuranceSurCRD, evenements, input.indemnitesRA, profil);
+  const schedule = lignes.length ? combineSchedules([schedulePrincipal, ...schedulesLignes]) : schedulePrincipal;
+  const capitalTotal = vCap + lignes.reduce((s, l) => s + l.montant, 0);
+
+  // Mensualité HORS assurance : première échéance après le différé (ou échéance consolidée du plan)
+  const differePrincipal = lisse || variable || profil.differe === "Aucun" ? 0 : profil.differeMois;
+  const mensuHorsAss = echeanceApresDiffere(lignes.length ? schedule : schedulePrincipal, lignes.length ? 0 : differePrincipal);
+
+  // Totaux calculés à partir du tableau pour refléter le mode d'assurance et les événements
+  const totalInterets = schedule.reduce((s, r) => s + r.interets, 0);
+  const totalAssurance = schedule.reduce((s, r) => s + r.assurance, 0);
+  const totalEcheances = schedule.reduce((s, r) => s + r.echeance, 0);
+  const totalPrincipal = schedule.reduce((s, r) => s + r.principal, 0);
+  const totalRemboursementsAnticipes = schedule.reduce((s, r) => s + r.remboursementAnticipe, 0);
+  const totalIndemnites = schedule.reduce((s, r) => s + r.indemnites, 0);
+  const coutTotal = totalInterets + totalAssurance + totalIndemnites;
+  const n = schedule.length || 1;
+  const assMensMoyenne = totalAssurance / n;
+  const mensuTotMoyenne = totalEcheances / n;
+
+  // Intérêts évités par rapport au prêt sans événement
+  const interetsSansEvenement =
+    evenements.length && !lisse && !variable
+      ? buildSchedule(vCap, vTaux, vAss, vDur, input.assuranceSurCRD, [], true, profil).reduce((s, r) => s + r.interets, 0) +
+        schedulesLignes.flat().reduce((s, r) => s + r.interets, 0)
+      : totalInterets;
+
+  return {
+    mensuHorsAss,
+    schedule,
+    chartData: buildChartData(schedule, capitalTotal),
+    totalInterets,
+    totalAssurance,
+    totalEcheances,
+    totalPrincipal,
+    totalRemboursementsAnticipes,
+    totalIndemnites,
+    dureeEffectiveMois: schedule.length,
+    interetsEconomises: interetsSansEvenement - totalInterets,
+    coutTotal,
+    assMensMoyenne,
+    mensuTotMoyenne,
+    capitalTotal,
+    lignes: [
+      syntheseLigne("Prêt principal", vCap, variable ? variable.indexInitial + variable.marge : vTaux, schedulePrincipal, differePrincipal),
+      ...lignes.map((l, i) => syntheseLigne(l.type, l.montant, l.tauxPct, schedulesLignes[i], l.differeMois)),
+    ],
+    mensualiteLissee: lisse ? lisse.mensualiteLissee : null,
+    alerteLissage:
+      input.lissage && lignes.length > 0 && lignesPlusLongues ? "lignes-plus-longues" : lisse?.totalDepasse ? "total-depasse" : null,
+    taeg: calculateTaeg(
+      capitalTotal,
+      schedule,
+      {
+        fraisDossier: toNum(input.fraisDossier),
+        garantie: input.garantie ?? "Aucune",
+        fraisGarantie: toNum(input.fraisGarantie),
+        restitutionGarantiePct: toNum(input.restitutionGarantiePct),
+        fraisCourtage: toNum(input.fraisCourtage),
+      },
+      Math.max(vDur, ...lignes.map((l) => l.years)),
+      (input.seuilsUsure ?? []).map(toNum)
+    ),
+    scenariosTaux: variable
+      ? [
+          synthesePrincipal("Taux fixe", vCap, buildSchedule(vCap, vTaux, vAss, vDur, input.assuranceSurCRD)),
+          ...SCENARIOS_INDEX.map((s) => synthesePrincipal(s, vCap, s === input.scenarioIndex ? schedulePrincipal : scheduleVariable(s))),
+        ]
+      : [],
+  };
+}
@@ -0,0 +1,122 @@
+/*********************
+ * DÉPARTEMENTS – TAUX DES DROITS DE MUTATION (DMTO)
+ *********************/
+// Taux de la taxe départementale de publicité foncière / droit d'enregistrement (art. 1594 D CGI),
+// voté par chaque département, avec sa date d'effet (`depuis`). La loi de finances pour 2025 autorise
+// un taux de 5 % pour les actes passés du 1er avril 2025 au 31 mars 2028 (hors primo-accédants, non
+// modélisés), retenu par la plupart des départements ; les autres conservent 4,5 %, ou le taux réduit
+// de 3,8 %, en vigueur depuis le 1er mars 2014 au plus tard. Table à tenir à jour d'après la liste
+// annuelle des taux publiée par la DGFiP.
+export type Departement = { code: string; nom: string; taux: number; depuis: string }; // depuis : date ISO
+
+// Taux de droit commun, retenu pour un code inconnu
+export const TAUX_DEPARTEMENTAL_DEFAUT = 4.5;
+
+export const DEPARTEMENTS: Departement[] = [
+  { code: "01", nom: "Ain", taux: 5, depuis: "2025-04-01" },
+  { code: "02", nom: "Aisne", taux: 5, depuis: "2025-04-01" },
+  { code: "03", nom: "Allier", taux: 5, depuis: "2025-04-01" },
+  { code: "04", nom: "Alpes-de-Haute-Provence", taux: 5, depuis: "2025-04-01" },
+  { code: "05", nom: "Hautes-Alpes", taux: 5, depuis: "2025-04-01" },
+  { code: "06", nom: "Alpes-Maritimes", taux: 5, depuis: "2025-04-01" },
+  { code: "07", nom: "Ardèche", taux: 5, depuis: "2025-04-01" },
+  { code: "08", nom: "Ardennes", taux: 5, depuis: "2025-04-01" },
+  { code: "09", nom: "Ariège", taux: 5, depuis: "2025-04-01" },
+  { code: "10", nom: "Aube", taux: 5, depuis: "2025-04-01" },
+  { code: "11", nom: "Aude", taux: 5, depuis: "2025-04-01" },
+  { code: "12", nom: "Aveyron", taux: 5, depuis: "2025-04-01" },
+  { code: "13", nom: "Bouches-du-Rhône", taux: 5, depuis: "2025-04-01" },
+  { code: "14", nom: "Calvados", taux: 5, depuis: "2025-04-01" },
+  { code: "15", nom: "Cantal", taux: 5, depuis: "2025-04-01" },
+  { code: "16", nom: "Charente", taux: 5, depuis: "2025-04-01" },
+  { code: "17", nom: "Charente-Maritime", taux: 5, depuis: "2025-04-01" },
+  { code: "18", nom: "Cher", taux: 5, depuis: "2025-04-01" },
+  { code: "19", nom: "Corrèze", taux: 5, depuis: "2025-04-01" },
+  { code: "2A", nom: "Corse-du-Sud", taux: 5, depuis: "2025-04-01" },
+  { code: "2B", nom: "Haute-Corse", taux: 5, depuis: "2025-04-01" },
+  { code: "21", nom: "Côte-d'Or", taux: 5, depuis: "2025-04-01" },
+  { code: "22", nom: "Côtes-d'Armor", taux: 5, depuis: "2025-04-01" },
+  { code: "23", nom: "Creuse", taux: 5, depuis: "2025-04-01" },
+  { code: "24", nom: "Dordogne", taux: 5, depuis: "2025-04-01" },
+  { code: "25", nom: "Doubs", taux: 5, depuis: "2025-04-01" },
+  { code: "26", nom: "Drôme", taux: 5, depuis: "2025-04-01" },
+  { code: "27", nom: "Eure", taux: 5, depuis: "2025-04-01" },
+  { code: "28", nom: "Eure-et-Loir", taux: 5, depuis: "2025-04-01" },
+  { code: "29", nom: "Finistère", taux: 5, depuis: "2025-04-01" },
+  { code: "30", nom: "Gard", taux: 5, depuis: "2025-04-01" },
+  { code: "31", nom: "Haute-Garonne", taux: 5, depuis: "2025-04-01" },
+  { code: "32", nom: "Gers", taux: 5, depuis: "2025-04-01" },
+  { code: "33", nom: "Gironde", taux: 5, depuis: "2025-04-01" },
+  { code: "34", nom: "Hérault", taux: 5, depuis: "2025-04-01" },
+  { code: "35", nom: "Ille-et-Vilaine", taux: 5, depuis: "2025-04-01" },
+  { code: "36", nom: "Indre", taux: 3.8, depuis: "2014-03-01" },
+  { code: "37", nom: "Indre-et-Loire", taux: 5, depuis: "2025-04-01" },
+  { code: "38", nom: "Isère", taux: 4.5, depuis: "2014-03-01" },
+  { code: "39", nom: "Jura", taux: 5, depuis: "2025-04-01" },
+  { code: "40", nom: "Landes", taux: 5, depuis: "2025-04-01" },
+  { code: "41", nom: "Loir-et-Cher", taux: 5, depuis: "2025-04-01" },
+  { code: "42", nom: "Loire", taux: 5, depuis: "2025-04-01" },
+  { code: "43", nom: "Haute-Loire", taux: 5, depuis: "2025-04-01" },
+  { code: "44", nom: "Loire-Atlantique", taux: 5, depuis: "2025-04-01" },
+  { code: "45", nom: "Loiret", taux: 5, depuis: "2025-04-01" },
+  { code: "46", nom: "Lot", taux: 5, depuis: "2025-04-01" },
+  { code: "47", nom: "Lot-et-Garonne", taux: 5, depuis: "2025-04-01" },
+  { code: "48", nom: "Lozère", taux: 5, depuis: "2025-04-01" },
+  { code: "49", nom: "Maine-et-Loire", taux: 5, depuis: "2025-04-01" },
+  { code: "50", nom: "Manche", taux: 5, depuis: "2025-04-01" },
+  { code: "51", nom: "Marne", taux: 5, depuis: "2025-04-01" },
+  { code: "52", nom: "Haute-Marne", taux: 5, depuis: "2025-04-01" },
+  { code: "53", nom: "Mayenne", taux: 5, depuis: "2025-04-01" },
+  { code: "54", nom: "Meurthe-et-Moselle", taux: 5, depuis: "2025-04-01" },
+  { code: "55", nom: "Meuse", taux: 5, depuis: "2025-04-01" },
+  { code: "56", nom: "Morbihan", taux: 3.8, depuis: "2014-03-01" },
+  { code: "57", nom: "Moselle", taux: 5, depuis: "2025-04-01" },
+  { code: "58", nom: "Nièvre", taux: 5, depuis: "2025-04-01" },
+  { code: "59", nom: "Nord", taux: 5, depuis: "2025-04-01" },
+  { code: "60", nom: "Oise", taux: 5, depuis: "2025-04-01" },
+  { code: "61", nom: "Orne", taux: 5, depuis: "2025-04-01" },
+  { code: "62", nom: "Pas-de-Calais", taux: 5, depuis: "2025-04-01" },
+  { code: "63", nom: "Puy-de-Dôme", taux: 5, depuis: "2025-04-01" },
+  { code: "64", nom: "Pyrénées-Atlantiques", taux: 5, depuis: "2025-04-01" },
+  { code: "65", nom: "Hautes-Pyrénées", taux: 5, depuis: "2025-04-01" },
+  { code: "66", nom: "Pyrénées-Orientales", taux: 5, depuis: "2025-04-01" },
+  { code: "67", nom: "Bas-Rhin", taux: 5, depuis: "2025-04-01" },
+  { code: "68", nom: "Haut-Rhin", taux: 5, depuis: "2025-04-01" },
+  { code: "69", nom: "Rhône", taux: 5, depuis: "2025-04-01" },
+  { code: "70", nom: "Haute-Saône", taux: 5, depuis: "2025-04-01" },
+  { code: "71", nom: "Saône-et-Loire", taux: 5, depuis: "2025-04-01" },
+  { code: "72", nom: "Sarthe", taux: 5, depuis: "2025-04-01" },
+  { code: "73", nom: "Savoie", taux: 5, depuis: "2025-04-01" },
+  { code: "74", nom: "Haute-Savoie", taux: 5, depuis: "2025-04-01" },
+  { code: "75", nom: "Paris", taux: 5, depuis: "2025-04-01" },
+  { code: "76", nom: "Seine-Maritime", taux: 5, depuis: "2025-04-01" },
+  { code: "77", nom: "Seine-et-Marne", taux: 5, depuis: "2025-04-01" },
+  { code: "78", nom: "Yvelines", taux: 5, depuis: "2025-04-01" },
+  { code: "79", nom: "Deux-Sèvres", taux: 5, depuis: "2025-04-01" },
+  { code: "80", nom: "Somme", taux: 5, depuis: "2025-04-01" },
+  { code: "81", nom: "Tarn", taux: 5, depuis: "2025-04-01" },
+  { code: "82", nom: "Tarn-et-Garonne", taux: 5, depuis: "2025-04-01" },
+  { code: "83", nom: "Var", taux: 5, depuis: "2025-04-01" },
+  { code: "84", nom: "Vaucluse", taux: 5, depuis: "2025-04-01" },
+  { code: "85", nom: "Vendée", taux: 5, depuis: "2025-04-01" },
+  { code: "86", nom: "Vienne", taux: 5, depuis: "2025-04-01" },
+  { code: "87", nom: "Haute-Vienne", taux: 5, depuis: "2025-04-01" },
+  { code: "88", nom: "Vosges", taux: 5, depuis: "2025-04-01" },
+  { code: "89", nom: "Yonne", taux: 5, depuis: "2025-04-01" },
+  { code: "90", nom: "Territoire de Belfort", taux: 5, depuis: "2025-04-01" },
+  { code: "91", nom: "Essonne", taux: 5, depuis: "2025-04-01" },
+  { code: "92", nom: "Hauts-de-Seine", taux: 5, depuis: "2025-04-01" },
+  { code: "93", nom: "Seine-Saint-Denis", taux: 5, depuis: "2025-04-01" },
+  { code: "94", nom: "Val-de-Marne", taux: 5, depuis: "2025-04-01" },
+  { code: "95", nom: "Val-d'Oise", taux: 5, depuis: "2025-04-01" },
+  { code: "971", nom: "Guadeloupe", taux: 5, depuis: "2025-04-01" },
+  { code: "972", nom: "Martinique", taux: 5, depuis: "2025-04-01" },
+  { code: "973", nom: "Guyane", taux: 5, depuis: "2025-04-01" },
+  { code: "974", nom: "La Réunion", taux: 5, depuis: "2025-04-01" },
+  { code: "976", nom: "Mayotte", taux: 3.8, depuis: "2014-03-01" },
+];
+
+export function getTauxDepartemental(code: string) {
+  const dep = DEPARTEMENTS.find((d) => d.code === code);
+  return dep ? dep.taux : TAUX_DEPARTEMENTAL_DEFAUT;
+}
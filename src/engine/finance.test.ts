@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { annuityPayment, irr, npv, presentValueAnnuity, pvIndexedAnnuity, solveMonthlyFromPV } from "./finance";
+
+describe("annuityPayment", () => {
+  it("mensualité d'un prêt de 100 000 € à 3,6 % sur 20 ans", () => {
+    expect(annuityPayment(100000, 3.6, 20)).toBeCloseTo(585.11, 2);
+  });
+
+  it("taux nul : capital réparti sur la durée", () => {
+    expect(annuityPayment(120000, 0, 10)).toBe(1000);
+  });
+
+  it("durée ou capital nuls", () => {
+    expect(annuityPayment(100000, 3, 0)).toBe(0);
+    expect(annuityPayment(0, 3, 20)).toBe(0);
+  });
+});
+
+describe("valeurs actuelles", () => {
+  it("rente à terme échu d'avance sans actualisation", () => {
+    expect(presentValueAnnuity(100, 10, 0)).toBe(12000);
+  });
+
+  it("rente indexée au taux d'actualisation : somme des versements", () => {
+    expect(pvIndexedAnnuity(100, 10, 2, 2)).toBeCloseTo(12000, 6);
+  });
+
+  it("solveMonthlyFromPV inverse pvIndexedAnnuity", () => {
+    const m = solveMonthlyFromPV(50000, 15, 3, 1);
+    expect(pvIndexedAnnuity(m, 15, 3, 1)).toBeCloseTo(50000, 6);
+  });
+});
+
+describe("npv / irr", () => {
+  it("flux annuels : TRI de 10 %", () => {
+    expect(irr([-100, 110], 1)).toBeCloseTo(10, 8);
+  });
+
+  it("la VAN au TRI est nulle", () => {
+    const flux = [-1000, ...Array.from({ length: 24 }, () => 45)];
+    expect(npv(flux, irr(flux))).toBeCloseTo(0, 6);
+  });
+
+  it("sans changement de signe : NaN", () => {
+    expect(irr([100, 10, 10])).toBeNaN();
+  });
+});
@@ -0,0 +1,74 @@
+/*********************
+ * FORMULES FINANCIÈRES
+ *********************/
+export function annuityPayment(capital: number, ratePct: number, years: number) {
+  const r = ratePct / 100 / 12;
+  const n = Math.round(years * 12);
+  if (n === 0 || capital === 0) return 0;
+  if (r <= 0) return capital / n;
+  return (capital * r) / (1 - Math.pow(1 + r, -n));
+}
+
+export function presentValueAnnuity(monthly: number, years: number, discountPct: number) {
+  const r = discountPct / 100 / 12;
+  const n = Math.round(years * 12);
+  if (n === 0 || monthly === 0) return 0;
+  if (r === 0) return monthly * n;
+  return monthly * ((1 - Math.pow(1 + r, -n)) / r) * (1 + r);
+}
+
+export function pvIndexedAnnuity(monthly: number, years: number, discountPct: number, indexPct: number) {
+  const r = discountPct / 100 / 12;
+  const g = indexPct / 100 / 12;
+  const n = Math.round(years * 12);
+  const q = (1 + g) / (1 + r);
+  if (q === 1) return monthly * n;
+  return (monthly * (1 - Math.pow(q, n))) / (1 - q);
+}
+
+export function solveMonthlyFromPV(targetPV: number, years: number, discountPct: number, indexPct: number) {
+  const ref = pvIndexedAnnuity(100, years, discountPct, indexPct);
+  return ref ? (targetPV / ref) * 100 : 0;
+}
+
+// Valeur actuelle nette d'une série de flux périodiques (flux[0] à t=0)
+export function npv(flows: number[], ratePct: number, periodsPerYear = 12) {
+  const r = Math.pow(1 + ratePct / 100, 1 / periodsPerYear) - 1;
+  let d = 1;
+  let total = 0;
+  for (const f of flows) {
+    total += f * d;
+    d /= 1 + r;
+  }
+  return total;
+}
+
+// TRI annualisé (en %) d'une série de flux périodiques, par bissection sur le taux périodique.
+// Renvoie NaN si les flux ne changent pas de signe sur l'intervalle exploré.
+export function irr(flows: number[], periodsPerYear = 12) {
+  const f = (r: number) => {
+    let d = 1;
+    let total = 0;
+    for (const cf of flows) {
+      total += cf * d;
+      d /= 1 + r;
+    }
+    return total;
+  };
+  let lo = -0.2;
+  let hi = 1;
+  let fLo = f(lo);
+  if (!Number.isFinite(fLo) || fLo * f(hi) > 0) return NaN;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = f(mid);
+    if (fMid * fLo > 0) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+    if (hi - lo < 1e-12) break;
+  }
+  return (Math.pow(1 + (lo + hi) / 2, periodsPerYear) - 1) * 100;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { impotsFonciers, type RevenusFonciersAnnee } from "./fiscaliteFonciere";
+
+const annee = (a: Partial<RevenusFonciersAnnee>): RevenusFonciersAnnee => ({
+  loyers: 0,
+  interets: 0,
+  assurance: 0,
+  charges: 0,
+  taxeFonciere: 0,
+  travaux: 0,
+  ...a,
+});
+
+describe("impotsFonciers", () => {
+  it("micro-foncier : abattement de 30 %", () => {
+    const [r] = impotsFonciers("Micro-foncier", [annee({ loyers: 10000 })], 0.3, 0.172);
+    expect(r.revenuImposable).toBeCloseTo(7000, 8);
+    expect(r.impots).toBeCloseTo(3304, 8);
+  });
+
+  it("micro-foncier au-delà du plafond : imposition au réel", () => {
+    const [r] = impotsFonciers("Micro-foncier", [annee({ loyers: 20000, charges: 5000 })], 0.3, 0.172);
+    expect(r.regime).toBe("Réel");
+    expect(r.revenuImposable).toBe(15000);
+  });
+
+  it("réel : déficit imputé sur le revenu global dans la limite de 10 700 €", () => {
+    const [r] = impotsFonciers("Réel", [annee({ loyers: 10000, interets: 3000, charges: 2000, travaux: 20000 })], 0.3, 0.172);
+    expect(r.deficitImputeGlobal).toBe(10700);
+    expect(r.deficitReportable).toBe(4300);
+    expect(r.impots).toBeCloseTo(-3210, 8);
+  });
+
+  it("la part du déficit due aux intérêts n'est reportable que sur les revenus fonciers", () => {
+    const [r] = impotsFonciers("Réel", [annee({ loyers: 2000, interets: 5000, charges: 1000 })], 0.3, 0.172);
+    expect(r.deficitImputeGlobal).toBe(1000);
+    expect(r.deficitReportable).toBe(3000);
+  });
+
+  it("report imputé sur les bénéfices suivants, perdu après 10 ans", () => {
+    const deficit = annee({ loyers: 1000, interets: 4000 });
+    const benefice = annee({ loyers: 5000 });
+    const utilise = impotsFonciers("Réel", [deficit, ...Array.from({ length: 9 }, () => annee({})), benefice], 0.3, 0.172);
+    expect(utilise[10].reportUtilise).toBe(3000);
+    expect(utilise[10].revenuImposable).toBe(2000);
+
+    const perdu = impotsFonciers("Réel", [deficit, ...Array.from({ length: 10 }, () => annee({})), benefice], 0.3, 0.172);
+    expect(perdu[11].reportUtilise).toBe(0);
+    expect(perdu[11].revenuImposable).toBe(5000);
+  });
+});
@@ -0,0 +1,97 @@
+/*********************
+ * FISCALITÉ DES REVENUS FONCIERS (LOCATION NUE)
+ *********************/
+// Micro-foncier : abattement forfaitaire de 30 %, réservé aux loyers bruts ≤ 15 000 €/an.
+// Réel : déduction des charges réelles ; le déficit hors intérêts s'impute sur le revenu global
+// (10 700 €/an max, économie au taux de la TMI), le reste est reportable 10 ans sur les revenus fonciers.
+export const REGIMES_FONCIERS = ["Micro-foncier", "Réel"] as const;
+export type RegimeFoncier = (typeof REGIMES_FONCIERS)[number];
+
+export const MICRO_FONCIER_PLAFOND = 15000;
+export const MICRO_FONCIER_ABATTEMENT = 0.3;
+export const DEFICIT_GLOBAL_PLAFOND = 10700;
+export const DEFICIT_REPORT_ANNEES = 10;
+
+export type RevenusFonciersAnnee = {
+  loyers: number;
+  interets: number;
+  assurance: number;
+  charges: number;
+  taxeFonciere: number;
+  travaux: number;
+};
+
+export type ImpotFoncierAnnee = {
+  regime: RegimeFoncier;
+  revenuImposable: number;
+  deficitImputeGlobal: number;
+  reportUtilise: number;
+  deficitReportable: number;
+  impots: number;
+};
+
+// Impôt (IR + PS) année par année ; une économie d'IR liée au déficit donne un impôt négatif.
+// Le micro-foncier bascule au réel les années où les loyers dépassent le plafond.
+export function impotsFonciers(
+  regime: RegimeFoncier,
+  annees: RevenusFonciersAnnee[],
+  tmi: number,
+  ps: number
+): ImpotFoncierAnnee[] {
+  let reports: { annee: number; montant: number }[] = [];
+  return annees.map((a, i) => {
+    // Les déficits de plus de 10 ans sont perdus
+    reports = reports.filter((r) => i - r.annee <= DEFICIT_REPORT_ANNEES && r.montant > 0);
+    const stock = () => reports.reduce((s, r) => s + r.montant, 0);
+
+    if (regime === "Micro-foncier" && a.loyers <= MICRO_FONCIER_PLAFOND) {
+      const revenuImposable = a.loyers * (1 - MICRO_FONCIER_ABATTEMENT);
+      return {
+        regime,
+        revenuImposable,
+        deficitImputeGlobal: 0,
+        reportUtilise: 0,
+        deficitReportable: stock(),
+        impots: revenuImposable * (tmi + ps),
+      };
+    }
+
+    const financier = a.interets + a.assurance;
+    const autres = a.charges + a.taxeFonciere + a.travaux;
+    const resultat = a.loyers - financier - autres;
+
+    if (resultat >= 0) {
+      // Imputation des déficits antérieurs, les plus anciens d'abord
+      let reste = resultat;
+      let reportUtilise = 0;
+      for (const r of reports) {
+        const pris = Math.min(r.montant, reste);
+        r.montant -= pris;
+        reste -= pris;
+        reportUtilise += pris;
+      }
+      return {
+        regime: "Réel",
+        revenuImposable: reste,
+        deficitImputeGlobal: 0,
+        reportUtilise,
+        deficitReportable: stock(),
+        impots: reste * (tmi + ps),
+      };
+    }
+
+    // Déficit : la part due aux intérêts (au-delà des loyers) n'est reportable que sur les revenus fonciers
+    const deficit = -resultat;
+    const partFinanciere = Math.max(0, financier - a.loyers);
+    const deficitImputeGlobal = Math.min(DEFICIT_GLOBAL_PLAFOND, deficit - partFinanciere);
+    reports.push({ annee: i, montant: deficit - deficitImputeGlobal });
+    return {
+      regime: "Réel",
+      revenuImposable: 0,
+      deficitImputeGlobal,
+      reportUtilise: 0,
+      deficitReportable: stock(),
+      impots: -deficitImputeGlobal * tmi,
+    };
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { impotsMeubles, statutLoueurMeuble, type RevenusMeublesAnnee } from "./fiscaliteMeublee";
+
+const annee = (a: Partial<RevenusMeublesAnnee>): RevenusMeublesAnnee => ({
+  loyers: 0,
+  interets: 0,
+  assurance: 0,
+  charges: 0,
+  taxeFonciere: 0,
+  fraisAcquisition: 0,
+  dotationAmortissement: 0,
+  ...a,
+});
+
+const opts = { tmi: 0.3, ps: 0.172, tauxCotisationsLmp: 0.35, autresRevenusActivite: 40000 };
+
+describe("statutLoueurMeuble", () => {
+  it("LMP si les recettes dépassent 23 000 € et les autres revenus d'activité", () => {
+    expect(statutLoueurMeuble(30000, 20000)).toBe("LMP");
+    expect(statutLoueurMeuble(30000, 40000)).toBe("LMNP");
+    expect(statutLoueurMeuble(20000, 0)).toBe("LMNP");
+  });
+});
+
+describe("impotsMeubles", () => {
+  it("micro-BIC : abattement de 50 %", () => {
+    const [r] = impotsMeubles("Micro-BIC", [annee({ loyers: 10000 })], opts);
+    expect(r.revenuImposable).toBe(5000);
+    expect(r.impots).toBeCloseTo(2360, 8);
+  });
+
+  it("réel : l'amortissement ne crée pas de déficit, l'excédent est différé", () => {
+    const [a1, a2] = impotsMeubles(
+      "Réel BIC",
+      [annee({ loyers: 10000, charges: 2000, dotationAmortissement: 10000 }), annee({ loyers: 10000, charges: 2000 })],
+      opts
+    );
+    expect(a1.amortissementDeduit).toBe(8000);
+    expect(a1.amortissementDiffere).toBe(2000);
+    expect(a1.revenuImposable).toBe(0);
+    expect(a2.amortissementDeduit).toBe(2000);
+    expect(a2.revenuImposable).toBe(6000);
+  });
+
+  it("LMNP : déficit reporté sur les bénéfices suivants", () => {
+    const [a1, a2] = impotsMeubles("Réel BIC", [annee({ loyers: 1000, interets: 4000 }), annee({ loyers: 5000 })], opts);
+    expect(a1.impots).toBe(0);
+    expect(a1.deficitReportable).toBe(3000);
+    expect(a2.revenuImposable).toBe(2000);
+  });
+
+  it("LMP : déficit imputé sur le revenu global", () => {
+    const [r] = impotsMeubles("Réel BIC", [annee({ loyers: 30000, interets: 35000 })], { ...opts, autresRevenusActivite: 0 });
+    expect(r.statut).toBe("LMP");
+    expect(r.impots).toBeCloseTo(-1500, 8);
+  });
+});
@@ -0,0 +1,130 @@
+/*********************
+ * FISCALITÉ DE LA LOCATION MEUBLÉE (BIC – LMNP / LMP)
+ *********************/
+// Micro-BIC : abattement forfaitaire de 50 % (recettes ≤ 77 700 €/an).
+// Réel BIC : charges déductibles + amortissement par composant. L'amortissement ne peut pas créer
+// de déficit (art. 39 C CGI) : la part non utilisée est reportée sans limite de durée.
+// LMP (recettes > 23 000 € et supérieures aux autres revenus d'activité du foyer) : cotisations
+// sociales des indépendants au lieu des prélèvements sociaux, déficit imputable sur le revenu global.
+export const REGIMES_BIC = ["Micro-BIC", "Réel BIC"] as const;
+export type RegimeBic = (typeof REGIMES_BIC)[number];
+
+export const MICRO_BIC_PLAFOND = 77700;
+export const MICRO_BIC_ABATTEMENT = 0.5;
+export const LMP_SEUIL_RECETTES = 23000;
+export const DEFICIT_BIC_REPORT_ANNEES = 10;
+
+// Durées d'amortissement par composant (années) ; le terrain n'est pas amortissable
+export const DUREES_AMORTISSEMENT = { bati: 30, mobilier: 7, travaux: 10 };
+
+export type StatutLoueurMeuble = "LMNP" | "LMP";
+
+export function statutLoueurMeuble(recettes: number, autresRevenusActivite: number): StatutLoueurMeuble {
+  return recettes > LMP_SEUIL_RECETTES && recettes > autresRevenusActivite ? "LMP" : "LMNP";
+}
+
+export type RevenusMeublesAnnee = {
+  loyers: number;
+  interets: number;
+  assurance: number;
+  charges: number;
+  taxeFonciere: number;
+  fraisAcquisition: number;
+  dotationAmortissement: number;
+};
+
+export type ImpotMeubleAnnee = {
+  regime: RegimeBic;
+  statut: StatutLoueurMeuble;
+  resultatAvantAmortissement: number;
+  amortissementDeduit: number;
+  amortissementDiffere: number;
+  deficitReportable: number;
+  revenuImposable: number;
+  impots: number;
+};
+
+export function impotsMeubles(
+  regime: RegimeBic,
+  annees: RevenusMeublesAnnee[],
+  opts: { tmi: number; ps: number; tauxCotisationsLmp: number; autresRevenusActivite: number }
+): ImpotMeubleAnnee[] {
+  const { tmi, ps, tauxCotisationsLmp, autresRevenusActivite } = opts;
+  let amortissementDiffere = 0;
+  let deficits: { annee: number; montant: number }[] = [];
+  const prelevements = (statut: StatutLoueurMeuble) => (statut === "LMP" ? tauxCotisationsLmp : ps);
+
+  return annees.map((a, i) => {
+    const statut = statutLoueurMeuble(a.loyers, autresRevenusActivite);
+    deficits = deficits.filter((d) => i - d.annee <= DEFICIT_BIC_REPORT_ANNEES && d.montant > 0);
+    const stockDeficits = () => deficits.reduce((s, d) => s + d.montant, 0);
+
+    if (regime === "Micro-BIC" && a.loyers <= MICRO_BIC_PLAFOND) {
+      const revenuImposable = a.loyers * (1 - MICRO_BIC_ABATTEMENT);
+      return {
+        regime,
+        statut,
+        resultatAvantAmortissement: revenuImposable,
+        amortissementDeduit: 0,
+        amortissementDiffere: 0,
+        deficitReportable: 0,
+        revenuImposable,
+        impots: revenuImposable * (tmi + prelevements(statut)),
+      };
+    }
+
+    const resultatAvantAmortissement =
+      a.loyers - a.interets - a.assurance - a.charges - a.taxeFonciere - a.fraisAcquisition;
+    amortissementDiffere += a.dotationAmortissement;
+
+    if (resultatAvantAmortissement < 0) {
+      const deficit = -resultatAvantAmortissement;
+      if (statut === "LMP") {
+        // Déficit LMP imputable sans plafond sur le revenu global (économie d'IR à la TMI)
+        return {
+          regime: "Réel BIC",
+          statut,
+          resultatAvantAmortissement,
+          amortissementDeduit: 0,
+          amortissementDiffere,
+          deficitReportable: stockDeficits(),
+          revenuImposable: 0,
+          impots: -deficit * tmi,
+        };
+      }
+      deficits.push({ annee: i, montant: deficit });
+      return {
+        regime: "Réel BIC",
+        statut,
+        resultatAvantAmortissement,
+        amortissementDeduit: 0,
+        amortissementDiffere,
+        deficitReportable: stockDeficits(),
+        revenuImposable: 0,
+        impots: 0,
+      };
+    }
+
+    // Bénéfice : déficits antérieurs d'abord, puis amortissements (dans la limite du résultat)
+    let reste = resultatAvantAmortissement;
+    for (const d of deficits) {
+      const pris = Math.min(d.montant, reste);
+      d.montant -= pris;
+      reste -= pris;
+    }
+    const amortissementDeduit = Math.min(amortissementDiffere, reste);
+    amortissementDiffere -= amortissementDeduit;
+    reste -= amortissementDeduit;
+
+    return {
+      regime: "Réel BIC",
+      statut,
+      resultatAvantAmortissement,
+      amortissementDeduit,
+      amortissementDiffere,
+      deficitReportable: stockDeficits(),
+      revenuImposable: reste,
+      impots: reste * (tmi + prelevements(statut)),
+    };
+  });
+}
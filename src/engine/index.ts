@@ -0,0 +1,31 @@
+/*********************
+ * MOTEUR DE SIMULATION (fonctions pures, utilisables hors navigateur)
+ *********************/
+export * from "./utils";
+export * from "./finance";
+export * from "./departements";
+export * from "./notary";
+export * from "./mortalityTables";
+export * from "./mortality";
+export * from "./state";
+export * from "./fiscaliteFonciere";
+export * from "./locationNue";
+export * from "./fiscaliteMeublee";
+export * from "./locationMeublee";
+export * from "./viager";
+export * from "./viagerMonteCarlo";
+export * from "./scpi";
+export * from "./localCommercial";
+export * from "./creditImmo";
+export * from "./taeg";
+export * from "./tauxVariable";
+export * from "./capaciteEmprunt";
+export * from "./comparaison";
+export * from "./rapport";
+export * from "./scenarios";
+export * from "./variantes";
+export * from "./schema";
+export * from "./partage";
+export * from "./sensibilite";
+export * from "./tableDonnees";
+export * from "./valeurCible";
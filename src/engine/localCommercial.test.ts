@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { annuityPayment } from "./finance";
+import { simulateLocalCommercial } from "./localCommercial";
+import { DEFAULT_STATE } from "./state";
+
+const local = DEFAULT_STATE.localCommercial;
+
+describe("simulateLocalCommercial", () => {
+  it("rendements et cash-flow du cas par défaut", () => {
+    const r = simulateLocalCommercial(local);
+    expect(r.capital).toBe(200000);
+    expect(r.mensualite).toBeCloseTo(annuityPayment(200000, 3, 20), 8);
+    expect(r.assuranceMens).toBeCloseTo(50, 8);
+    expect(r.rendementBrut).toBeCloseTo(7.2, 8);
+    expect(r.rendementNet).toBeCloseTo(5.8, 8);
+    expect(r.cashflowMens).toBeCloseTo(1500 - 3500 / 12 - r.mensualiteTotale, 8);
+  });
+
+  it("loyer d'équilibre : cash-flow nul", () => {
+    const base = simulateLocalCommercial(local);
+    const loyer = 3500 / 12 + base.mensualiteTotale;
+    expect(simulateLocalCommercial({ ...local, loyer: String(loyer) }).cashflowMens).toBeCloseTo(0, 8);
+  });
+});
@@ -0,0 +1,64 @@
+import { annuityPayment } from "./finance";
+import { notaryFeesBreakdown, type NotaryFeesBreakdown } from "./notary";
+import type { AppState } from "./state";
+import { toNum } from "./utils";
+
+/*********************
+ * SIMULATION LOCAL COMMERCIAL
+ *********************/
+export type LocalCommercialResult = {
+  capital: number;
+  mensualite: number;
+  assuranceMens: number;
+  mensualiteTotale: number;
+  fraisNotaire: number;
+  fraisNotaireDetail: NotaryFeesBreakdown;
+  revenuAnnuel: number;
+  rendementBrut: number;
+  chargesAnn: number;
+  revenuNetAvantDette: number;
+  rendementNet: number;
+  cashflowMens: number;
+};
+
+export function simulateLocalCommercial(input: AppState["localCommercial"]): LocalCommercialResult {
+  const vPrix = toNum(input.prix);
+  const vApport = toNum(input.apport);
+  const vTaux = toNum(input.taux);
+  const vAssurance = toNum(input.assurance);
+  const vDuree = toNum(input.duree);
+  const vLoyer = toNum(input.loyer);
+  const vCharges = toNum(input.charges);
+  const vTaxe = toNum(input.taxe);
+
+  const capital = Math.max(0, vPrix - vApport);
+  const mensualite = annuityPayment(capital, vTaux, vDuree);
+  const assuranceMens = (capital * (vAssurance / 100)) / 12;
+  const mensualiteTotale = mensualite + assuranceMens;
+
+  const fraisNotaireDetail = notaryFeesBreakdown(vPrix, { departement: input.departement, neuf: input.neuf });
+  const fraisNotaire = fraisNotaireDetail.total;
+
+  const revenuAnnuel = vLoyer * 12;
+  const rendementBrut = vPrix > 0 ? (revenuAnnuel / vPrix) * 100 : 0;
+  const chargesAnn = vCharges + vTaxe;
+  const revenuNetAvantDette = Math.max(0, revenuAnnuel - chargesAnn);
+  const rendementNet = vPrix > 0 ? (revenuNetAvantDette / vPrix) * 100 : 0;
+
+  const cashflowMens = vLoyer - (vCharges + vTaxe) / 12 - mensualiteTotale;
+
+  return {
+    capital,
+    mensualite,
+    assuranceMens,
+    mensualiteTotale,
+    fraisNotaire,
+    fraisNotaireDetail,
+    revenuAnnuel,
+    rendementBrut,
+    chargesAnn,
+    revenuNetAvantDette,
+    rendementNet,
+    cashflowMens,
+  };
+}
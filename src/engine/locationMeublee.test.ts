@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { DUREES_AMORTISSEMENT } from "./fiscaliteMeublee";
+import { simulateLocationMeublee } from "./locationMeublee";
+import { DEFAULT_STATE } from "./state";
+
+const meublee = DEFAULT_STATE.locationMeublee;
+
+describe("simulateLocationMeublee", () => {
+  it("dotations : bâti hors terrain, mobilier", () => {
+    const r = simulateLocationMeublee(meublee);
+    expect(r.dotations.bati).toBeCloseTo((292000 * 0.85) / DUREES_AMORTISSEMENT.bati, 6);
+    expect(r.dotations.mobilier).toBeCloseTo(8000 / DUREES_AMORTISSEMENT.mobilier, 6);
+  });
+
+  it("réel BIC : l'amortissement efface le résultat imposable des premières années", () => {
+    const r = simulateLocationMeublee(meublee);
+    expect(r.statut).toBe("LMNP");
+    expect(r.projection[0].revenuImposable).toBe(0);
+    expect(r.projection[0].impots).toBe(0);
+  });
+
+  it("micro-BIC : 50 % des loyers imposés", () => {
+    const r = simulateLocationMeublee({ ...meublee, regimeFiscal: "Micro-BIC" });
+    expect(r.impotsAnn).toBeCloseTo(850 * 12 * 0.5 * (0.3 + 0.172), 6);
+  });
+});
@@ -0,0 +1,173 @@
+import { buildSchedule, yearlyLoanTotals } from "./creditImmo";
+import {
+  DUREES_AMORTISSEMENT,
+  MICRO_BIC_PLAFOND,
+  REGIMES_BIC,
+  impotsMeubles,
+  type RegimeBic,
+  type StatutLoueurMeuble,
+} from "./fiscaliteMeublee";
+import { annuityPayment } from "./finance";
+import { notaryFeesBreakdown, type NotaryFeesBreakdown } from "./notary";
+import type { AppState } from "./state";
+import { toNum } from "./utils";
+
+/*********************
+ * SIMULATION LOCATION MEUBLÉE (LMNP / LMP)
+ *********************/
+export type LocationMeubleeResult = {
+  capital: number;
+  mensualite: number;
+  assuranceMens: number;
+  totalRemboursementMensuel: number;
+  fraisNotaire: number;
+  fraisNotaireDetail: NotaryFeesBreakdown;
+  loyersAnn: number;
+  chargesAnn: number;
+  dotations: { bati: number; mobilier: number; travaux: number };
+  statut: StatutLoueurMeuble;
+  impotsAnn: number;
+  revenuAnnApresImpots: number;
+  cashflowMensApresImpots: number;
+  baseInvestie: number;
+  rendementNetApresImpots: number;
+  projection: LocationMeubleeYear[];
+  microEligible: boolean;
+  impotsParRegime: Record<RegimeBic, number>;
+  regimeRecommande: RegimeBic;
+};
+
+export type LocationMeubleeYear = {
+  annee: number;
+  loyers: number;
+  charges: number;
+  interets: number;
+  principal: number;
+  assurance: number;
+  statut: StatutLoueurMeuble;
+  dotationAmortissement: number;
+  amortissementDeduit: number;
+  amortissementDiffere: number;
+  deficitReportable: number;
+  revenuImposable: number;
+  impots: number;
+  cashflow: number;
+  crd: number;
+};
+
+export function simulateLocationMeublee(input: AppState["locationMeublee"]): LocationMeubleeResult {
+  const vPrix = toNum(input.prix);
+  const vApport = toNum(input.apport);
+  const vTaux = toNum(input.taux);
+  const vAssurance = toNum(input.assurance);
+  const vDuree = toNum(input.duree);
+  const vTrav = toNum(input.travauxInit);
+  const vMobilier = toNum(input.mobilier);
+  const vTerrain = Math.min(100, Math.max(0, toNum(input.partTerrain))) / 100;
+  const vTMI = Math.max(0, toNum(input.tmi)) / 100;
+  const vPS = Math.max(0, toNum(input.ps)) / 100;
+  const vCotisLmp = Math.max(0, toNum(input.tauxCotisationsLmp)) / 100;
+  const vAutresRevenus = toNum(input.autresRevenusActivite);
+
+  // Financement (mobilier et travaux payés comptant)
+  const capital = Math.max(0, vPrix - vApport);
+  const mensualite = annuityPayment(capital, vTaux, vDuree);
+  const assuranceMens = (capital * (vAssurance / 100)) / 12;
+  const totalRemboursementMensuel = mensualite + assuranceMens;
+
+  const fraisNotaireDetail = notaryFeesBreakdown(vPrix, { departement: input.departement, neuf: input.neuf });
+  const fraisNotaire = fraisNotaireDetail.total;
+
+  const loyersAnn = toNum(input.loyer) * 12;
+  const chargesAnn = toNum(input.charges) + toNum(input.taxe);
+
+  // Amortissement par composant (frais d'acquisition passés en charges la 1re année)
+  const dotations = {
+    bati: (vPrix * (1 - vTerrain)) / DUREES_AMORTISSEMENT.bati,
+    mobilier: vMobilier / DUREES_AMORTISSEMENT.mobilier,
+    travaux: vTrav / DUREES_AMORTISSEMENT.travaux,
+  };
+
+  const vDetention = Math.max(1, Math.min(50, Math.round(toNum(input.dureeDetention))));
+  const vIrl = toNum(input.indexLoyer) / 100;
+  const vInflation = toNum(input.inflationCharges) / 100;
+  const schedule = buildSchedule(capital, vTaux, vAssurance, vDuree, false);
+
+  const annees = yearlyLoanTotals(schedule, vDetention).map((pret, i) => ({
+    ...pret,
+    loyers: loyersAnn * Math.pow(1 + vIrl, i),
+    charges: toNum(input.charges) * Math.pow(1 + vInflation, i),
+    taxeFonciere: toNum(input.taxe) * Math.pow(1 + vInflation, i),
+    fraisAcquisition: i === 0 ? fraisNotaire : 0,
+    dotationAmortissement:
+      (i < DUREES_AMORTISSEMENT.bati ? dotations.bati : 0) +
+      (i < DUREES_AMORTISSEMENT.mobilier ? dotations.mobilier : 0) +
+      (i < DUREES_AMORTISSEMENT.travaux ? dotations.travaux : 0),
+  }));
+
+  // Fiscalité : les deux régimes sont calculés, le régime choisi alimente la projection
+  const opts = { tmi: vTMI, ps: vPS, tauxCotisationsLmp: vCotisLmp, autresRevenusActivite: vAutresRevenus };
+  const fiscalite = Object.fromEntries(REGIMES_BIC.map((r) => [r, impotsMeubles(r, annees, opts)])) as Record<
+    RegimeBic,
+    ReturnType<typeof impotsMeubles>
+  >;
+  const impotsParRegime = Object.fromEntries(
+    REGIMES_BIC.map((r) => [r, fiscalite[r].reduce((s, a) => s + a.impots, 0)])
+  ) as Record<RegimeBic, number>;
+  const microEligible = loyersAnn <= MICRO_BIC_PLAFOND;
+  const regimeRecommande: RegimeBic =
+    microEligible && impotsParRegime["Micro-BIC"] <= impotsParRegime["Réel BIC"] ? "Micro-BIC" : "Réel BIC";
+  const impotsRegime = fiscalite[input.regimeFiscal] ?? fiscalite["Réel BIC"];
+
+  const statut = impotsRegime[0].statut;
+  const impotsAnn = impotsRegime[0].impots;
+  const revenuAnnApresImpots = Math.max(0, loyersAnn - chargesAnn - impotsAnn);
+  const cashflowMensApresImpots = (revenuAnnApresImpots - totalRemboursementMensuel * 12) / 12;
+
+  const baseInvestie = vApport + fraisNotaire + vTrav + vMobilier;
+  const rendementNetApresImpots = baseInvestie > 0 ? (revenuAnnApresImpots / baseInvestie) * 100 : 0;
+
+  const projection: LocationMeubleeYear[] = annees.map((a, i) => {
+    const f = impotsRegime[i];
+    const charges = a.charges + a.taxeFonciere;
+    return {
+      annee: i + 1,
+      loyers: a.loyers,
+      charges,
+      interets: a.interets,
+      principal: a.principal,
+      assurance: a.assurance,
+      statut: f.statut,
+      dotationAmortissement: a.dotationAmortissement,
+      amortissementDeduit: f.amortissementDeduit,
+      amortissementDiffere: f.amortissementDiffere,
+      deficitReportable: f.deficitReportable,
+      revenuImposable: f.revenuImposable,
+      impots: f.impots,
+      cashflow: a.loyers - charges - f.impots - a.interets - a.principal - a.assurance,
+      crd: a.crd,
+    };
+  });
+
+  return {
+    capital,
+    mensualite,
+    assuranceMens,
+    totalRemboursementMensuel,
+    fraisNotaire,
+    fraisNotaireDetail,
+    loyersAnn,
+    chargesAnn,
+    dotations,
+    statut,
+    impotsAnn,
+    revenuAnnApresImpots,
+    cashflowMensApresImpots,
+    baseInvestie,
+    rendementNetApresImpots,
+    projection,
+    microEligible,
+    impotsParRegime,
+    regimeRecommande,
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { simulateLocationNue } from "./locationNue";
+import { DEFAULT_STATE } from "./state";
+
+const location = DEFAULT_STATE.locationNue;
+
+describe("simulateLocationNue", () => {
+  it("projection sur la durée de détention, revente nette du CRD la dernière année", () => {
+    const r = simulateLocationNue({ ...location, dureeDetention: "10" });
+    expect(r.capital).toBe(220000);
+    expect(r.projection).toHaveLength(10);
+    const fin = r.projection[9];
+    expect(fin.revente).toBeCloseTo(292000 * Math.pow(1.015, 10) * 0.94 - fin.crd, 6);
+    expect(r.projection.slice(0, 9).every((a) => a.revente === 0)).toBe(true);
+  });
+
+  it("micro-foncier : 1re année imposée sur 70 % des loyers", () => {
+    const r = simulateLocationNue(location);
+    expect(r.microEligible).toBe(true);
+    expect(r.impotsAnn).toBeCloseTo(740 * 12 * 0.7 * (0.3 + 0.172), 6);
+  });
+
+  it("les deux régimes sont chiffrés, le moins imposé est recommandé", () => {
+    const r = simulateLocationNue(location);
+    const moinsImpose = r.impotsParRegime["Micro-foncier"] <= r.impotsParRegime["Réel"] ? "Micro-foncier" : "Réel";
+    expect(r.regimeRecommande).toBe(moinsImpose);
+  });
+});
@@ -0,0 +1,192 @@
+import { buildSchedule, yearlyLoanTotals } from "./creditImmo";
+import { impotsFonciers, MICRO_FONCIER_PLAFOND, REGIMES_FONCIERS, type RegimeFoncier } from "./fiscaliteFonciere";
+import { annuityPayment, irr, npv } from "./finance";
+import { notaryFeesBreakdown, type NotaryFeesBreakdown } from "./notary";
+import type { AppState } from "./state";
+import { toNum } from "./utils";
+
+/*********************
+ * SIMULATION LOCATION NUE
+ *********************/
+export type LocationNueResult = {
+  capital: number;
+  mensualite: number;
+  assuranceMens: number;
+  totalRemboursementMensuel: number;
+  coutTotalInterets: number;
+  coutTotalAssurance: number;
+  fraisNotaire: number;
+  fraisNotaireDetail: NotaryFeesBreakdown;
+  loyersAnn: number;
+  chargesAnn: number;
+  serviceDetteAnn: number;
+  impotsAnn: number;
+  revenuAnnApresImpots: number;
+  cashflowAnnApresImpots: number;
+  cashflowMensApresImpots: number;
+  baseInvestie: number;
+  rendementNetApresImpots: number;
+  projection: LocationNueYear[];
+  prixRevente: number;
+  produitNetRevente: number;
+  triProjection: number;
+  vanProjection: number;
+  microEligible: boolean;
+  impotsParRegime: Record<RegimeFoncier, number>;
+  regimeRecommande: RegimeFoncier;
+};
+
+// Ligne annuelle de la projection (détention, revente la dernière année)
+export type LocationNueYear = {
+  annee: number;
+  loyers: number;
+  charges: number;
+  taxeFonciere: number;
+  interets: number;
+  principal: number;
+  assurance: number;
+  revenuImposable: number;
+  deficitImputeGlobal: number;
+  deficitReportable: number;
+  impots: number;
+  cashflow: number;
+  crd: number;
+  valeurBien: number;
+  revente: number;
+  fluxNet: number;
+  cashflowCumule: number;
+};
+
+export function simulateLocationNue(input: AppState["locationNue"]): LocationNueResult {
+  const vPrix = toNum(input.prix);
+  const vApport = toNum(input.apport);
+  const vTaux = toNum(input.taux);
+  const vAssurance = toNum(input.assurance);
+  const vDuree = toNum(input.duree);
+  const vTrav = toNum(input.travauxInit);
+  const vTMI = Math.max(0, toNum(input.tmiLoc)) / 100;
+  const vPS = Math.max(0, toNum(input.psLoc)) / 100;
+
+  const capital = Math.max(0, vPrix - vApport);
+  const mensualite = annuityPayment(capital, vTaux, vDuree);
+  const assuranceMens = (capital * (vAssurance / 100)) / 12;
+  const totalRemboursementMensuel = mensualite + assuranceMens;
+
+  const nbMois = vDuree * 12;
+  const totalRembourseCapitalAndInterest = mensualite * nbMois;
+  const coutTotalInterets = Math.max(0, totalRembourseCapitalAndInterest - capital);
+  const coutTotalAssurance = assuranceMens * nbMois;
+
+  const fraisNotaireDetail = notaryFeesBreakdown(vPrix, { departement: input.departement, neuf: input.neuf });
+  const fraisNotaire = fraisNotaireDetail.total;
+
+  const loyersAnn = toNum(input.loyer) * 12;
+  const chargesAnn = toNum(input.charges) + toNum(input.taxe);
+  const serviceDetteAnn = totalRemboursementMensuel * 12;
+
+  // Projection pluriannuelle : loyers indexés (IRL), charges et taxe foncière inflatées,
+  // amortissement réel du prêt, revente nette de frais et du CRD en fin de détention
+  const vDetention = Math.max(1, Math.min(50, Math.round(toNum(input.dureeDetention))));
+  const vIrl = toNum(input.indexLoyer) / 100;
+  const vInflation = toNum(input.inflationCharges) / 100;
+  const vHausse = toNum(input.hausseImmo) / 100;
+  const vFraisVente = Math.max(0, toNum(input.fraisVentePct)) / 100;
+  const vActu = toNum(input.tauxActualisation);
+  const schedule = buildSchedule(capital, vTaux, vAssurance, vDuree, false);
+
+  // Revenus et charges déductibles de chaque année (travaux initiaux déduits la 1re année)
+  const annees = yearlyLoanTotals(schedule, vDetention).map((pret, i) => ({
+    ...pret,
+    loyers: loyersAnn * Math.pow(1 + vIrl, i),
+    charges: toNum(input.charges) * Math.pow(1 + vInflation, i),
+    taxeFonciere: toNum(input.taxe) * Math.pow(1 + vInflation, i),
+    travaux: i === 0 ? vTrav : 0,
+  }));
+
+  // Fiscalité : les deux régimes sont calculés, le régime choisi alimente la projection
+  const fiscalite = Object.fromEntries(
+    REGIMES_FONCIERS.map((r) => [r, impotsFonciers(r, annees, vTMI, vPS)])
+  ) as Record<RegimeFoncier, ReturnType<typeof impotsFonciers>>;
+  const impotsParRegime = Object.fromEntries(
+    REGIMES_FONCIERS.map((r) => [r, fiscalite[r].reduce((s, a) => s + a.impots, 0)])
+  ) as Record<RegimeFoncier, number>;
+  const microEligible = loyersAnn <= MICRO_FONCIER_PLAFOND;
+  const regimeRecommande: RegimeFoncier =
+    microEligible && impotsParRegime["Micro-foncier"] <= impotsParRegime["Réel"] ? "Micro-foncier" : "Réel";
+  const impotsRegime = fiscalite[input.regimeFiscal] ?? fiscalite["Réel"];
+
+  const impotsAnn = impotsRegime[0].impots;
+  const revenuAnnApresImpots = Math.max(0, loyersAnn - chargesAnn - impotsAnn);
+  const cashflowAnnApresImpots = revenuAnnApresImpots - serviceDetteAnn;
+  const cashflowMensApresImpots = cashflowAnnApresImpots / 12;
+
+  const baseInvestie = vApport + fraisNotaire + vTrav;
+  const rendementNetApresImpots = baseInvestie > 0 ? (revenuAnnApresImpots / baseInvestie) * 100 : 0;
+
+  const projection: LocationNueYear[] = [];
+  const flux = [-baseInvestie];
+  let cashflowCumule = 0;
+  annees.forEach((a, i) => {
+    const y = i + 1;
+    const { revenuImposable, deficitImputeGlobal, deficitReportable, impots } = impotsRegime[i];
+    const cashflow = a.loyers - a.charges - a.taxeFonciere - impots - a.interets - a.principal - a.assurance;
+
+    const valeurBien = vPrix * Math.pow(1 + vHausse, y);
+    const revente = y === vDetention ? valeurBien * (1 - vFraisVente) - a.crd : 0;
+    const fluxNet = cashflow + revente;
+    cashflowCumule += cashflow;
+    flux.push(fluxNet);
+
+    projection.push({
+      annee: y,
+      loyers: a.loyers,
+      charges: a.charges,
+      taxeFonciere: a.taxeFonciere,
+      interets: a.interets,
+      principal: a.principal,
+      assurance: a.assurance,
+      revenuImposable,
+      deficitImputeGlobal,
+      deficitReportable,
+      impots,
+      cashflow,
+      crd: a.crd,
+      valeurBien,
+      revente,
+      fluxNet,
+      cashflowCumule,
+    });
+  });
+  const prixRevente = vPrix * Math.pow(1 + vHausse, vDetention);
+  const produitNetRevente = projection[projection.length - 1].revente;
+  const triProjection = baseInvestie > 0 ? irr(flux, 1) : NaN;
+  const vanProjection = npv(flux, vActu, 1);
+
+  return {
+    capital,
+    mensualite,
+    assuranceMens,
+    totalRemboursementMensuel,
+    coutTotalInterets,
+    coutTotalAssurance,
+    fraisNotaire,
+    fraisNotaireDetail,
+    loyersAnn,
+    chargesAnn,
+    serviceDetteAnn,
+    impotsAnn,
+    revenuAnnApresImpots,
+    cashflowAnnApresImpots,
+    cashflowMensApresImpots,
+    baseInvestie,
+    rendementNetApresImpots,
+    projection,
+    prixRevente,
+    produitNetRevente,
+    triProjection,
+    vanProjection,
+    microEligible,
+    impotsParRegime,
+    regimeRecommande,
+  };
+}
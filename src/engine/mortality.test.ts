@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { getEsperanceVie, getQx, lifeExpectancy, survivalCurve } from "./mortality";
+import { QX_MOMENT_F, QX_MOMENT_H, QX_PROSPECTIVE_F, QX_PROSPECTIVE_H } from "./mortalityTables";
+
+describe("tables de mortalité", () => {
+  it("121 âges, qx dans [0, 1], croissants à partir de 1 an", () => {
+    [QX_MOMENT_F, QX_MOMENT_H, QX_PROSPECTIVE_F, QX_PROSPECTIVE_H].forEach((t) => {
+      expect(t).toHaveLength(121);
+      t.forEach((q) => expect(q >= 0 && q <= 1).toBe(true));
+      for (let x = 2; x < t.length; x++) expect(t[x]).toBeGreaterThanOrEqual(t[x - 1]);
+    });
+  });
+});
+
+describe("getQx", () => {
+  it("table prospective : mortalité plus faible pour les générations récentes", () => {
+    const ancienne = getQx(70, "Femme", "Prospective approchée (base 2005)", 1935);
+    const recente = getQx(70, "Femme", "Prospective approchée (base 2005)", 1965);
+    expect(recente).toBeLessThan(ancienne);
+  });
+
+  it("âge limite : décès certain", () => {
+    expect(getQx(120, "Homme", "Prospective approchée (base 2005)", 1950)).toBe(1);
+  });
+});
+
+describe("survie et espérance de vie", () => {
+  it("survie linéaire sur 10 ans : 5 ans d'espérance", () => {
+    const S = Array.from({ length: 121 }, (_, m) => 1 - m / 120);
+    expect(lifeExpectancy(S)).toBeCloseTo(5, 10);
+  });
+
+  it("courbe de survie décroissante jusqu'à 120 ans", () => {
+    const S = survivalCurve(71, "Femme");
+    expect(S).toHaveLength((120 - 71) * 12 + 1);
+    expect(S[0]).toBe(1);
+    for (let m = 1; m < S.length; m++) expect(S[m]).toBeLessThanOrEqual(S[m - 1]);
+  });
+
+  it("femme de 71 ans : espérance plus longue qu'un homme, et en table prospective", () => {
+    const femme = getEsperanceVie(71, "Femme", "INSEE 2019-2021 approchée", 2026);
+    expect(femme).toBeCloseTo(17.88, 1);
+    expect(getEsperanceVie(71, "Homme", "INSEE 2019-2021 approchée", 2026)).toBeLessThan(femme);
+    expect(getEsperanceVie(71, "Femme", "Prospective approchée (base 2005)", 2026)).toBeGreaterThan(femme);
+  });
+
+  it("résultat indépendant de la date du jour pour une année de calcul donnée", () => {
+    expect(getEsperanceVie(80, "Homme", "Prospective approchée (base 2005)", 2030)).toBe(
+      getEsperanceVie(80, "Homme", "Prospective approchée (base 2005)", 2030)
+    );
+  });
+});
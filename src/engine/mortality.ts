@@ -0,0 +1,59 @@
+import { ANNEE_BASE_PROSPECTIVE, ANNEE_CALCUL_MORTALITE, ameliorationProspective, QX_MOMENT_F, QX_MOMENT_H, QX_PROSPECTIVE_F, QX_PROSPECTIVE_H } from "./mortalityTables";
+
+/*********************
+ * TABLES DE MORTALITÉ & SURVIE
+ *********************/
+// Tables approchées (voir mortalityTables.ts) : le libellé le dit, pour ne pas les confondre avec les séries officielles
+export const MORTALITY_TABLES = ["INSEE 2019-2021 approchée", "Prospective approchée (base 2005)"] as const;
+export type MortalityTable = (typeof MORTALITY_TABLES)[number];
+
+const AGE_MAX = 120;
+
+const isHomme = (sexe: string) => sexe.toLowerCase().startsWith("h");
+
+// qx d'une personne d'âge entier `age`, née en `anneeNaissance` (utilisé par la table prospective)
+export function getQx(age: number, sexe: string, table: MortalityTable, anneeNaissance: number) {
+  const x = Math.max(0, Math.min(AGE_MAX, Math.floor(age)));
+  if (table === "Prospective approchée (base 2005)") {
+    const base = (isHomme(sexe) ? QX_PROSPECTIVE_H : QX_PROSPECTIVE_F)[x];
+    const annees = anneeNaissance + x - ANNEE_BASE_PROSPECTIVE;
+    return x >= AGE_MAX ? 1 : Math.min(1, base * Math.pow(1 - ameliorationProspective(x), annees));
+  }
+  return (isHomme(sexe) ? QX_MOMENT_H : QX_MOMENT_F)[x];
+}
+
+// Probabilités de survie mensuelles S[m] (m = 0..mois), force de mortalité constante dans l'année d'âge
+export function survivalCurve(
+  age: number,
+  sexe: string,
+  table: MortalityTable = "INSEE 2019-2021 approchée",
+  months = (AGE_MAX - Math.floor(age)) * 12,
+  anneeRef = ANNEE_CALCUL_MORTALITE
+) {
+  const anneeNaissance = anneeRef - Math.floor(age);
+  const S = [1];
+  let s = 1;
+  for (let m = 1; m <= months; m++) {
+    const q = getQx(age + (m - 1) / 12, sexe, table, anneeNaissance);
+    s *= Math.pow(1 - q, 1 / 12);
+    S.push(s);
+  }
+  return S;
+}
+
+// Espérance de vie (années) à partir d'une courbe de survie mensuelle
+export function lifeExpectancy(S: number[]) {
+  let total = 0;
+  for (let m = 1; m < S.length; m++) total += (S[m - 1] + S[m]) / 2;
+  return total / 12;
+}
+
+// Espérance de vie résiduelle (années), intégrée sur la courbe de survie mensuelle
+export function getEsperanceVie(
+  age: number,
+  sexe: string,
+  table: MortalityTable = "INSEE 2019-2021 approchée",
+  anneeRef = ANNEE_CALCUL_MORTALITE
+) {
+  return lifeExpectancy(survivalCurve(age, sexe, table, undefined, anneeRef));
+}
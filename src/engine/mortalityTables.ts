@@ -0,0 +1,91 @@
+/*********************
+ * TABLES DE MORTALITÉ APPROCHÉES (qx annuels, âges 0 à 120)
+ *********************/
+// qx = probabilité de décéder dans l'année entre l'âge x et x+1 (index du tableau = âge).
+// Ce ne sont PAS les séries officielles : chaque table est une loi de Gompertz-Makeham (mu(x) = A + B·c^x)
+// calée sur les espérances de vie publiées (INSEE 2019-2021 pour la table du moment, population assurée
+// 2005 pour la base prospective), appliquée de 1 à 119 ans ; seule la mortalité infantile (âge 0) est
+// reprise telle quelle. La bosse de mortalité des jeunes adultes n'est donc pas représentée.
+// Le format est celui des séries officielles : on peut les substituer âge par âge sans toucher au moteur.
+
+// Table du moment, approchée (espérances de vie INSEE 2019-2021)
+export const QX_MOMENT_F: number[] = [
+  0.0033, 0.000123, 0.000124, 0.000124, 0.000124, 0.000125, 0.000125, 0.000126, 0.000127, 0.000127,
+  0.000128, 0.000129, 0.00013, 0.000132, 0.000133, 0.000134, 0.000136, 0.000138, 0.00014, 0.000143,
+  0.000146, 0.000149, 0.000152, 0.000156, 0.000161, 0.000166, 0.000172, 0.000178, 0.000185, 0.000193,
+  0.000203, 0.000213, 0.000224, 0.000238, 0.000252, 0.000269, 0.000288, 0.000309, 0.000333, 0.00036,
+  0.000391, 0.000425, 0.000464, 0.000507, 0.000556, 0.000611, 0.000674, 0.000744, 0.000823, 0.000912,
+  0.001012, 0.001125, 0.001252, 0.001395, 0.001556, 0.001738, 0.001943, 0.002173, 0.002433, 0.002725,
+  0.003055, 0.003425, 0.003843, 0.004313, 0.004843, 0.005439, 0.006111, 0.006867, 0.007718, 0.008675,
+  0.009753, 0.010966, 0.012331, 0.013866, 0.015593, 0.017535, 0.019717, 0.022171, 0.024928, 0.028024,
+  0.031501, 0.035403, 0.03978, 0.044687, 0.050186, 0.056343, 0.063231, 0.070932, 0.079531, 0.089124,
+  0.099812, 0.111703, 0.12491, 0.139555, 0.155761, 0.173653, 0.193356, 0.214991, 0.238671, 0.264495,
+  0.29254, 0.322856, 0.355457, 0.390309, 0.427321, 0.466334, 0.507112, 0.549332, 0.592581, 0.636353,
+  0.68006, 0.72304, 0.764586, 0.803974, 0.840512, 0.873585, 0.902704, 0.927558, 0.948039, 0.964266,
+  1,
+];
+
+export const QX_MOMENT_H: number[] = [
+  0.004, 0.000417, 0.000419, 0.000421, 0.000423, 0.000426, 0.000429, 0.000432, 0.000435, 0.000439,
+  0.000443, 0.000447, 0.000452, 0.000458, 0.000464, 0.000471, 0.000479, 0.000487, 0.000496, 0.000507,
+  0.000518, 0.000531, 0.000545, 0.00056, 0.000577, 0.000596, 0.000617, 0.00064, 0.000666, 0.000695,
+  0.000726, 0.000761, 0.000799, 0.000842, 0.000889, 0.000942, 0.001, 0.001064, 0.001135, 0.001214,
+  0.001302, 0.001398, 0.001505, 0.001624, 0.001755, 0.0019, 0.00206, 0.002238, 0.002435, 0.002653,
+  0.002894, 0.003161, 0.003457, 0.003784, 0.004146, 0.004547, 0.00499, 0.005481, 0.006024, 0.006625,
+  0.00729, 0.008026, 0.00884, 0.009741, 0.010737, 0.011839, 0.013057, 0.014404, 0.015894, 0.017541,
+  0.019361, 0.021372, 0.023594, 0.026048, 0.028758, 0.03175, 0.035051, 0.038694, 0.042711, 0.047139,
+  0.052018, 0.057391, 0.063304, 0.069808, 0.076957, 0.084807, 0.093422, 0.102865, 0.113206, 0.124516,
+  0.136871, 0.150347, 0.165022, 0.180975, 0.198283, 0.21702, 0.237255, 0.259049, 0.282455, 0.307508,
+  0.334227, 0.36261, 0.392626, 0.424214, 0.457275, 0.49167, 0.527216, 0.56368, 0.600781, 0.638191,
+  0.675536, 0.712404, 0.748358, 0.782947, 0.815726, 0.846277, 0.87423, 0.89929, 0.921256, 0.940033,
+  1,
+];
+
+// Base de la table prospective approchée : qx de l'année 2005 (espérances de vie de la population
+// assurée, comme TGF05 / TGH05), projetés avec la baisse uniforme d'ameliorationProspective.
+// Les tables générationnelles réglementaires ont des taux d'amélioration propres à chaque génération.
+export const ANNEE_BASE_PROSPECTIVE = 2005;
+
+// Année de calcul de la table prospective (génération = année de calcul - âge) : fixée plutôt que lue sur
+// l'horloge, pour que les mêmes saisies (liens, scénarios) donnent les mêmes résultats d'une année sur
+// l'autre ; à avancer lors de la mise à jour des tables.
+export const ANNEE_CALCUL_MORTALITE = 2026;
+
+export const QX_PROSPECTIVE_F: number[] = [
+  0.0033, 0.000102, 0.000102, 0.000103, 0.000103, 0.000103, 0.000104, 0.000104, 0.000105, 0.000106,
+  0.000106, 0.000107, 0.000108, 0.000109, 0.00011, 0.000111, 0.000113, 0.000114, 0.000116, 0.000118,
+  0.000121, 0.000123, 0.000126, 0.00013, 0.000133, 0.000138, 0.000142, 0.000148, 0.000154, 0.000161,
+  0.000168, 0.000177, 0.000187, 0.000198, 0.00021, 0.000224, 0.00024, 0.000258, 0.000278, 0.0003,
+  0.000325, 0.000354, 0.000386, 0.000422, 0.000463, 0.000508, 0.00056, 0.000618, 0.000684, 0.000757,
+  0.00084, 0.000934, 0.001039, 0.001158, 0.001292, 0.001442, 0.001612, 0.001802, 0.002017, 0.002259,
+  0.002532, 0.002839, 0.003185, 0.003574, 0.004012, 0.004506, 0.005061, 0.005687, 0.006391, 0.007183,
+  0.008074, 0.009078, 0.010207, 0.011477, 0.012906, 0.014513, 0.01632, 0.018351, 0.020634, 0.0232,
+  0.026081, 0.029317, 0.032949, 0.037023, 0.041592, 0.046713, 0.052448, 0.058866, 0.066044, 0.074064,
+  0.083015, 0.092993, 0.104103, 0.116455, 0.130164, 0.145351, 0.16214, 0.180657, 0.201025, 0.223361,
+  0.247774, 0.274355, 0.303173, 0.334264, 0.367628, 0.403211, 0.440899, 0.480508, 0.521774, 0.564343,
+  0.607773, 0.651529, 0.694999, 0.737504, 0.778331, 0.816765, 0.852138, 0.883873, 0.91154, 0.934894,
+  1,
+];
+
+export const QX_PROSPECTIVE_H: number[] = [
+  0.004, 0.000312, 0.000313, 0.000315, 0.000316, 0.000318, 0.00032, 0.000322, 0.000325, 0.000328,
+  0.000331, 0.000334, 0.000338, 0.000342, 0.000347, 0.000352, 0.000357, 0.000364, 0.000371, 0.000378,
+  0.000387, 0.000396, 0.000407, 0.000419, 0.000432, 0.000446, 0.000462, 0.00048, 0.000499, 0.000521,
+  0.000545, 0.000572, 0.000602, 0.000635, 0.000671, 0.000712, 0.000757, 0.000806, 0.000861, 0.000922,
+  0.00099, 0.001065, 0.001148, 0.001241, 0.001343, 0.001456, 0.001582, 0.001721, 0.001876, 0.002047,
+  0.002237, 0.002448, 0.002681, 0.00294, 0.003226, 0.003544, 0.003897, 0.004287, 0.00472, 0.0052,
+  0.005731, 0.006321, 0.006974, 0.007697, 0.008498, 0.009386, 0.01037, 0.011459, 0.012666, 0.014002,
+  0.015482, 0.017119, 0.018932, 0.020938, 0.023158, 0.025613, 0.028328, 0.03133, 0.034647, 0.038312,
+  0.04236, 0.046828, 0.051758, 0.057194, 0.063185, 0.069784, 0.077046, 0.085033, 0.093807, 0.103438,
+  0.113997, 0.125559, 0.138203, 0.152009, 0.167059, 0.183434, 0.201214, 0.220477, 0.241293, 0.263725,
+  0.287822, 0.313621, 0.341135, 0.370355, 0.401242, 0.43372, 0.467678, 0.502954, 0.539342, 0.576583,
+  0.614366, 0.652331, 0.690074, 0.727152, 0.763101, 0.797451, 0.829747, 0.859572, 0.886575, 0.910489,
+  1,
+];
+
+// Taux annuel de baisse de la mortalité par âge (1,5 %/an jusqu'à 85 ans, nul à 110 ans et au-delà)
+export function ameliorationProspective(age: number) {
+  if (age <= 85) return 0.015;
+  if (age >= 110) return 0;
+  return (0.015 * (110 - age)) / 25;
+}
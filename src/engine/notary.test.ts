@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { getTauxDepartemental } from "./departements";
+import { calculateNotaryFees, notaryEmoluments, notaryFeesBreakdown, transferDuties } from "./notary";
+
+describe("frais de notaire", () => {
+  it("émoluments tranche par tranche pour 100 000 €", () => {
+    // 6 500 × 3,87 % + 10 500 × 1,596 % + 43 000 × 1,064 % + 40 000 × 0,799 %
+    expect(notaryEmoluments(100000)).toBeCloseTo(1196.25, 2);
+  });
+
+  it("décomposition pour 100 000 € à Paris (ancien)", () => {
+    const d = notaryFeesBreakdown(100000, { departement: "75" });
+    expect(d.tva).toBeCloseTo(239.25, 2);
+    expect(d.droitsMutation).toBeCloseTo(6318.5, 2);
+    expect(d.csi).toBe(100);
+    expect(d.debours).toBe(1200);
+    expect(d.total).toBeCloseTo(9054, 2);
+    expect(calculateNotaryFees(100000, { departement: "75" })).toBe(d.total);
+  });
+
+  it("neuf : taxe de publicité foncière réduite", () => {
+    expect(transferDuties(100000, "75", true)).toBeCloseTo(714.98, 2);
+  });
+
+  it("taux départemental relevé, maintenu, réduit et taux par défaut", () => {
+    expect(getTauxDepartemental("75")).toBe(5);
+    expect(getTauxDepartemental("38")).toBe(4.5);
+    expect(getTauxDepartemental("36")).toBe(3.8);
+    expect(getTauxDepartemental("999")).toBe(4.5);
+  });
+
+  it("prix nul : aucun frais", () => {
+    expect(notaryFeesBreakdown(0).total).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { getTauxDepartemental } from "./departements";
+
+/*********************
+ * FRAIS DE NOTAIRE (ACQUISITION)
+ *********************/
+// Barème des émoluments proportionnels de vente (HT), par tranche
+const EMOLUMENTS_TRANCHES = [
+  { plafond: 6500, taux: 0.0387 },
+  { plafond: 17000, taux: 0.01596 },
+  { plafond: 60000, taux: 0.01064 },
+  { plafond: Infinity, taux: 0.00799 },
+];
+const TVA = 0.2;
+const TAXE_COMMUNALE = 0.012;
+const FRAIS_ASSIETTE_DEPARTEMENT = 0.0237; // sur la part départementale
+const TPF_NEUF = 0.007; // taxe de publicité foncière réduite (VEFA)
+const FRAIS_ASSIETTE_NEUF = 0.0214;
+const CSI_TAUX = 0.001; // contribution de sécurité immobilière
+const CSI_MIN = 15;
+export const DEBOURS_DEFAUT = 1200; // débours et formalités (forfait)
+
+export type NotaryFeesOptions = {
+  departement?: string;
+  neuf?: boolean;
+  debours?: number;
+};
+
+export type NotaryFeesBreakdown = {
+  emolumentsHT: number;
+  tva: number;
+  droitsMutation: number;
+  csi: number;
+  debours: number;
+  total: number;
+};
+
+// Émoluments réglementés du notaire (HT), calculés tranche par tranche
+export function notaryEmoluments(price: number) {
+  let reste = price;
+  let bas = 0;
+  let total = 0;
+  for (const { plafond, taux } of EMOLUMENTS_TRANCHES) {
+    if (reste <= 0) break;
+    const part = Math.min(reste, plafond - bas);
+    total += part * taux;
+    reste -= part;
+    bas = plafond;
+  }
+  return total;
+}
+
+// Droits de mutation : taxe départementale + taxe communale + frais d'assiette (ou TPF réduite en neuf)
+export function transferDuties(price: number, departement = "", neuf = false) {
+  if (neuf) return price * TPF_NEUF * (1 + FRAIS_ASSIETTE_NEUF);
+  const tauxDep = getTauxDepartemental(departement) / 100;
+  return price * (tauxDep * (1 + FRAIS_ASSIETTE_DEPARTEMENT) + TAXE_COMMUNALE);
+}
+
+export function notaryFeesBreakdown(price: number, opts: NotaryFeesOptions = {}): NotaryFeesBreakdown {
+  if (price <= 0) return { emolumentsHT: 0, tva: 0, droitsMutation: 0, csi: 0, debours: 0, total: 0 };
+  const emolumentsHT = notaryEmoluments(price);
+  const tva = emolumentsHT * TVA;
+  const droitsMutation = transferDuties(price, opts.departement, opts.neuf);
+  const csi = Math.max(CSI_MIN, price * CSI_TAUX);
+  const debours = opts.debours ?? DEBOURS_DEFAUT;
+  return {
+    emolumentsHT,
+    tva,
+    droitsMutation,
+    csi,
+    debours,
+    total: emolumentsHT + tva + droitsMutation + csi + debours,
+  };
+}
+
+export function calculateNotaryFees(price: number, opts: NotaryFeesOptions = {}) {
+  return notaryFeesBreakdown(price, opts).total;
+}
+
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { appliquerPartage, decoderPartage, encoderPartage, tranchesPartagees } from "./partage";
+import { DEFAULT_STATE } from "./state";
+
+describe("liens de partage", () => {
+  it("aller-retour : seul l'onglet partagé est repris", () => {
+    const state = { ...DEFAULT_STATE, scpi: { ...DEFAULT_STATE.scpi, montant: "75000" } };
+    const lecture = decoderPartage(encoderPartage("SCPI", state));
+    expect(lecture?.onglet).toBe("SCPI");
+    expect(lecture?.tranches).toEqual(["scpi"]);
+    expect(lecture?.anomalies).toEqual([]);
+
+    const local = { ...DEFAULT_STATE, viager: { ...DEFAULT_STATE.viager, age: "80" } };
+    const applique = appliquerPartage(local, lecture!);
+    expect(applique.scpi.montant).toBe("75000");
+    expect(applique.viager.age).toBe("80");
+  });
+
+  it("un état par défaut donne un lien court", () => {
+    expect(encoderPartage("Viager", DEFAULT_STATE).length).toBeLessThan(60);
+  });
+
+  it("tranches nécessaires au calcul de l'onglet", () => {
+    expect(tranchesPartagees("Location nue")).toEqual(["locationNue", "capacite"]);
+    expect(tranchesPartagees("Comparatif")).toEqual(Object.keys(DEFAULT_STATE));
+  });
+
+  it("code illisible : null", () => {
+    expect(decoderPartage("pas-un-code")).toBeNull();
+  });
+});
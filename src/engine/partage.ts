@@ -0,0 +1,69 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+import { restaurerEtat, VERSION_ETAT, type RestaurationEtat } from "./schema";
+import { CLES_ONGLETS, DEFAULT_STATE, estOngletSimulateur, type AppState, type OngletSimulateur } from "./state";
+
+/*********************
+ * LIENS DE PARTAGE COMPACTS
+ *********************/
+// Le lien ne contient que l'onglet partagé : pour chaque tranche utile à son calcul, les seuls champs
+// différents de l'état par défaut. Le JSON { v, o, d } est compressé (lz-string) en caractères sûrs
+// pour une URL. À l'ouverture, ces tranches sont reconstituées puis migrées et contrôlées comme un état.
+type ContenuPartage = {
+  v: number; // version du schéma
+  o: OngletSimulateur;
+  d: Partial<Record<keyof AppState, Record<string, unknown>>>;
+};
+
+// Tranches nécessaires au calcul d'un onglet (Location nue lit le foyer, le comparatif toutes les stratégies)
+export function tranchesPartagees(onglet: OngletSimulateur): (keyof AppState)[] {
+  if (onglet === "Comparatif") return Object.keys(DEFAULT_STATE) as (keyof AppState)[];
+  if (onglet === "Location nue") return ["locationNue", "capacite"];
+  return [CLES_ONGLETS[onglet]];
+}
+
+// Champs différents de la valeur par défaut (listes comparées en bloc)
+function ecartsTranche<K extends keyof AppState>(cle: K, tranche: AppState[K]) {
+  const defaut = DEFAULT_STATE[cle] as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(tranche as Record<string, unknown>).filter(([champ, v]) => JSON.stringify(v) !== JSON.stringify(defaut[champ]))
+  );
+}
+
+export function encoderPartage(onglet: OngletSimulateur, state: AppState): string {
+  const d: ContenuPartage["d"] = {};
+  tranchesPartagees(onglet).forEach((cle) => {
+    const ecarts = ecartsTranche(cle, state[cle]);
+    if (Object.keys(ecarts).length) d[cle] = ecarts;
+  });
+  const contenu: ContenuPartage = { v: VERSION_ETAT, o: onglet, d };
+  return compressToEncodedURIComponent(JSON.stringify(contenu));
+}
+
+export type LecturePartage = RestaurationEtat & {
+  onglet: OngletSimulateur;
+  tranches: (keyof AppState)[]; // tranches fournies par le lien, les autres restent à leur valeur locale
+};
+
+// null si le code est tronqué ou illisible
+export function decoderPartage(code: string): LecturePartage | null {
+  try {
+    const json = decompressFromEncodedURIComponent(code);
+    if (!json) return null;
+    const contenu = JSON.parse(json) as Partial<ContenuPartage>;
+    if (typeof contenu !== "object" || contenu === null || typeof contenu.o !== "string" || !estOngletSimulateur(contenu.o)) return null;
+
+    const d = typeof contenu.d === "object" && contenu.d !== null ? contenu.d : {};
+    const tranches = tranchesPartagees(contenu.o);
+    const brut: Record<string, unknown> = { version: contenu.v };
+    tranches.forEach((cle) => (brut[cle] = { ...DEFAULT_STATE[cle], ...d[cle] }));
+    const restauration = restaurerEtat(brut);
+    return restauration && { ...restauration, onglet: contenu.o, tranches };
+  } catch {
+    return null;
+  }
+}
+
+// Tranches du lien appliquées à l'état local (les autres onglets conservent leurs saisies)
+export function appliquerPartage(state: AppState, lecture: LecturePartage): AppState {
+  return { ...state, ...Object.fromEntries(lecture.tranches.map((cle) => [cle, lecture.state[cle]])) };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { formatValeurRapport, sectionRapport } from "./rapport";
+import { DEFAULT_STATE, ONGLETS_SIMULATEURS } from "./state";
+
+describe("formatValeurRapport", () => {
+  it("nombre au format FR avec son unité", () => {
+    expect(formatValeurRapport({ libelle: "TAEG", valeur: 3.456, unite: "%" })).toBe("3,46 %");
+    expect(formatValeurRapport({ libelle: "Durée", valeur: 12, unite: "ans", decimales: 0 })).toBe("12 ans");
+  });
+
+  it("valeur indéfinie ou texte", () => {
+    expect(formatValeurRapport({ libelle: "TRI", valeur: NaN, unite: "%" })).toBe("—");
+    expect(formatValeurRapport({ libelle: "Mode", valeur: "Viager libre" })).toBe("Viager libre");
+  });
+});
+
+describe("sectionRapport", () => {
+  it("chaque onglet produit paramètres, résultats et hypothèses", () => {
+    ONGLETS_SIMULATEURS.forEach((onglet) => {
+      const s = sectionRapport(onglet, DEFAULT_STATE);
+      expect(s.onglet).toBe(onglet);
+      expect(s.parametres.length).toBeGreaterThan(0);
+      expect(s.resultats.length).toBeGreaterThan(0);
+      expect(s.hypotheses.length).toBeGreaterThan(0);
+    });
+  });
+});
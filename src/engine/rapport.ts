@@ -0,0 +1,537 @@
+import { simulateCapaciteEmprunt } from "./capaciteEmprunt";
+import { compareStrategies, STRATEGIES } from "./comparaison";
+import { simulateCreditImmo, yearlyLoanTotals } from "./creditImmo";
+import { simulateLocalCommercial } from "./localCommercial";
+import { simulateLocationMeublee } from "./locationMeublee";
+import { simulateLocationNue } from "./locationNue";
+import { simulateScpi } from "./scpi";
+import type { AppState, OngletSimulateur } from "./state";
+import { toNum } from "./utils";
+import { simulateViager } from "./viager";
+
+/*********************
+ * CONTENU DES RAPPORTS (PDF, tableur)
+ *********************/
+// Chaque simulateur est décrit sous une forme neutre : paramètres et résultats (libellé, valeur, unité),
+// séries de graphiques, tableaux et hypothèses. Les valeurs restent numériques ; la mise en forme
+// (texte FR pour le PDF, formats de cellule pour le tableur) est laissée à chaque export.
+
+export const AVERTISSEMENT_RAPPORT =
+  "Données indicatives — calculs simplifiés. Les résultats reposent sur les hypothèses saisies et ne constituent pas un conseil financier, juridique ou fiscal. " +
+  "Consultez un notaire / CGP / expert pour un conseil personnalisé.";
+
+export type UniteRapport = "€" | "€/mois" | "€/an" | "%" | "%/an" | "ans" | "mois" | "pts" | "";
+
+export type LigneRapport = {
+  libelle: string;
+  valeur: number | string;
+  unite?: UniteRapport;
+  decimales?: number;
+};
+
+// `totaux` : colonnes sommées en pied de tableau ; `solde` : colonne égale, à partir de la deuxième
+// ligne, à sa valeur précédente diminuée des colonnes listées (CRD). Le tableur les écrit en formules.
+export type TableauRapport = {
+  titre: string;
+  colonnes: string[];
+  lignes: (number | string)[][];
+  totaux?: number[];
+  solde?: { colonne: number; diminutions: number[] };
+};
+
+export type GraphiqueRapport = {
+  titre: string;
+  abscisse: { cle: string; libelle: string };
+  series: { cle: string; nom: string }[];
+  donnees: Record<string, number>[];
+};
+
+export type SectionRapport = {
+  onglet: OngletSimulateur;
+  titre: string;
+  parametres: LigneRapport[];
+  resultats: LigneRapport[];
+  graphiques: GraphiqueRapport[];
+  tableaux: TableauRapport[];
+  hypotheses: string[];
+};
+
+// Valeur affichée en texte FR (« — » pour une valeur indéfinie)
+export function formatValeurRapport(l: LigneRapport) {
+  if (typeof l.valeur === "string") return l.valeur;
+  if (!Number.isFinite(l.valeur)) return "—";
+  const d = l.decimales ?? 2;
+  const n = l.valeur.toLocaleString("fr-FR", { maximumFractionDigits: d, minimumFractionDigits: d });
+  return l.unite ? `${n} ${l.unite}` : n;
+}
+
+// Paramètres saisis (texte) convertis en nombres
+const num = (libelle: string, v: string, unite: UniteRapport = "", decimales = 2): LigneRapport => ({ libelle, valeur: toNum(v), unite, decimales });
+const res = (libelle: string, valeur: number, unite: UniteRapport = "€", decimales = 2): LigneRapport => ({ libelle, valeur, unite, decimales });
+const txt = (libelle: string, valeur: string): LigneRapport => ({ libelle, valeur });
+const oui = (libelle: string, valeur: boolean): LigneRapport => ({ libelle, valeur: valeur ? "Oui" : "Non" });
+
+const parametresPret = (d: { taux: string; assurance: string; duree: string }) => [
+  num("Taux du prêt", d.taux, "%/an"),
+  num("Assurance emprunteur", d.assurance, "%/an"),
+  num("Durée du prêt", d.duree, "ans", 0),
+];
+
+function sectionCapacite(d: AppState["capacite"]): SectionRapport {
+  const r = simulateCapaciteEmprunt(d);
+  return {
+    onglet: "Capacité d'emprunt",
+    titre: "Capacité d'emprunt (norme HCSF)",
+    parametres: [
+      num("Revenus nets mensuels du foyer", d.revenusMensuels, "€/mois"),
+      num("Loyers perçus", d.loyersPercus, "€/mois"),
+      num("Mensualités de crédits en cours", d.creditsEnCours, "€/mois"),
+      num("Personnes dans le foyer", d.personnesFoyer, "", 0),
+      num("Taux nominal", d.taux, "%/an"),
+      num("Assurance emprunteur", d.assurance, "%/an"),
+      num("Durée", d.duree, "ans", 0),
+      num("Taux d'endettement maximal", d.tauxEndettementMax, "%"),
+    ],
+    resultats: [
+      res("Capital empruntable", r.capitalMax, "€", 0),
+      res("Mensualité maximale (assurance incl.)", r.mensualiteMax, "€/mois"),
+      res("Revenus retenus", r.revenusRetenus, "€/mois"),
+      res("Taux d'endettement actuel", r.tauxEndettementActuel, "%"),
+      res("Reste à vivre", r.resteAVivre, "€/mois"),
+      res("Reste à vivre par personne", r.resteAVivreParPersonne, "€/mois"),
+      res("Durée retenue", r.dureeRetenue, "ans", 0),
+      res("Coût des intérêts", r.coutTotalInterets),
+    ],
+    graphiques: [],
+    tableaux: [],
+    hypotheses: [
+      "Taux d'effort assurance comprise plafonné à 35 % et durée à 25 ans (recommandation HCSF).",
+      "Revenus locatifs retenus à 70 % (pratique bancaire usuelle).",
+    ],
+  };
+}
+
+function sectionCredit(d: AppState["creditImmo"]): SectionRapport {
+  const r = simulateCreditImmo(d);
+  const variable = d.typeTaux === "Variable capé";
+  const parametres = [
+    num("Capital emprunté", d.capital, "€", 0),
+    txt("Type de taux", d.typeTaux),
+    num(variable ? "Taux fixe de comparaison" : "Taux nominal", d.taux, "%/an"),
+    num("Assurance emprunteur", d.assurance, "%/an"),
+    num("Durée", d.duree, "ans", 0),
+    oui("Assurance sur CRD", d.assuranceSurCRD),
+    txt("Type de prêt", d.typeAmortissement),
+    txt("Différé", d.differe === "Aucun" ? "Aucun" : `${d.differe} (${toNum(d.differeMois)} mois)`),
+    num("Frais de dossier", d.fraisDossier, "€", 0),
+    txt("Garantie", d.garantie),
+    num("Frais de garantie", d.garantie === "Aucune" ? "0" : d.fraisGarantie, "€", 0),
+    num("Frais de courtage", d.fraisCourtage, "€", 0),
+  ];
+  if (variable) {
+    parametres.push(
+      num("Indice initial (Euribor)", d.indexInitial, "%"),
+      num("Marge de la banque", d.marge, "%"),
+      num("Cap (hausse maximale)", d.cap, "pts"),
+      num("Plancher (baisse maximale)", d.plancher, "pts"),
+      num("Révision tous les", d.revisionMois, "mois", 0),
+      txt("Après révision", d.ajustementRevision),
+      txt("Scénario d'indice", d.scenarioIndex)
+    );
+  }
+
+  const tableaux: TableauRapport[] = [];
+  if (r.lignes.length > 1) {
+    tableaux.push({
+      titre: "Plan de financement",
+      colonnes: ["Ligne", "Montant (€)", "Taux (%)", "Durée (mois)", "Échéance hors ass. (€)", "Intérêts (€)", "Assurance (€)"],
+      lignes: r.lignes.map((l) => [l.libelle, l.montant, l.tauxPct, l.dureeMois, l.echeanceInitiale, l.totalInterets, l.totalAssurance]),
+      totaux: [1, 5, 6],
+    });
+  }
+  if (r.scenariosTaux.length) {
+    tableaux.push({
+      titre: "Scénarios de taux – prêt principal",
+      colonnes: ["Scénario", "Taux min (%)", "Taux max (%)", "Mensualité max (€)", "Durée (mois)", "Intérêts (€)", "Coût total (€)"],
+      lignes: r.scenariosTaux.map((s) => [s.scenario, s.tauxMin, s.tauxMax, s.mensualiteMax, s.dureeMois, s.totalInterets, s.coutTotal]),
+    });
+  }
+  tableaux.push({
+    titre: "Tableau d'amortissement",
+    colonnes: ["Mois", "Échéance (€)", "Capital (€)", "Intérêts (€)", "Assurance (€)", "Remb. anticipé (€)", "IRA (€)", "CRD (€)"],
+    lignes: r.schedule.map((row) => [row.mois, row.echeance, row.principal, row.interets, row.assurance, row.remboursementAnticipe, row.indemnites, row.crd]),
+    totaux: [1, 2, 3, 4, 5, 6],
+    solde: { colonne: 7, diminutions: [2, 5] },
+  });
+
+  return {
+    onglet: "Crédit immobilier",
+    titre: "Crédit immobilier",
+    parametres,
+    resultats: [
+      res("Mensualité (hors assur.)", r.mensuHorsAss, "€/mois"),
+      res("Assurance (moyenne)", r.assMensMoyenne, "€/mois"),
+      res("Mensualité (moyenne)", r.mensuTotMoyenne, "€/mois"),
+      res("Capital total financé", r.capitalTotal, "€", 0),
+      res("Total des intérêts", r.totalInterets),
+      res("Total de l'assurance", r.totalAssurance),
+      res("Indemnités de remboursement anticipé", r.totalIndemnites),
+      res("Coût total (intérêts + assurance + IRA)", r.coutTotal),
+      res("Durée effective", r.dureeEffectiveMois, "mois", 0),
+      res("TAEG", r.taeg.taeg, "%"),
+      res(`Seuil de l'usure (${r.taeg.trancheUsure})`, r.taeg.seuilUsure, "%"),
+      res("Coût total du crédit (frais inclus)", r.taeg.coutTotalCredit),
+    ],
+    graphiques: [
+      {
+        titre: "Capital restant dû et coûts cumulés",
+        abscisse: { cle: "mois", libelle: "Mois" },
+        series: [
+          { cle: "crd", nom: "Capital restant dû" },
+          { cle: "cumulInterets", nom: "Intérêts cumulés" },
+          { cle: "cumulAssurance", nom: "Assurance cumulée" },
+        ],
+        donnees: r.chartData,
+      },
+    ],
+    tableaux,
+    hypotheses: [
+      "TAEG actuariel (art. R314-3 C. conso.) : assurance, frais de dossier, garantie et courtage inclus.",
+      "Indemnités de remboursement anticipé plafonnées à 6 mois d'intérêts et 3 % du capital restant dû.",
+      ...(variable ? ["Taux variable : indice + marge, variation bornée par le cap et le plancher ; les scénarios +2 pts et -1 pt atteignent leur niveau en deux ans."] : []),
+    ],
+  };
+}
+
+function sectionLocationNue(d: AppState["locationNue"]): SectionRapport {
+  const r = simulateLocationNue(d);
+  return {
+    onglet: "Location nue",
+    titre: "Location nue",
+    parametres: [
+      num("Prix du bien", d.prix, "€", 0),
+      num("Apport", d.apport, "€", 0),
+      num("Travaux (initiaux, cash)", d.travauxInit, "€", 0),
+      txt("Département", d.departement),
+      oui("Bien neuf (VEFA)", d.neuf),
+      ...parametresPret(d),
+      num("Loyer mensuel", d.loyer, "€"),
+      num("Charges (annuelles)", d.charges, "€/an"),
+      num("Taxe foncière (annuelle)", d.taxe, "€/an"),
+      txt("Régime fiscal", d.regimeFiscal),
+      num("TMI (IR)", d.tmiLoc, "%"),
+      num("Prélèvements sociaux", d.psLoc, "%"),
+      num("Durée de détention", d.dureeDetention, "ans", 0),
+      num("Indexation des loyers (IRL)", d.indexLoyer, "%/an"),
+      num("Inflation charges & taxe foncière", d.inflationCharges, "%/an"),
+      num("Hausse des prix immo", d.hausseImmo, "%/an"),
+      num("Frais de revente", d.fraisVentePct, "%"),
+      num("Taux d'actualisation (VAN)", d.tauxActualisation, "%/an"),
+    ],
+    resultats: [
+      res("Capital emprunté", r.capital, "€", 0),
+      res("Frais de notaire", r.fraisNotaire),
+      res("Remboursement mensuel total", r.totalRemboursementMensuel, "€/mois"),
+      res("Revenu annuel après impôts (hors dette)", r.revenuAnnApresImpots, "€/an"),
+      res("Cashflow net après impôts", r.cashflowMensApresImpots, "€/mois"),
+      res("Impôts (année 1)", r.impotsAnn, "€/an"),
+      res("Rendement net après impôts", r.rendementNetApresImpots, "%"),
+      res("Fonds propres investis", r.baseInvestie),
+      res("Revente nette (après CRD)", r.produitNetRevente),
+      res("TRI des fonds propres", r.triProjection, "%"),
+      res("VAN", r.vanProjection),
+      txt("Régime recommandé", r.regimeRecommande),
+    ],
+    graphiques: [
+      {
+        titre: "Projection : cashflow cumulé, capital restant dû et valeur du bien",
+        abscisse: { cle: "annee", libelle: "Année" },
+        series: [
+          { cle: "cashflowCumule", nom: "Cashflow cumulé" },
+          { cle: "crd", nom: "Capital restant dû" },
+          { cle: "valeurBien", nom: "Valeur du bien" },
+        ],
+        donnees: r.projection,
+      },
+    ],
+    tableaux: [
+      {
+        titre: "Projection annuelle",
+        colonnes: ["Année", "Loyers (€)", "Charges (€)", "Taxe foncière (€)", "Intérêts (€)", "Revenu imposable (€)", "Impôts (€)", "Cashflow (€)", "CRD (€)"],
+        lignes: r.projection.map((p) => [p.annee, p.loyers, p.charges, p.taxeFonciere, p.interets, p.revenuImposable, p.impots, p.cashflow, p.crd]),
+        totaux: [1, 2, 3, 4, 6, 7],
+      },
+    ],
+    hypotheses: [
+      "Fiscalité des revenus fonciers : micro-foncier (abattement de 30 %) ou réel avec déficit foncier imputable sur le revenu global dans la limite légale.",
+      "Frais de notaire calculés selon les droits de mutation du département (taux réduit dans le neuf).",
+    ],
+  };
+}
+
+function sectionLocationMeublee(d: AppState["locationMeublee"]): SectionRapport {
+  const r = simulateLocationMeublee(d);
+  return {
+    onglet: "Location meublée",
+    titre: "Location meublée",
+    parametres: [
+      num("Prix du bien", d.prix, "€", 0),
+      num("Apport", d.apport, "€", 0),
+      num("Travaux (initiaux, cash)", d.travauxInit, "€", 0),
+      num("Mobilier", d.mobilier, "€", 0),
+      txt("Département", d.departement),
+      oui("Bien neuf (VEFA)", d.neuf),
+      ...parametresPret(d),
+      num("Loyer mensuel (meublé)", d.loyer, "€"),
+      num("Charges (annuelles)", d.charges, "€/an"),
+      num("Taxe foncière (annuelle)", d.taxe, "€/an"),
+      txt("Régime fiscal", d.regimeFiscal),
+      num("Part du terrain", d.partTerrain, "%"),
+      num("TMI (IR)", d.tmi, "%"),
+      num("Prélèvements sociaux (LMNP)", d.ps, "%"),
+      num("Autres revenus d'activité du foyer", d.autresRevenusActivite, "€/an", 0),
+      num("Cotisations sociales (LMP)", d.tauxCotisationsLmp, "%"),
+      num("Durée de projection", d.dureeDetention, "ans", 0),
+      num("Indexation des loyers (IRL)", d.indexLoyer, "%/an"),
+      num("Inflation charges & taxe foncière", d.inflationCharges, "%/an"),
+    ],
+    resultats: [
+      res("Capital emprunté", r.capital, "€", 0),
+      res("Frais de notaire", r.fraisNotaire),
+      res("Remboursement mensuel total", r.totalRemboursementMensuel, "€/mois"),
+      res("Revenu annuel après impôts (hors dette)", r.revenuAnnApresImpots, "€/an"),
+      res("Cashflow net après impôts", r.cashflowMensApresImpots, "€/mois"),
+      res("Impôts et cotisations (année 1)", r.impotsAnn, "€/an"),
+      res("Rendement net après impôts (sur fonds propres)", r.rendementNetApresImpots, "%"),
+      txt("Statut", r.statut),
+      txt("Régime recommandé", r.regimeRecommande),
+    ],
+    graphiques: [
+      {
+        titre: "Projection : cashflow annuel et capital restant dû",
+        abscisse: { cle: "annee", libelle: "Année" },
+        series: [
+          { cle: "cashflow", nom: "Cashflow" },
+          { cle: "crd", nom: "Capital restant dû" },
+        ],
+        donnees: r.projection.map((p) => ({ annee: p.annee, cashflow: p.cashflow, crd: p.crd })),
+      },
+    ],
+    tableaux: [
+      {
+        titre: "Projection annuelle",
+        colonnes: ["Année", "Loyers (€)", "Charges (€)", "Intérêts (€)", "Amortissement déduit (€)", "Revenu imposable (€)", "Impôts (€)", "Cashflow (€)", "CRD (€)"],
+        lignes: r.projection.map((p) => [p.annee, p.loyers, p.charges, p.interets, p.amortissementDeduit, p.revenuImposable, p.impots, p.cashflow, p.crd]),
+        totaux: [1, 2, 3, 4, 6, 7],
+      },
+    ],
+    hypotheses: [
+      "Micro-BIC : abattement forfaitaire ; réel BIC : charges et amortissements du bâti (hors terrain), du mobilier et des travaux, sans créer de déficit.",
+      "Statut LMP si les recettes dépassent 23 000 € et les autres revenus d'activité du foyer.",
+    ],
+  };
+}
+
+function sectionViager(d: AppState["viager"], anneeRef?: number): SectionRapport {
+  const r = simulateViager(d, anneeRef);
+  const isTerme = d.mode === "Vente à terme";
+  return {
+    onglet: "Viager",
+    titre: `Viager – ${d.mode}`,
+    parametres: [
+      txt("Mode", d.mode),
+      num("Valeur vénale (marché)", d.valeur, "€", 0),
+      txt("Département", d.departement),
+      ...(isTerme
+        ? [num("Durée de paiement (vente à terme)", d.dureeTerme, "ans", 0)]
+        : [
+            num("Âge du crédirentier", d.age, "ans", 0),
+            txt("Sexe", d.sexe),
+            txt("Table de mortalité", d.tableMortalite),
+            ...(d.couple ? [num("Âge du second crédirentier", d.age2, "ans", 0), txt("Sexe (second)", d.sexe2), num("Réversion de la rente", d.reversionPct, "%")] : []),
+            num("Taux de révision rente", d.index, "%/an"),
+          ]),
+      num("Taux d'actualisation", d.taux, "%/an"),
+      num("Bouquet (sur base)", d.bouquetPct, "%"),
+      ...(d.mode === "Viager occupé" ? [num("Loyer mensuel estimé (pour DUH)", d.loyer, "€/mois")] : []),
+      num("Charges (annuelles)", d.charges, "€/an"),
+      num("Taxe foncière (annuelle)", d.taxe, "€/an"),
+      num("Hausse des prix immo", d.hausseImmo, "%/an"),
+      num("Frais de revente", d.fraisVentePct, "%"),
+    ],
+    resultats: [
+      res(isTerme ? "Durée de paiement" : "Espérance de vie estimée", r.horizonYears, "ans", 1),
+      ...(d.mode === "Viager occupé" ? [res("Décote (DUH)", r.decotePct, "%", 1)] : []),
+      res("Montant du bouquet", r.capBouquet),
+      res(isTerme ? "Mensualité (terme)" : "Rente mensuelle", isTerme ? r.mensualiteTerme : r.renteMensuelle, "€/mois"),
+      res("Frais de notaire", r.fraisNotaire),
+      res("Prix de revente espéré", r.prixFutur),
+      res("Produit net de vente", r.produitNetVente),
+      res("Total déboursé espéré", r.coutTotalInvestisseur),
+      res("Rendement annualisé (TRI espéré)", r.rendementAnnualise, "%"),
+    ],
+    graphiques: isTerme
+      ? []
+      : [
+          {
+            titre: "Probabilité de survie (occupation)",
+            abscisse: { cle: "annee", libelle: "Année" },
+            series: [{ cle: "survie", nom: "Survie (%)" }],
+            donnees: r.survie.filter((_, m) => m % 12 === 0).map((s, annee) => ({ annee, survie: s * 100 })),
+          },
+        ],
+    tableaux: [],
+    hypotheses: isTerme
+      ? ["Vente à terme : mensualités versées sur une durée certaine, sans aléa de mortalité."]
+      : [
+          `Durée de vie selon la table ${d.tableMortalite} ; rentes, charges et revente sont des espérances pondérées par la probabilité de survie.`,
+          "Table de mortalité approchée (loi de Gompertz-Makeham calée sur les espérances de vie publiées) et non la série officielle.",
+          "Rente calculée par équivalence actuarielle avec le capital restant après bouquet, au taux d'actualisation saisi.",
+        ],
+  };
+}
+
+function sectionScpi(d: AppState["scpi"]): SectionRapport {
+  const r = simulateScpi(d);
+  const isNP = d.mode === "Nue-propriété";
+  const annees = Math.ceil(r.schedule.length / 12);
+  const pret = yearlyLoanTotals(r.schedule, annees);
+  return {
+    onglet: "SCPI",
+    titre: `SCPI – ${d.mode}`,
+    parametres: [
+      txt("Mode", d.mode),
+      num("Montant déboursé (brut)", d.montant, "€", 0),
+      num("Frais de souscription", d.fraisSous, "%"),
+      num("Taux de distribution (TD)", d.td, "%/an"),
+      num("Frais récurrents additionnels", d.fraisAnn, "%/an"),
+      num("Délai de jouissance", d.delaiJouissanceMois, "mois", 0),
+      num("TMI (IR)", d.tmiIr, "%"),
+      num("Prélèvements sociaux", d.ps, "%"),
+      ...(isNP ? [num("Durée du démembrement", d.dureeNP, "ans", 0), num("Décote nue-propriété", d.decoteNP, "%")] : []),
+      num("Revalo prix de part", d.revaloParts, "%/an"),
+      num("Apport", d.apport, "€", 0),
+      ...parametresPret(d),
+      txt("Type de prêt", d.typeAmortissement),
+    ],
+    resultats: [
+      res("Capital net investi", r.capitalNetInvesti),
+      res("Dette (montant prêté)", r.dette),
+      res("Mensualité (C+I+A)", r.serviceDetteMens, "€/mois"),
+      res("Coût des intérêts", r.coutInterets),
+      ...(isNP
+        ? [res("Valeur PP à terme", r.valeurPPATerme), res("Rendement NP (annualisé)", r.rendementNP, "%")]
+        : [
+            res("Distribution après impôts (an 1)", r.distApresImpotsAn1, "€/an"),
+            res("Distribution après impôts (pleine année)", r.distApresImpotsPleine, "€/an"),
+            res("Cashflow (an 1)", r.cashflowMensAn1PP, "€/mois"),
+            res("Cashflow (pleine année)", r.cashflowMensPleinPP, "€/mois"),
+          ]),
+    ],
+    graphiques: [],
+    tableaux: r.schedule.length
+      ? [
+          {
+            titre: "Financement – synthèse annuelle",
+            colonnes: ["Année", "Intérêts (€)", "Capital (€)", "Assurance (€)", "CRD (€)"],
+            lignes: pret.map((p, i) => [i + 1, p.interets, p.principal, p.assurance, p.crd]),
+            totaux: [1, 2, 3],
+            solde: { colonne: 4, diminutions: [2] },
+          },
+        ]
+      : [],
+    hypotheses: [
+      "Distribution imposée au barème (TMI) et aux prélèvements sociaux ; aucun revenu pendant le délai de jouissance.",
+      ...(isNP ? ["Nue-propriété : pas de distribution ni de fiscalité jusqu'au remembrement, où la pleine propriété est récupérée sans frais."] : []),
+    ],
+  };
+}
+
+function sectionLocalCommercial(d: AppState["localCommercial"]): SectionRapport {
+  const r = simulateLocalCommercial(d);
+  return {
+    onglet: "Local commercial",
+    titre: "Local commercial",
+    parametres: [
+      num("Prix du bien", d.prix, "€", 0),
+      num("Apport", d.apport, "€", 0),
+      txt("Département", d.departement),
+      oui("Local neuf (VEFA)", d.neuf),
+      ...parametresPret(d),
+      num("Loyer mensuel (HC)", d.loyer, "€"),
+      num("Charges annuelles (PNO, syndic, vacance…)", d.charges, "€/an"),
+      num("Taxe foncière (annuelle)", d.taxe, "€/an"),
+    ],
+    resultats: [
+      res("Capital emprunté", r.capital, "€", 0),
+      res("Frais de notaire", r.fraisNotaire),
+      res("Rendement brut", r.rendementBrut, "%"),
+      res("Rendement net (hors dette)", r.rendementNet, "%"),
+      res("Mensualité totale (crédit + assur.)", r.mensualiteTotale, "€/mois"),
+      res("Cashflow net estimé", r.cashflowMens, "€/mois"),
+    ],
+    graphiques: [],
+    tableaux: [],
+    hypotheses: ["Cashflow avant impôts ; charges et taxe foncière supposées à la charge du bailleur."],
+  };
+}
+
+function sectionComparatif(state: AppState): SectionRapport {
+  const d = state.comparaison;
+  const r = compareStrategies(state);
+  return {
+    onglet: "Comparatif",
+    titre: "Comparatif des stratégies",
+    parametres: [
+      num("Horizon de comparaison", d.horizon, "ans", 0),
+      num("Revalorisation immobilière", d.hausseImmo, "%/an"),
+      num("Frais de revente", d.fraisVentePct, "%"),
+      oui("Fonds propres alignés", d.alignerCapital),
+      ...(d.alignerCapital ? [num("Fonds propres cibles", d.capitalCible, "€", 0)] : []),
+      txt("Critère de classement", d.critere),
+    ],
+    resultats: r.classement.map((s, i) => txt(`Rang ${i + 1}`, s)),
+    graphiques: [
+      {
+        titre: "Patrimoine net par année",
+        abscisse: { cle: "annee", libelle: "Année" },
+        series: STRATEGIES.map((s) => ({ cle: s, nom: s })),
+        donnees: Array.from({ length: r.horizon }, (_, i) =>
+          Object.fromEntries([["annee", i + 1], ...r.strategies.map((s) => [s.strategie, s.annees[i].patrimoineNet])])
+        ),
+      },
+    ],
+    tableaux: [
+      {
+        titre: "Indicateurs par stratégie",
+        colonnes: ["Stratégie", "Fonds propres (€)", "Effort mensuel (€)", "Cashflow mensuel (€)", "TRI (%)", "Patrimoine net (€)"],
+        lignes: r.strategies.map((s) => [s.strategie, s.fondsPropres, s.effortMensuel, s.cashflowMensuel, s.tri, s.patrimoineNet]),
+      },
+    ],
+    hypotheses: [
+      "Patrimoine net = valeur liquidative (valeur nette de frais de revente - CRD) + cashflows cumulés, non réinvestis.",
+      "Local commercial comparé avant impôts ; les autres stratégies après impôts.",
+    ],
+  };
+}
+
+export function sectionRapport(onglet: OngletSimulateur, state: AppState, anneeRef?: number): SectionRapport {
+  switch (onglet) {
+    case "Capacité d'emprunt":
+      return sectionCapacite(state.capacite);
+    case "Crédit immobilier":
+      return sectionCredit(state.creditImmo);
+    case "Location nue":
+      return sectionLocationNue(state.locationNue);
+    case "Location meublée":
+      return sectionLocationMeublee(state.locationMeublee);
+    case "Viager":
+      return sectionViager(state.viager, anneeRef);
+    case "SCPI":
+      return sectionScpi(state.scpi);
+    case "Local commercial":
+      return sectionLocalCommercial(state.localCommercial);
+    case "Comparatif":
+      return sectionComparatif(state);
+  }
+}
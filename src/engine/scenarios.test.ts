@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { appliquerScenario, creerScenario, dupliquerScenario, exporterBibliotheque, importerBibliotheque, validerScenario } from "./scenarios";
+import { VERSION_ETAT } from "./schema";
+import { DEFAULT_STATE } from "./state";
+
+const date = new Date("2026-01-15T10:00:00Z");
+
+describe("scénarios", () => {
+  it("création et application à l'état courant", () => {
+    const s = creerScenario("Mon prêt", "Crédit immobilier", { ...DEFAULT_STATE, creditImmo: { ...DEFAULT_STATE.creditImmo, capital: "180000" } }, date);
+    expect(s.creeLe).toBe("2026-01-15T10:00:00.000Z");
+    expect(s.version).toBe(VERSION_ETAT);
+    expect(appliquerScenario(DEFAULT_STATE, s).creditImmo.capital).toBe("180000");
+  });
+
+  it("copie indépendante de l'original", () => {
+    const s = creerScenario("", "SCPI", DEFAULT_STATE, date);
+    const copie = dupliquerScenario(s, date);
+    expect(copie.id).not.toBe(s.id);
+    expect(copie.nom).toBe(`${s.nom} (copie)`);
+    expect(copie.donnees).not.toBe(s.donnees);
+  });
+
+  it("export puis import : identifiants en conflit renouvelés", () => {
+    const s = creerScenario("A", "Viager", DEFAULT_STATE, date);
+    const r = importerBibliotheque(exporterBibliotheque([s], date), [s]);
+    expect(r.importes).toBe(1);
+    expect(r.ignores).toBe(0);
+    expect(r.scenarios).toHaveLength(2);
+    expect(r.scenarios[1].id).not.toBe(s.id);
+  });
+
+  it("scénario migré depuis la version du schéma enregistrée", () => {
+    const ancien = { id: "a", nom: "Ancien", onglet: "Viager", donnees: { ...DEFAULT_STATE.viager, tableMortalite: "TGH05 / TGF05" } };
+    expect(validerScenario(ancien)?.donnees).toMatchObject({ tableMortalite: "Prospective approchée (base 2005)" });
+    expect(validerScenario({ ...ancien, version: VERSION_ETAT })?.donnees).toMatchObject({ tableMortalite: DEFAULT_STATE.viager.tableMortalite });
+
+    const fichier = JSON.stringify({ versionEtat: 2, scenarios: [ancien] });
+    expect(importerBibliotheque(fichier, []).scenarios[0]).toMatchObject({ version: VERSION_ETAT, donnees: { tableMortalite: "Prospective approchée (base 2005)" } });
+  });
+
+  it("scénarios invalides ignorés", () => {
+    expect(validerScenario({ onglet: "Inconnu", donnees: {} })).toBeNull();
+    expect(importerBibliotheque(JSON.stringify([{ onglet: "SCPI" }, null]), []).ignores).toBe(2);
+    expect(() => importerBibliotheque("{}", [])).toThrow();
+  });
+});
@@ -0,0 +1,114 @@
+import { migrerTranche, restaurerTranche, VERSION_ETAT } from "./schema";
+import { CLES_ONGLETS, DEFAULT_STATE, estOngletSimulateur, type AppState, type OngletSimulateur } from "./state";
+
+/*********************
+ * BIBLIOTHÈQUE DE SCÉNARIOS
+ *********************/
+// Un scénario enregistre les données d'un onglet sous un nom. La bibliothèque entière s'exporte
+// en JSON ; à l'import, chaque scénario est migré depuis la version du schéma avec laquelle il a été
+// enregistré, puis validé et complété par les valeurs par défaut.
+export type Scenario = {
+  id: string;
+  nom: string;
+  onglet: OngletSimulateur;
+  version: number; // version du schéma de l'état (VERSION_ETAT) des données
+  donnees: AppState[keyof AppState];
+  creeLe: string; // ISO 8601
+  modifieLe: string;
+};
+
+export const FORMAT_BIBLIOTHEQUE = "viager-vs-location/scenarios";
+export const VERSION_BIBLIOTHEQUE = 1;
+
+export type ImportBibliotheque = {
+  scenarios: Scenario[];
+  importes: number;
+  ignores: number;
+};
+
+const nouvelId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function creerScenario(nom: string, onglet: OngletSimulateur, state: AppState, maintenant = new Date()): Scenario {
+  const date = maintenant.toISOString();
+  return {
+    id: nouvelId(),
+    nom: nom.trim() || `${onglet} – ${maintenant.toLocaleDateString("fr-FR")}`,
+    onglet,
+    version: VERSION_ETAT,
+    donnees: structuredClone(state[CLES_ONGLETS[onglet]]),
+    creeLe: date,
+    modifieLe: date,
+  };
+}
+
+export function dupliquerScenario(s: Scenario, maintenant = new Date()): Scenario {
+  const date = maintenant.toISOString();
+  return { ...s, id: nouvelId(), nom: `${s.nom} (copie)`, donnees: structuredClone(s.donnees), creeLe: date, modifieLe: date };
+}
+
+export function renommerScenario(s: Scenario, nom: string, maintenant = new Date()): Scenario {
+  return nom.trim() ? { ...s, nom: nom.trim(), modifieLe: maintenant.toISOString() } : s;
+}
+
+// Applique un scénario à l'état courant (données fusionnées avec les valeurs par défaut de l'onglet)
+export function appliquerScenario(state: AppState, s: Scenario): AppState {
+  const cle = CLES_ONGLETS[s.onglet];
+  return { ...state, [cle]: { ...DEFAULT_STATE[cle], ...s.donnees } };
+}
+
+export function exporterBibliotheque(scenarios: Scenario[], maintenant = new Date()): string {
+  return JSON.stringify(
+    { format: FORMAT_BIBLIOTHEQUE, version: VERSION_BIBLIOTHEQUE, versionEtat: VERSION_ETAT, exporteLe: maintenant.toISOString(), scenarios },
+    null,
+    2
+  );
+}
+
+const versionLue = (v: unknown) => (typeof v === "number" && Number.isInteger(v) && v >= 1 ? v : undefined);
+
+// Scénario lu depuis un fichier ou le stockage local ; null si l'entrée est inexploitable.
+// Les données sont migrées puis contrôlées comme un état restauré (champs invalides remis à leur valeur
+// par défaut). Sans version propre, le scénario est lu dans `versionParDefaut` (celle du fichier exporté,
+// ou 1 pour les scénarios enregistrés avant le versionnage).
+export function validerScenario(brut: unknown, versionParDefaut = 1): Scenario | null {
+  if (typeof brut !== "object" || brut === null) return null;
+  const s = brut as Record<string, unknown>;
+  if (typeof s.onglet !== "string" || !estOngletSimulateur(s.onglet)) return null;
+  if (typeof s.donnees !== "object" || s.donnees === null || Array.isArray(s.donnees)) return null;
+  const cle = CLES_ONGLETS[s.onglet];
+  const version = versionLue(s.version) ?? versionParDefaut;
+  const date = (v: unknown) => (typeof v === "string" && !Number.isNaN(Date.parse(v)) ? v : new Date().toISOString());
+  return {
+    id: typeof s.id === "string" && s.id ? s.id : nouvelId(),
+    nom: typeof s.nom === "string" && s.nom.trim() ? s.nom.trim() : s.onglet,
+    onglet: s.onglet,
+    version: VERSION_ETAT,
+    donnees: restaurerTranche(cle, migrerTranche(cle, s.donnees, version)).valeur,
+    creeLe: date(s.creeLe),
+    modifieLe: date(s.modifieLe ?? s.creeLe),
+  };
+}
+
+// Import d'un fichier exporté (ou d'un simple tableau de scénarios), ajouté à la bibliothèque existante ;
+// un identifiant déjà présent reçoit un nouvel identifiant plutôt que d'écraser le scénario local.
+export function importerBibliotheque(json: string, existants: Scenario[]): ImportBibliotheque {
+  const parsed: unknown = JSON.parse(json);
+  const liste = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === "object" && parsed !== null && Array.isArray((parsed as { scenarios?: unknown }).scenarios)
+    ? (parsed as { scenarios: unknown[] }).scenarios
+    : null;
+  if (!liste) throw new Error("Fichier non reconnu : aucune liste de scénarios.");
+  const versionFichier = (!Array.isArray(parsed) && versionLue((parsed as { versionEtat?: unknown }).versionEtat)) || 1;
+
+  const ids = new Set(existants.map((s) => s.id));
+  const importes: Scenario[] = [];
+  liste.forEach((brut) => {
+    const s = validerScenario(brut, versionFichier);
+    if (!s) return;
+    const scenario = ids.has(s.id) ? { ...s, id: nouvelId() } : s;
+    ids.add(scenario.id);
+    importes.push(scenario);
+  });
+  return { scenarios: [...existants, ...importes], importes: importes.length, ignores: liste.length - importes.length };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { migrerTranche, restaurerEtat, restaurerTranche, versionnerEtat, VERSION_ETAT } from "./schema";
+import { DEFAULT_STATE } from "./state";
+
+describe("restaurerEtat", () => {
+  it("l'état par défaut se relit sans anomalie", () => {
+    const r = restaurerEtat(JSON.parse(JSON.stringify(versionnerEtat(DEFAULT_STATE))));
+    expect(r?.version).toBe(VERSION_ETAT);
+    expect(r?.anomalies).toEqual([]);
+    expect(r?.state).toEqual(DEFAULT_STATE);
+  });
+
+  it("version 1 : saisies numériques migrées en texte FR", () => {
+    const r = restaurerEtat({ creditImmo: { capital: 200000, taux: 3.5 } });
+    expect(r?.version).toBe(1);
+    expect(r?.state.creditImmo.capital).toBe("200000");
+    expect(r?.state.creditImmo.taux).toBe("3,5");
+  });
+
+  it("version 2 : tables de mortalité renommées", () => {
+    const r = restaurerEtat({ version: 2, viager: { tableMortalite: "TGH05 / TGF05" } });
+    expect(r?.state.viager.tableMortalite).toBe("Prospective approchée (base 2005)");
+    expect(r?.anomalies).toEqual([]);
+    expect(restaurerEtat({ version: 2, viager: { tableMortalite: "INSEE 2019-2021" } })?.state.viager.tableMortalite).toBe("INSEE 2019-2021 approchée");
+  });
+
+  it("objet étranger à l'application : null", () => {
+    expect(restaurerEtat({ foo: 1 })).toBeNull();
+    expect(restaurerEtat("texte")).toBeNull();
+  });
+});
+
+describe("migrerTranche", () => {
+  it("données d'un onglet migrées depuis leur version", () => {
+    expect(migrerTranche("viager", { tableMortalite: "TGH05 / TGF05", age: 75 }, 1)).toEqual({ tableMortalite: "Prospective approchée (base 2005)", age: "75" });
+    expect(migrerTranche("viager", { tableMortalite: "TGH05 / TGF05" }, VERSION_ETAT)).toEqual({ tableMortalite: "TGH05 / TGF05" });
+  });
+});
+
+describe("restaurerTranche", () => {
+  it("champ invalide remplacé par sa valeur par défaut et signalé", () => {
+    const r = restaurerTranche("creditImmo", { ...DEFAULT_STATE.creditImmo, taux: "abc", garantie: "Inconnue" });
+    expect(r.valeur.taux).toBe(DEFAULT_STATE.creditImmo.taux);
+    expect(r.valeur.garantie).toBe(DEFAULT_STATE.creditImmo.garantie);
+    expect(r.anomalies).toHaveLength(2);
+  });
+
+  it("champ absent : valeur par défaut sans anomalie", () => {
+    const r = restaurerTranche("scpi", { montant: "60000" });
+    expect(r.valeur.montant).toBe("60000");
+    expect(r.valeur.td).toBe(DEFAULT_STATE.scpi.td);
+    expect(r.anomalies).toEqual([]);
+  });
+
+  it("élément de liste invalide retiré", () => {
+    const r = restaurerTranche("creditImmo", {
+      evenements: [
+        { type: "Modulation", mois: "12", montant: "0", option: "Réduire la durée", modulationPct: "10" },
+        { type: "Inconnu", mois: "12", montant: "0", option: "Réduire la durée", modulationPct: "10" },
+      ],
+    });
+    expect(r.valeur.evenements).toHaveLength(1);
+    expect(r.anomalies).toHaveLength(1);
+  });
+});
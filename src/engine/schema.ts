@@ -0,0 +1,360 @@
+import { CRITERES_COMPARAISON } from "./comparaison";
+import { EVENEMENTS_PRET, OPTIONS_REMBOURSEMENT, TYPES_AMORTISSEMENT, TYPES_DIFFERE, TYPES_LIGNE_PRET } from "./creditImmo";
+import { DEPARTEMENTS } from "./departements";
+import { REGIMES_FONCIERS } from "./fiscaliteFonciere";
+import { REGIMES_BIC } from "./fiscaliteMeublee";
+import { MORTALITY_TABLES } from "./mortality";
+import { SCPI_MODES } from "./scpi";
+import { CLES_ONGLETS, DEFAULT_STATE, type AppState, type OngletSimulateur } from "./state";
+import { GARANTIES, TRANCHES_USURE } from "./taeg";
+import { AJUSTEMENTS_REVISION, SCENARIOS_INDEX, TYPES_TAUX } from "./tauxVariable";
+import { VIAGER_MODES } from "./viager";
+
+/*********************
+ * SCHÉMA VERSIONNÉ DE L'ÉTAT (liens partagés, stockage local)
+ *********************/
+// L'état est écrit avec un champ `version`. À la lecture, il est d'abord migré jusqu'à la version
+// courante, puis chaque champ est contrôlé (type, valeurs permises, plage) : un champ invalide reprend
+// sa valeur par défaut et est signalé. Les champs absents (ajoutés depuis) prennent leur valeur par
+// défaut sans être signalés.
+export const VERSION_ETAT = 3;
+
+type Regle =
+  | { type: "nombre"; min?: number; max?: number }
+  | { type: "choix"; valeurs: readonly string[] }
+  | { type: "booleen" }
+  | { type: "liste"; element: Regle; longueur?: number }
+  | { type: "objets"; champs: Record<string, Regle> };
+
+type SchemaTranche<T> = { [K in keyof T]-?: Regle };
+
+// Saisies numériques (texte au format FR, vide autorisé)
+const montant: Regle = { type: "nombre", min: 0 };
+const pct: Regle = { type: "nombre", min: 0, max: 100 };
+const tauxPret: Regle = { type: "nombre", min: 0, max: 30 };
+const variation: Regle = { type: "nombre", min: -50, max: 50 };
+const annees: Regle = { type: "nombre", min: 0, max: 60 };
+const mois: Regle = { type: "nombre", min: 0, max: 720 };
+const age: Regle = { type: "nombre", min: 0, max: 120 };
+const booleen: Regle = { type: "booleen" };
+const choix = (valeurs: readonly string[]): Regle => ({ type: "choix", valeurs });
+
+const departement = choix(DEPARTEMENTS.map((d) => d.code));
+const sexe = choix(["Femme", "Homme"]);
+
+export const SCHEMA_ETAT: { [K in keyof AppState]: SchemaTranche<AppState[K]> } = {
+  locationNue: {
+    prix: montant,
+    apport: montant,
+    taux: tauxPret,
+    assurance: tauxPret,
+    duree: annees,
+    loyer: montant,
+    charges: montant,
+    taxe: montant,
+    travauxInit: montant,
+    tmiLoc: pct,
+    psLoc: pct,
+    regimeFiscal: choix(REGIMES_FONCIERS),
+    departement,
+    neuf: booleen,
+    dureeDetention: annees,
+    indexLoyer: variation,
+    inflationCharges: variation,
+    hausseImmo: variation,
+    fraisVentePct: pct,
+    tauxActualisation: variation,
+  },
+  locationMeublee: {
+    prix: montant,
+    apport: montant,
+    taux: tauxPret,
+    assurance: tauxPret,
+    duree: annees,
+    loyer: montant,
+    charges: montant,
+    taxe: montant,
+    travauxInit: montant,
+    mobilier: montant,
+    partTerrain: pct,
+    tmi: pct,
+    ps: pct,
+    regimeFiscal: choix(REGIMES_BIC),
+    autresRevenusActivite: montant,
+    tauxCotisationsLmp: pct,
+    departement,
+    neuf: booleen,
+    dureeDetention: annees,
+    indexLoyer: variation,
+    inflationCharges: variation,
+  },
+  viager: {
+    mode: choix(VIAGER_MODES),
+    valeur: montant,
+    age,
+    sexe,
+    tableMortalite: choix(MORTALITY_TABLES),
+    couple: booleen,
+    age2: age,
+    sexe2: sexe,
+    reversionPct: pct,
+    taux: variation,
+    bouquetPct: pct,
+    index: variation,
+    charges: montant,
+    taxe: montant,
+    loyer: montant,
+    hausseImmo: variation,
+    fraisVentePct: pct,
+    dureeTerme: annees,
+    departement,
+    mcTirages: { type: "nombre", min: 0, max: 100000 },
+    mcVolatilite: pct,
+  },
+  scpi: {
+    montant,
+    td: pct,
+    fraisSous: pct,
+    fraisAnn: pct,
+    delaiJouissanceMois: mois,
+    mode: choix(SCPI_MODES),
+    tmiIr: pct,
+    ps: pct,
+    dureeNP: annees,
+    decoteNP: pct,
+    revaloParts: variation,
+    apport: montant,
+    taux: tauxPret,
+    assurance: tauxPret,
+    duree: annees,
+    typeAmortissement: choix(TYPES_AMORTISSEMENT),
+    differe: choix(TYPES_DIFFERE),
+    differeMois: mois,
+  },
+  localCommercial: {
+    prix: montant,
+    apport: montant,
+    taux: tauxPret,
+    assurance: tauxPret,
+    duree: annees,
+    loyer: montant,
+    charges: montant,
+    taxe: montant,
+    departement,
+    neuf: booleen,
+  },
+  creditImmo: {
+    capital: montant,
+    taux: tauxPret,
+    assurance: tauxPret,
+    duree: annees,
+    assuranceSurCRD: booleen,
+    typeAmortissement: choix(TYPES_AMORTISSEMENT),
+    differe: choix(TYPES_DIFFERE),
+    differeMois: mois,
+    indemnitesRA: booleen,
+    evenements: {
+      type: "objets",
+      champs: {
+        type: choix(EVENEMENTS_PRET),
+        mois,
+        montant,
+        option: choix(OPTIONS_REMBOURSEMENT),
+        modulationPct: { type: "nombre", min: -100, max: 100 },
+      },
+    },
+    fraisDossier: montant,
+    garantie: choix(GARANTIES),
+    fraisGarantie: montant,
+    restitutionGarantiePct: pct,
+    fraisCourtage: montant,
+    seuilsUsure: { type: "liste", element: tauxPret, longueur: TRANCHES_USURE.length },
+    lissage: booleen,
+    lignes: {
+      type: "objets",
+      champs: { type: choix(TYPES_LIGNE_PRET), montant, taux: tauxPret, assurance: tauxPret, duree: annees, differe: mois },
+    },
+    typeTaux: choix(TYPES_TAUX),
+    indexInitial: variation,
+    marge: tauxPret,
+    cap: tauxPret,
+    plancher: tauxPret,
+    revisionMois: mois,
+    ajustementRevision: choix(AJUSTEMENTS_REVISION),
+    scenarioIndex: choix(SCENARIOS_INDEX),
+    trajectoireIndex: { type: "liste", element: variation },
+  },
+  capacite: {
+    revenusMensuels: montant,
+    loyersPercus: montant,
+    creditsEnCours: montant,
+    personnesFoyer: { type: "nombre", min: 0, max: 20 },
+    taux: tauxPret,
+    assurance: tauxPret,
+    duree: annees,
+    tauxEndettementMax: pct,
+  },
+  comparaison: {
+    horizon: annees,
+    hausseImmo: variation,
+    fraisVentePct: pct,
+    alignerCapital: booleen,
+    capitalCible: montant,
+    critere: choix(CRITERES_COMPARAISON),
+  },
+};
+
+type Brut = Record<string, unknown>;
+const estObjet = (v: unknown): v is Brut => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Libellés des tables de mortalité jusqu'à la version 2, et leur nom actuel
+const TABLES_MORTALITE_V2: Record<string, string> = {
+  "INSEE 2019-2021": "INSEE 2019-2021 approchée",
+  "TGH05 / TGF05": "Prospective approchée (base 2005)",
+};
+
+// Migrations : MIGRATIONS[v] fait passer un état de la version v à la version v + 1
+const MIGRATIONS: Record<number, (etat: Brut) => Brut> = {
+  // v1 : état non versionné (liens `?data=` et sauvegardes antérieurs) ; certains nombres pouvaient
+  // y figurer en JSON numérique plutôt qu'en texte saisi
+  1: (etat) =>
+    Object.fromEntries(
+      Object.entries(etat).map(([cle, tranche]) => [
+        cle,
+        estObjet(tranche)
+          ? Object.fromEntries(
+              Object.entries(tranche).map(([k, v]) => [k, typeof v === "number" && Number.isFinite(v) ? String(v).replace(".", ",") : v])
+            )
+          : tranche,
+      ])
+    ),
+  // v2 : tables de mortalité enregistrées sous le nom des séries officielles dont elles sont des approximations
+  2: (etat) => {
+    const viager = etat.viager;
+    if (!estObjet(viager) || typeof viager.tableMortalite !== "string" || !(viager.tableMortalite in TABLES_MORTALITE_V2)) return etat;
+    return { ...etat, viager: { ...viager, tableMortalite: TABLES_MORTALITE_V2[viager.tableMortalite] } };
+  },
+};
+
+// Migration des données d'un seul onglet (scénario enregistré) depuis la version `version`
+export function migrerTranche<K extends keyof AppState>(cle: K, brut: unknown, version: number): unknown {
+  let etat: Brut = { [cle]: brut };
+  for (let v = version; v < VERSION_ETAT; v++) etat = MIGRATIONS[v](etat);
+  return etat[cle];
+}
+
+// Nombre saisi (format FR toléré : espaces, virgule décimale, points de milliers) ; null si illisible
+function nombreSaisi(v: string): number | null {
+  let s = v.replace(/\s/g, "");
+  if (s === "") return 0;
+  if (s.includes(",")) s = s.replace(/\./g, "").replace(",", ".");
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+const apercu = (v: unknown) => {
+  const s = typeof v === "string" ? v : JSON.stringify(v) ?? String(v);
+  return s.length > 30 ? `${s.slice(0, 30)}…` : s;
+};
+
+// Motif du rejet d'une valeur, ou null si elle est valide
+function controler(regle: Regle, v: unknown): string | null {
+  switch (regle.type) {
+    case "nombre": {
+      if (typeof v !== "string") return `« ${apercu(v)} » n'est pas une saisie numérique`;
+      const n = nombreSaisi(v);
+      if (n === null) return `« ${apercu(v)} » n'est pas un nombre`;
+      if ((regle.min !== undefined && n < regle.min) || (regle.max !== undefined && n > regle.max))
+        return `${v} hors de la plage ${regle.min ?? "-∞"} – ${regle.max ?? "+∞"}`;
+      return null;
+    }
+    case "choix":
+      return typeof v === "string" && regle.valeurs.includes(v) ? null : `« ${apercu(v)} » n'est pas une valeur permise`;
+    case "booleen":
+      return typeof v === "boolean" ? null : `« ${apercu(v)} » n'est pas un booléen`;
+    case "liste": {
+      if (!Array.isArray(v)) return "liste attendue";
+      if (regle.longueur !== undefined && v.length !== regle.longueur) return `${regle.longueur} valeurs attendues`;
+      const i = v.findIndex((x) => controler(regle.element, x) !== null);
+      return i === -1 ? null : `valeur n° ${i + 1} : ${controler(regle.element, v[i])}`;
+    }
+    case "objets":
+      return Array.isArray(v) ? null : "liste attendue";
+  }
+}
+
+export type RestaurationTranche<K extends keyof AppState> = { valeur: AppState[K]; anomalies: string[] };
+
+// Contrôle d'une tranche (données d'un onglet) : champs invalides remplacés par leur valeur par défaut,
+// éléments de liste invalides (événements, lignes de prêt) retirés
+export function restaurerTranche<K extends keyof AppState>(cle: K, brut: unknown): RestaurationTranche<K> {
+  const defaut = DEFAULT_STATE[cle] as Record<string, unknown>;
+  const schema = SCHEMA_ETAT[cle] as Record<string, Regle>;
+  const onglet = (Object.keys(CLES_ONGLETS) as OngletSimulateur[]).find((o) => CLES_ONGLETS[o] === cle) ?? cle;
+  const anomalies: string[] = [];
+  if (!estObjet(brut)) {
+    if (brut !== undefined) anomalies.push(`${onglet} : données illisibles, valeurs par défaut rétablies`);
+    return { valeur: { ...defaut } as AppState[K], anomalies };
+  }
+
+  const valeur: Record<string, unknown> = {};
+  Object.entries(schema).forEach(([champ, regle]) => {
+    const v = brut[champ];
+    if (v === undefined) {
+      valeur[champ] = defaut[champ];
+      return;
+    }
+    if (regle.type === "objets") {
+      if (!Array.isArray(v)) {
+        anomalies.push(`${onglet} › ${champ} : liste attendue`);
+        valeur[champ] = defaut[champ];
+        return;
+      }
+      valeur[champ] = v.filter((el, i) => {
+        const motif = !estObjet(el)
+          ? "élément illisible"
+          : Object.entries(regle.champs)
+              .map(([k, r]) => (controler(r, el[k]) ? `${k} ${controler(r, el[k])}` : null))
+              .find((m) => m !== null);
+        if (motif) anomalies.push(`${onglet} › ${champ} n° ${i + 1} retiré : ${motif}`);
+        return !motif;
+      });
+      return;
+    }
+    const motif = controler(regle, v);
+    if (motif) anomalies.push(`${onglet} › ${champ} : ${motif}`);
+    valeur[champ] = motif ? defaut[champ] : v;
+  });
+  return { valeur: valeur as AppState[K], anomalies };
+}
+
+export type RestaurationEtat = {
+  state: AppState;
+  version: number; // version lue (avant migration)
+  anomalies: string[];
+};
+
+// État prêt à être sérialisé (lien ou stockage local)
+export const versionnerEtat = (state: AppState) => ({ version: VERSION_ETAT, ...state });
+
+// Lecture d'un état sérialisé : null si l'objet n'est pas un état de l'application
+export function restaurerEtat(brut: unknown): RestaurationEtat | null {
+  if (!estObjet(brut)) return null;
+  const cles = Object.keys(DEFAULT_STATE) as (keyof AppState)[];
+  if (!cles.some((c) => c in brut)) return null;
+
+  const version = typeof brut.version === "number" && Number.isInteger(brut.version) && brut.version >= 1 ? brut.version : 1;
+  const anomalies: string[] = [];
+  if (version > VERSION_ETAT) anomalies.push(`Données enregistrées par une version plus récente (v${version}) : certains réglages peuvent être ignorés`);
+
+  let etat: Brut = brut;
+  for (let v = version; v < VERSION_ETAT; v++) etat = MIGRATIONS[v](etat);
+
+  const state = {} as Record<keyof AppState, unknown>;
+  cles.forEach((cle) => {
+    const r = restaurerTranche(cle, etat[cle]);
+    state[cle] = r.valeur;
+    anomalies.push(...r.anomalies);
+  });
+  return { state: state as AppState, version, anomalies };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { simulateScpi } from "./scpi";
+import { DEFAULT_STATE } from "./state";
+
+const scpi = DEFAULT_STATE.scpi;
+
+describe("simulateScpi", () => {
+  it("frais de souscription inclus dans le montant déboursé", () => {
+    const r = simulateScpi({ ...scpi, montant: "108000", fraisSous: "8", delaiJouissanceMois: "3" });
+    expect(r.capitalNetInvesti).toBeCloseTo(100000, 6);
+    expect(r.fraisSouscription).toBeCloseTo(8000, 6);
+    expect(r.distBrutePleine).toBeCloseTo(5000, 6);
+    expect(r.distBruteAn1).toBeCloseTo(3750, 6);
+  });
+
+  it("nue-propriété : valeur en pleine propriété reconstituée au terme", () => {
+    const r = simulateScpi({ ...scpi, mode: "Nue-propriété", montant: "100000", fraisSous: "0", decoteNP: "30", revaloParts: "0", dureeNP: "10" });
+    expect(r.valeurPPATerme).toBeCloseTo(142857.14, 2);
+    expect(r.rendementNP).toBeCloseTo((Math.pow(1 / 0.7, 0.1) - 1) * 100, 8);
+  });
+
+  it("financement : dette et mensualité", () => {
+    const r = simulateScpi({ ...scpi, montant: "50000", apport: "10000" });
+    expect(r.dette).toBe(40000);
+    expect(r.schedule[r.schedule.length - 1].crd).toBe(0);
+    expect(r.serviceDetteMens).toBeCloseTo(r.mensu + r.assurMens, 8);
+  });
+});
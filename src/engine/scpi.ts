@@ -0,0 +1,115 @@
+import { buildSchedule, echeanceApresDiffere, type ProfilPret, type ScheduleRow } from "./creditImmo";
+import type { AppState } from "./state";
+import { toNum } from "./utils";
+
+/*********************
+ * SIMULATION SCPI
+ *********************/
+export const SCPI_MODES = ["Pleine propriété", "Nue-propriété"] as const;
+
+export type ScpiResult = {
+  capitalNetInvesti: number;
+  fraisSouscription: number;
+  distBrutePleine: number;
+  distBruteAn1: number;
+  fraisRecurAnn: number;
+  distNetteAn1: number;
+  distNettePleine: number;
+  distApresImpotsAn1: number;
+  distApresImpotsPleine: number;
+  dette: number;
+  mensu: number;
+  assurMens: number;
+  serviceDetteMens: number;
+  schedule: ScheduleRow[];
+  coutInterets: number;
+  remboursementFinal: number;
+  valeurPPATerme: number;
+  rendementNP: number;
+  cashflowMensAn1PP: number;
+  cashflowMensPleinPP: number;
+};
+
+export function simulateScpi(input: AppState["scpi"]): ScpiResult {
+  // Conversion
+  const vMontant = toNum(input.montant);
+  const vTD = toNum(input.td) / 100;
+  const vFraisSous = toNum(input.fraisSous) / 100;
+  const vFraisAnn = toNum(input.fraisAnn) / 100;
+  const vDelai = Math.max(0, Math.min(12, Math.round(toNum(input.delaiJouissanceMois))));
+  const vTMI = Math.max(0, toNum(input.tmiIr)) / 100;
+  const vPS = Math.max(0, toNum(input.ps)) / 100;
+  const vDurNP = Math.max(0, Math.round(toNum(input.dureeNP)));
+  const vDecoteNP = Math.max(0, toNum(input.decoteNP)) / 100;
+  const vRevalo = Math.max(0, toNum(input.revaloParts)) / 100;
+
+  const vApport = toNum(input.apport);
+  const vTaux = toNum(input.taux);
+  const vAssur = toNum(input.assurance);
+  const vDuree = toNum(input.duree);
+
+  // Décomposition du montant déboursé
+  const capitalNetInvesti = vMontant / (1 + vFraisSous);
+  const fraisSouscription = vMontant - capitalNetInvesti;
+
+  // Distributions (pleine propriété)
+  const distBrutePleine = capitalNetInvesti * vTD;
+  const distBruteAn1 = distBrutePleine * ((12 - vDelai) / 12);
+  const fraisRecurAnn = capitalNetInvesti * vFraisAnn;
+  const distNetteAn1 = Math.max(0, distBruteAn1 - fraisRecurAnn);
+  const distNettePleine = Math.max(0, distBrutePleine - fraisRecurAnn);
+
+  // Fiscalité (IR + PS) sur distributions (PP uniquement)
+  const distApresImpotsAn1 = Math.max(0, distNetteAn1 - distNetteAn1 * (vTMI + vPS));
+  const distApresImpotsPleine = Math.max(0, distNettePleine - distNettePleine * (vTMI + vPS));
+
+  // Financement du montant déboursé (amortissable, amortissement constant ou in fine, différé éventuel)
+  const dette = Math.max(0, vMontant - vApport);
+  const profil: ProfilPret = {
+    amortissement: input.typeAmortissement ?? "Amortissable",
+    differe: input.differe ?? "Aucun",
+    differeMois: toNum(input.differeMois),
+  };
+  const schedule = buildSchedule(dette, vTaux, vAssur, vDuree, false, [], true, profil);
+  const mensu = echeanceApresDiffere(schedule, profil.differe === "Aucun" ? 0 : profil.differeMois);
+  const assurMens = (dette * (vAssur / 100)) / 12;
+  const serviceDetteMens = mensu + assurMens;
+  const coutInterets = schedule.reduce((s, r) => s + r.interets, 0);
+  const remboursementFinal = schedule.length ? schedule[schedule.length - 1].principal : 0;
+
+  // Logique NP (pas de revenus) — valeur reconstituée à terme
+  let valeurPPATerme = 0;
+  let rendementNP = 0;
+  if (input.mode === "Nue-propriété") {
+    const pleinePropAujourd = capitalNetInvesti / (1 - vDecoteNP);
+    valeurPPATerme = pleinePropAujourd * Math.pow(1 + vRevalo, vDurNP);
+    rendementNP = vMontant > 0 && vDurNP > 0 ? (Math.pow(valeurPPATerme / vMontant, 1 / vDurNP) - 1) * 100 : 0;
+  }
+
+  // Résumés
+  const cashflowMensAn1PP = (distApresImpotsAn1 - serviceDetteMens * 12) / 12;
+  const cashflowMensPleinPP = (distApresImpotsPleine - serviceDetteMens * 12) / 12;
+
+  return {
+    capitalNetInvesti,
+    fraisSouscription,
+    distBrutePleine,
+    distBruteAn1,
+    fraisRecurAnn,
+    distNetteAn1,
+    distNettePleine,
+    distApresImpotsAn1,
+    distApresImpotsPleine,
+    dette,
+    mensu,
+    assurMens,
+    serviceDetteMens,
+    schedule,
+    coutInterets,
+    remboursementFinal,
+    valeurPPATerme,
+    rendementNP,
+    cashflowMensAn1PP,
+    cashflowMensPleinPP,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { analyserSensibilite, champsNumeriques, indicateurParDefaut, modifierChamp, valeurChamp } from "./sensibilite";
+import { DEFAULT_STATE } from "./state";
+
+describe("saisies numériques", () => {
+  it("valeur modifiée en texte FR et bornée à la plage du champ", () => {
+    const taux = champsNumeriques("Crédit immobilier").find((c) => c.champ === "taux")!;
+    expect(modifierChamp("Crédit immobilier", DEFAULT_STATE, taux, 3.75).creditImmo.taux).toBe("3,75");
+    expect(valeurChamp("Crédit immobilier", modifierChamp("Crédit immobilier", DEFAULT_STATE, taux, 99), "taux")).toBe(taux.max);
+  });
+});
+
+describe("analyserSensibilite", () => {
+  it("saisies classées de la plus à la moins influente", () => {
+    const r = analyserSensibilite("Local commercial", DEFAULT_STATE, 10);
+    expect(r.indicateur.valeur).toBeCloseTo(indicateurParDefaut("Local commercial", DEFAULT_STATE).calcul(DEFAULT_STATE), 8);
+    for (let i = 1; i < r.impacts.length; i++) expect(r.impacts[i].ecart).toBeLessThanOrEqual(r.impacts[i - 1].ecart);
+    const loyer = r.impacts.find((x) => x.champ === "loyer")!;
+    expect(loyer.ecart).toBeCloseTo(2 * 0.1 * 1500, 6);
+  });
+
+  it("SCPI en nue-propriété : rendement de la nue-propriété", () => {
+    const state = { ...DEFAULT_STATE, scpi: { ...DEFAULT_STATE.scpi, mode: "Nue-propriété" as const } };
+    expect(indicateurParDefaut("SCPI", state).cle).toBe("rendementNP");
+  });
+});
@@ -0,0 +1,268 @@
+import { simulateCapaciteEmprunt } from "./capaciteEmprunt";
+import { simulateCreditImmo } from "./creditImmo";
+import { simulateLocalCommercial } from "./localCommercial";
+import { simulateLocationMeublee } from "./locationMeublee";
+import { simulateLocationNue } from "./locationNue";
+import type { UniteRapport } from "./rapport";
+import { SCHEMA_ETAT } from "./schema";
+import { simulateScpi } from "./scpi";
+import { CLES_ONGLETS, type AppState } from "./state";
+import { toNum } from "./utils";
+import { simulateViager } from "./viager";
+
+/*********************
+ * ANALYSE DE SENSIBILITÉ (TORNADO)
+ *********************/
+// Chaque saisie numérique de l'onglet est décalée de ±x % (bornée à la plage du schéma), les autres
+// restant fixes ; l'écart de l'indicateur clé entre les deux bornes classe les hypothèses.
+export const ONGLETS_SENSIBILITE = ["Capacité d'emprunt", "Crédit immobilier", "Location nue", "Location meublée", "Viager", "SCPI", "Local commercial"] as const;
+export type OngletSensibilite = (typeof ONGLETS_SENSIBILITE)[number];
+
+export const estOngletSensibilite = (onglet: string): onglet is OngletSensibilite => (ONGLETS_SENSIBILITE as readonly string[]).includes(onglet);
+
+export type IndicateurCle = { libelle: string; unite: UniteRapport; valeur: number };
+
+// Indicateurs calculables pour chaque onglet ; `sens` : 1 si une valeur plus haute est favorable, -1 sinon
+export type DefinitionIndicateur = {
+  cle: string;
+  libelle: string;
+  unite: UniteRapport;
+  sens: 1 | -1;
+  calcul: (state: AppState, anneeRef?: number) => number;
+};
+
+export const INDICATEURS: Record<OngletSensibilite, DefinitionIndicateur[]> = {
+  "Capacité d'emprunt": [
+    { cle: "capitalMax", libelle: "Capital empruntable", unite: "€", sens: 1, calcul: (s) => simulateCapaciteEmprunt(s.capacite).capitalMax },
+    { cle: "mensualiteMax", libelle: "Mensualité maximale", unite: "€/mois", sens: 1, calcul: (s) => simulateCapaciteEmprunt(s.capacite).mensualiteMax },
+    { cle: "resteAVivre", libelle: "Reste à vivre", unite: "€/mois", sens: 1, calcul: (s) => simulateCapaciteEmprunt(s.capacite).resteAVivre },
+  ],
+  "Crédit immobilier": [
+    { cle: "coutTotal", libelle: "Coût total du crédit (frais inclus)", unite: "€", sens: -1, calcul: (s) => simulateCreditImmo(s.creditImmo).taeg.coutTotalCredit },
+    { cle: "mensualite", libelle: "Mensualité hors assurance", unite: "€/mois", sens: -1, calcul: (s) => simulateCreditImmo(s.creditImmo).mensuHorsAss },
+    { cle: "taeg", libelle: "TAEG", unite: "%", sens: -1, calcul: (s) => simulateCreditImmo(s.creditImmo).taeg.taeg },
+  ],
+  "Location nue": [
+    { cle: "cashflow", libelle: "Cashflow mensuel après impôts", unite: "€/mois", sens: 1, calcul: (s) => simulateLocationNue(s.locationNue).cashflowMensApresImpots },
+    { cle: "rendementNet", libelle: "Rendement net après impôts", unite: "%", sens: 1, calcul: (s) => simulateLocationNue(s.locationNue).rendementNetApresImpots },
+    { cle: "tri", libelle: "TRI des fonds propres", unite: "%", sens: 1, calcul: (s) => simulateLocationNue(s.locationNue).triProjection },
+  ],
+  "Location meublée": [
+    { cle: "cashflow", libelle: "Cashflow mensuel après impôts", unite: "€/mois", sens: 1, calcul: (s) => simulateLocationMeublee(s.locationMeublee).cashflowMensApresImpots },
+    { cle: "rendementNet", libelle: "Rendement net après impôts", unite: "%", sens: 1, calcul: (s) => simulateLocationMeublee(s.locationMeublee).rendementNetApresImpots },
+    { cle: "impots", libelle: "Impôts et cotisations annuels", unite: "€/an", sens: -1, calcul: (s) => simulateLocationMeublee(s.locationMeublee).impotsAnn },
+  ],
+  Viager: [
+    { cle: "rendement", libelle: "Rendement annualisé (TRI espéré)", unite: "%", sens: 1, calcul: (s, a) => simulateViager(s.viager, a).rendementAnnualise },
+    { cle: "coutTotal", libelle: "Coût total investisseur", unite: "€", sens: -1, calcul: (s, a) => simulateViager(s.viager, a).coutTotalInvestisseur },
+    { cle: "rente", libelle: "Rente mensuelle", unite: "€/mois", sens: -1, calcul: (s, a) => simulateViager(s.viager, a).renteMensuelle },
+  ],
+  SCPI: [
+    { cle: "cashflow", libelle: "Cashflow mensuel après impôts (plein régime)", unite: "€/mois", sens: 1, calcul: (s) => simulateScpi(s.scpi).cashflowMensPleinPP },
+    { cle: "rendementNP", libelle: "Rendement de la nue-propriété", unite: "%/an", sens: 1, calcul: (s) => simulateScpi(s.scpi).rendementNP },
+    { cle: "distribution", libelle: "Distribution après impôts (plein régime)", unite: "€/an", sens: 1, calcul: (s) => simulateScpi(s.scpi).distApresImpotsPleine },
+  ],
+  "Local commercial": [
+    { cle: "cashflow", libelle: "Cashflow mensuel", unite: "€/mois", sens: 1, calcul: (s) => simulateLocalCommercial(s.localCommercial).cashflowMens },
+    { cle: "rendementNet", libelle: "Rendement net", unite: "%", sens: 1, calcul: (s) => simulateLocalCommercial(s.localCommercial).rendementNet },
+    { cle: "rendementBrut", libelle: "Rendement brut", unite: "%", sens: 1, calcul: (s) => simulateLocalCommercial(s.localCommercial).rendementBrut },
+  ],
+};
+
+// Indicateur clé de l'onglet (en SCPI, selon le mode de détention)
+export function indicateurParDefaut(onglet: OngletSensibilite, state: AppState): DefinitionIndicateur {
+  const cle = onglet === "SCPI" && state.scpi.mode === "Nue-propriété" ? "rendementNP" : INDICATEURS[onglet][0].cle;
+  return INDICATEURS[onglet].find((i) => i.cle === cle)!;
+}
+
+export function indicateurCle(onglet: OngletSensibilite, state: AppState, anneeRef?: number): IndicateurCle {
+  const { libelle, unite, calcul } = indicateurParDefaut(onglet, state);
+  return { libelle, unite, valeur: calcul(state, anneeRef) };
+}
+
+type TrancheSensibilite = AppState[(typeof CLES_ONGLETS)[OngletSensibilite]];
+
+// Libellés des saisies numériques (ceux des formulaires)
+const LIBELLES_CHAMPS: Record<OngletSensibilite, Partial<Record<string, string>>> = {
+  "Capacité d'emprunt": {
+    revenusMensuels: "Revenus nets mensuels du foyer",
+    loyersPercus: "Loyers perçus",
+    creditsEnCours: "Mensualités de crédits en cours",
+    personnesFoyer: "Personnes dans le foyer",
+    taux: "Taux nominal",
+    assurance: "Assurance emprunteur",
+    duree: "Durée",
+    tauxEndettementMax: "Taux d'endettement maximal",
+  },
+  "Crédit immobilier": {
+    capital: "Capital emprunté",
+    taux: "Taux nominal",
+    assurance: "Assurance emprunteur",
+    duree: "Durée",
+    differeMois: "Durée du différé",
+    fraisDossier: "Frais de dossier",
+    fraisGarantie: "Frais de garantie",
+    restitutionGarantiePct: "Part de garantie restituée",
+    fraisCourtage: "Frais de courtage",
+    indexInitial: "Indice initial (Euribor)",
+    marge: "Marge de la banque",
+    cap: "Cap (hausse maximale)",
+    plancher: "Plancher (baisse maximale)",
+    revisionMois: "Périodicité de révision",
+  },
+  "Location nue": {
+    prix: "Prix du bien",
+    apport: "Apport",
+    taux: "Taux du prêt",
+    assurance: "Assurance emprunteur",
+    duree: "Durée du prêt",
+    loyer: "Loyer mensuel",
+    charges: "Charges (annuelles)",
+    taxe: "Taxe foncière",
+    travauxInit: "Travaux (initiaux, cash)",
+    tmiLoc: "TMI (IR)",
+    psLoc: "Prélèvements sociaux",
+    dureeDetention: "Durée de détention",
+    indexLoyer: "Indexation des loyers (IRL)",
+    inflationCharges: "Inflation charges & taxe foncière",
+    hausseImmo: "Hausse des prix immo",
+    fraisVentePct: "Frais de revente",
+    tauxActualisation: "Taux d'actualisation",
+  },
+  "Location meublée": {
+    prix: "Prix du bien",
+    apport: "Apport",
+    taux: "Taux du prêt",
+    assurance: "Assurance",
+    duree: "Durée du prêt",
+    loyer: "Loyer mensuel (meublé)",
+    charges: "Charges (annuelles)",
+    taxe: "Taxe foncière (annuelle)",
+    travauxInit: "Travaux (initiaux, cash)",
+    mobilier: "Mobilier",
+    partTerrain: "Part du terrain",
+    tmi: "TMI (IR)",
+    ps: "Prélèvements sociaux (LMNP)",
+    autresRevenusActivite: "Autres revenus d'activité du foyer",
+    tauxCotisationsLmp: "Cotisations sociales (LMP)",
+    dureeDetention: "Durée de projection",
+    indexLoyer: "Indexation des loyers (IRL)",
+    inflationCharges: "Inflation charges & taxe foncière",
+  },
+  Viager: {
+    valeur: "Valeur vénale (marché)",
+    age: "Âge du crédirentier",
+    age2: "Âge du second crédirentier",
+    reversionPct: "Réversion de la rente",
+    taux: "Taux d'actualisation",
+    bouquetPct: "Bouquet (sur base)",
+    index: "Taux de révision rente",
+    charges: "Charges (annuelles)",
+    taxe: "Taxe foncière",
+    loyer: "Loyer mensuel estimé (DUH)",
+    hausseImmo: "Hausse des prix immo",
+    fraisVentePct: "Frais de revente",
+    dureeTerme: "Durée de paiement (vente à terme)",
+    mcTirages: "Nombre de tirages",
+    mcVolatilite: "Volatilité prix immo",
+  },
+  SCPI: {
+    montant: "Montant investi",
+    td: "Taux de distribution (TD)",
+    fraisSous: "Frais de souscription",
+    fraisAnn: "Frais récurrents additionnels",
+    delaiJouissanceMois: "Délai de jouissance",
+    tmiIr: "TMI (IR)",
+    ps: "Prélèvements sociaux",
+    dureeNP: "Durée du démembrement",
+    decoteNP: "Décote nue-propriété",
+    revaloParts: "Revalo prix de part",
+    apport: "Apport",
+    taux: "Taux du prêt",
+    assurance: "Assurance emprunteur",
+    duree: "Durée du prêt",
+    differeMois: "Durée du différé",
+  },
+  "Local commercial": {
+    prix: "Prix du bien",
+    apport: "Apport",
+    taux: "Taux du prêt",
+    assurance: "Assurance emprunteur",
+    duree: "Durée du prêt",
+    loyer: "Loyer mensuel (HC)",
+    charges: "Charges annuelles",
+    taxe: "Taxe foncière",
+  },
+};
+
+export type ChampNumerique = { champ: string; libelle: string; min?: number; max?: number };
+
+// Saisies numériques simples de l'onglet (hors listes), avec leur plage autorisée
+export function champsNumeriques(onglet: OngletSensibilite): ChampNumerique[] {
+  const schema = SCHEMA_ETAT[CLES_ONGLETS[onglet]] as Record<string, { type: string; min?: number; max?: number }>;
+  return Object.entries(schema)
+    .filter(([, r]) => r.type === "nombre")
+    .map(([champ, r]) => ({ champ, libelle: LIBELLES_CHAMPS[onglet][champ] ?? champ, min: r.min, max: r.max }));
+}
+
+// Saisie numérique remplacée (texte au format FR, bornée à la plage du champ)
+export function modifierChamp(onglet: OngletSensibilite, state: AppState, c: ChampNumerique, valeur: number): AppState {
+  const borne = Math.min(c.max ?? Infinity, Math.max(c.min ?? -Infinity, valeur));
+  const texte = String(Math.round(borne * 1e6) / 1e6).replace(".", ",");
+  const cle = CLES_ONGLETS[onglet];
+  return { ...state, [cle]: { ...(state[cle] as TrancheSensibilite), [c.champ]: texte } };
+}
+
+export const valeurChamp = (onglet: OngletSensibilite, state: AppState, champ: string) =>
+  toNum((state[CLES_ONGLETS[onglet]] as Record<string, unknown>)[champ] as string);
+
+export type ImpactSensibilite = {
+  champ: string;
+  libelle: string;
+  base: number;
+  basse: number; // saisie à -x %
+  haute: number; // saisie à +x %
+  resultatBas: number;
+  resultatHaut: number;
+  ecart: number; // |résultat haut - résultat bas|
+};
+
+export type AnalyseSensibilite = {
+  indicateur: IndicateurCle;
+  variationPct: number;
+  impacts: ImpactSensibilite[]; // du plus influent au moins influent, sans les saisies sans effet
+  ignores: string[]; // saisies nulles (une variation en % est sans objet)
+};
+
+export function analyserSensibilite(onglet: OngletSensibilite, state: AppState, variationPct = 10, anneeRef?: number): AnalyseSensibilite {
+  const indicateur = indicateurCle(onglet, state, anneeRef);
+  const ignores: string[] = [];
+  const impacts: ImpactSensibilite[] = [];
+
+  champsNumeriques(onglet).forEach((c) => {
+    const base = valeurChamp(onglet, state, c.champ);
+    if (base === 0) {
+      ignores.push(c.libelle);
+      return;
+    }
+    const bas = modifierChamp(onglet, state, c, base * (1 - variationPct / 100));
+    const haut = modifierChamp(onglet, state, c, base * (1 + variationPct / 100));
+    const resultatBas = indicateurCle(onglet, bas, anneeRef).valeur;
+    const resultatHaut = indicateurCle(onglet, haut, anneeRef).valeur;
+    const ecart = Math.abs(resultatHaut - resultatBas);
+    if (!Number.isFinite(ecart) || ecart < 1e-9) return;
+    impacts.push({
+      champ: c.champ,
+      libelle: c.libelle,
+      base,
+      basse: valeurChamp(onglet, bas, c.champ),
+      haute: valeurChamp(onglet, haut, c.champ),
+      resultatBas,
+      resultatHaut,
+      ecart,
+    });
+  });
+
+  impacts.sort((a, b) => b.ecart - a.ecart);
+  return { indicateur, variationPct, impacts, ignores };
+}
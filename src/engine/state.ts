@@ -0,0 +1,343 @@
+import { SEUILS_USURE_DEFAUT } from "./taeg";
+
+// Onglets de simulation (hors pages éditoriales) et tranche de l'état global associée
+export const ONGLETS_SIMULATEURS = [
+  "Capacité d'emprunt",
+  "Crédit immobilier",
+  "Location nue",
+  "Location meublée",
+  "Viager",
+  "SCPI",
+  "Local commercial",
+  "Comparatif",
+] as const;
+export type OngletSimulateur = (typeof ONGLETS_SIMULATEURS)[number];
+
+export const estOngletSimulateur = (onglet: string): onglet is OngletSimulateur => (ONGLETS_SIMULATEURS as readonly string[]).includes(onglet);
+
+// Type de l'état global (une entrée par simulateur, valeurs saisies sous forme de texte)
+export type AppState = {
+  locationNue: {
+    prix: string;
+    apport: string;
+    taux: string;
+    assurance: string;
+    duree: string;
+    loyer: string;
+    charges: string;
+    taxe: string;
+    travauxInit: string;
+    tmiLoc: string;
+    psLoc: string;
+    regimeFiscal: "Micro-foncier" | "Réel";
+    departement: string;
+    neuf: boolean;
+    dureeDetention: string;
+    indexLoyer: string;
+    inflationCharges: string;
+    hausseImmo: string;
+    fraisVentePct: string;
+    tauxActualisation: string;
+  };
+  locationMeublee: {
+    prix: string;
+    apport: string;
+    taux: string;
+    assurance: string;
+    duree: string;
+    loyer: string;
+    charges: string;
+    taxe: string;
+    travauxInit: string;
+    mobilier: string;
+    partTerrain: string;
+    tmi: string;
+    ps: string;
+    regimeFiscal: "Micro-BIC" | "Réel BIC";
+    autresRevenusActivite: string;
+    tauxCotisationsLmp: string;
+    departement: string;
+    neuf: boolean;
+    dureeDetention: string;
+    indexLoyer: string;
+    inflationCharges: string;
+  };
+  viager: {
+    mode: "Viager occupé" | "Viager libre" | "Vente à terme";
+    valeur: string;
+    age: string;
+    sexe: string;
+    tableMortalite: "INSEE 2019-2021 approchée" | "Prospective approchée (base 2005)";
+    couple: boolean;
+    age2: string;
+    sexe2: string;
+    reversionPct: string;
+    taux: string;
+    bouquetPct: string;
+    index: string;
+    charges: string;
+    taxe: string;
+    loyer: string;
+    hausseImmo: string;
+    fraisVentePct: string;
+    dureeTerme: string;
+    departement: string;
+    mcTirages: string;
+    mcVolatilite: string;
+  };
+  scpi: {
+    montant: string;
+    td: string;
+    fraisSous: string;
+    fraisAnn: string;
+    delaiJouissanceMois: string;
+    mode: "Pleine propriété" | "Nue-propriété";
+    tmiIr: string;
+    ps: string;
+    dureeNP: string;
+    decoteNP: string;
+    revaloParts: string;
+    apport: string;
+    taux: string;
+    assurance: string;
+    duree: string;
+    typeAmortissement: "Amortissable" | "Amortissement constant" | "In fine";
+    differe: "Aucun" | "Partiel" | "Total";
+    differeMois: string;
+  };
+  localCommercial: {
+    prix: string;
+    apport: string;
+    taux: string;
+    assurance: string;
+    duree: string;
+    loyer: string;
+    charges: string;
+    taxe: string;
+    departement: string;
+    neuf: boolean;
+  };
+  creditImmo: {
+    capital: string;
+    taux: string;
+    assurance: string;
+    duree: string;
+    assuranceSurCRD: boolean; // NOUVEAU
+    typeAmortissement: "Amortissable" | "Amortissement constant" | "In fine";
+    differe: "Aucun" | "Partiel" | "Total";
+    differeMois: string;
+    indemnitesRA: boolean;
+    evenements: {
+      type: "Remboursement partiel" | "Remboursement total" | "Modulation";
+      mois: string;
+      montant: string;
+      option: "Réduire la durée" | "Réduire la mensualité";
+      modulationPct: string;
+    }[];
+    fraisDossier: string;
+    garantie: "Caution Crédit Logement" | "Hypothèque / PPD" | "Aucune";
+    fraisGarantie: string;
+    restitutionGarantiePct: string;
+    fraisCourtage: string;
+    seuilsUsure: string[];
+    lissage: boolean;
+    lignes: {
+      type: "PTZ" | "Action Logement" | "Autre prêt";
+      montant: string;
+      taux: string;
+      assurance: string;
+      duree: string;
+      differe: string;
+    }[];
+    typeTaux: "Fixe" | "Variable capé";
+    indexInitial: string;
+    marge: string;
+    cap: string;
+    plancher: string;
+    revisionMois: string;
+    ajustementRevision: "Durée constante" | "Mensualité constante";
+    scenarioIndex: "Stable" | "+2 pts" | "-1 pt" | "Personnalisé";
+    trajectoireIndex: string[];
+  };
+  capacite: {
+    revenusMensuels: string;
+    loyersPercus: string;
+    creditsEnCours: string;
+    personnesFoyer: string;
+    taux: string;
+    assurance: string;
+    duree: string;
+    tauxEndettementMax: string;
+  };
+  comparaison: {
+    horizon: string;
+    hausseImmo: string;
+    fraisVentePct: string;
+    alignerCapital: boolean;
+    capitalCible: string;
+    critere: "TRI" | "Patrimoine net" | "Effort mensuel";
+  };
+};
+
+// Clé de l'état global associée à chaque simulateur
+export const CLES_ONGLETS: Record<OngletSimulateur, keyof AppState> = {
+  "Capacité d'emprunt": "capacite",
+  "Crédit immobilier": "creditImmo",
+  "Location nue": "locationNue",
+  "Location meublée": "locationMeublee",
+  Viager: "viager",
+  SCPI: "scpi",
+  "Local commercial": "localCommercial",
+  Comparatif: "comparaison",
+};
+
+// État par défaut de l'application
+export const DEFAULT_STATE: AppState = {
+  locationNue: {
+    prix: "292000",
+    apport: "72000",
+    taux: "2,5",
+    assurance: "0,35",
+    duree: "20",
+    loyer: "740",
+    charges: "1200",
+    taxe: "1300",
+    travauxInit: "0",
+    tmiLoc: "30",
+    psLoc: "17,2",
+    regimeFiscal: "Micro-foncier",
+    departement: "75",
+    neuf: false,
+    dureeDetention: "20",
+    indexLoyer: "1,5",
+    inflationCharges: "2",
+    hausseImmo: "1,5",
+    fraisVentePct: "6",
+    tauxActualisation: "3",
+  },
+  locationMeublee: {
+    prix: "292000",
+    apport: "72000",
+    taux: "2,5",
+    assurance: "0,35",
+    duree: "20",
+    loyer: "850",
+    charges: "1400",
+    taxe: "1300",
+    travauxInit: "0",
+    mobilier: "8000",
+    partTerrain: "15",
+    tmi: "30",
+    ps: "17,2",
+    regimeFiscal: "Réel BIC",
+    autresRevenusActivite: "40000",
+    tauxCotisationsLmp: "35",
+    departement: "75",
+    neuf: false,
+    dureeDetention: "20",
+    indexLoyer: "1,5",
+    inflationCharges: "2",
+  },
+  viager: {
+    mode: "Viager occupé",
+    valeur: "292000",
+    age: "71",
+    sexe: "Femme",
+    tableMortalite: "INSEE 2019-2021 approchée",
+    couple: false,
+    age2: "74",
+    sexe2: "Homme",
+    reversionPct: "100",
+    taux: "2",
+    bouquetPct: "30",
+    index: "1,1",
+    charges: "1200",
+    taxe: "1300",
+    loyer: "740",
+    hausseImmo: "1,5",
+    fraisVentePct: "6",
+    dureeTerme: "15",
+    departement: "75",
+    mcTirages: "2000",
+    mcVolatilite: "5",
+  },
+  scpi: {
+    montant: "50000",
+    td: "5",
+    fraisSous: "8",
+    fraisAnn: "0",
+    delaiJouissanceMois: "3",
+    mode: "Pleine propriété",
+    tmiIr: "30",
+    ps: "17,2",
+    dureeNP: "10",
+    decoteNP: "30",
+    revaloParts: "1",
+    apport: "10000",
+    taux: "3,1",
+    assurance: "0,30",
+    duree: "15",
+    typeAmortissement: "Amortissable",
+    differe: "Aucun",
+    differeMois: "12",
+  },
+  localCommercial: {
+    prix: "250000",
+    apport: "50000",
+    taux: "3",
+    assurance: "0,30",
+    duree: "20",
+    loyer: "1500",
+    charges: "2000",
+    taxe: "1500",
+    departement: "75",
+    neuf: false,
+  },
+  creditImmo: {
+    capital: "250000",
+    taux: "3,20",
+    assurance: "0,30",
+    duree: "25",
+    assuranceSurCRD: false, // NOUVEAU
+    typeAmortissement: "Amortissable",
+    differe: "Aucun",
+    differeMois: "12",
+    indemnitesRA: true,
+    evenements: [],
+    fraisDossier: "1000",
+    garantie: "Caution Crédit Logement",
+    fraisGarantie: "2500",
+    restitutionGarantiePct: "30",
+    fraisCourtage: "1500",
+    seuilsUsure: [...SEUILS_USURE_DEFAUT],
+    lissage: false,
+    lignes: [],
+    typeTaux: "Fixe",
+    indexInitial: "2,20",
+    marge: "1,00",
+    cap: "1",
+    plancher: "1",
+    revisionMois: "12",
+    ajustementRevision: "Durée constante",
+    scenarioIndex: "Stable",
+    trajectoireIndex: [],
+  },
+  capacite: {
+    revenusMensuels: "4500",
+    loyersPercus: "0",
+    creditsEnCours: "0",
+    personnesFoyer: "2",
+    taux: "3,20",
+    assurance: "0,30",
+    duree: "25",
+    tauxEndettementMax: "35",
+  },
+  comparaison: {
+    horizon: "20",
+    hausseImmo: "1,5",
+    fraisVentePct: "6",
+    alignerCapital: false,
+    capitalCible: "72000",
+    critere: "TRI",
+  },
+};
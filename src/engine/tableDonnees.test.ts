@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { INDICATEURS } from "./sensibilite";
+import { DEFAULT_STATE } from "./state";
+import { axeParDefaut, calculerTableDonnees, valeursAxe } from "./tableDonnees";
+
+const cashflow = INDICATEURS["Local commercial"][0];
+
+describe("axes", () => {
+  it("valeurs régulièrement espacées, bornes comprises", () => {
+    expect(valeursAxe({ champ: "loyer", min: 1000, max: 2000, points: 5 })).toEqual([1000, 1250, 1500, 1750, 2000]);
+    expect(valeursAxe({ champ: "loyer", min: 0, max: 1, points: 50 })).toHaveLength(15);
+  });
+
+  it("axe par défaut : saisie actuelle ±20 %", () => {
+    const axe = axeParDefaut("Local commercial", DEFAULT_STATE, "loyer");
+    expect(axe.min).toBeCloseTo(1200, 8);
+    expect(axe.max).toBeCloseTo(1800, 8);
+  });
+});
+
+describe("calculerTableDonnees", () => {
+  it("indicateur recalculé pour chaque case, frontière du point mort repérée", () => {
+    const t = calculerTableDonnees(
+      "Local commercial",
+      DEFAULT_STATE,
+      cashflow,
+      { champ: "prix", min: 250000, max: 250000, points: 2 },
+      { champ: "loyer", min: 500, max: 2500, points: 5 },
+      0
+    );
+    expect(t.valeurs[0][2]).toBeCloseTo(cashflow.calcul(DEFAULT_STATE), 8);
+    expect(t.valeurs[0][3] - t.valeurs[0][2]).toBeCloseTo(500, 8);
+    const signes = t.valeurs[0].map((v) => v >= 0);
+    t.frontiere[0].forEach((f, j) => expect(f.droite).toBe(j + 1 < signes.length && signes[j] !== signes[j + 1]));
+    expect(t.plage.max).toBe(Math.max(...t.valeurs.flat()));
+  });
+});
@@ -0,0 +1,94 @@
+import { champsNumeriques, modifierChamp, valeurChamp, type DefinitionIndicateur, type OngletSensibilite } from "./sensibilite";
+import type { AppState } from "./state";
+
+/*********************
+ * TABLE DE DONNÉES À DEUX ENTRÉES
+ *********************/
+// Comme une table de données Excel : l'indicateur choisi est recalculé pour chaque couple de valeurs
+// de deux saisies (les autres restant fixes). La frontière sépare les cases au-dessus et au-dessous
+// du seuil (point mort) : elle est repérée sur les bords droit et bas de chaque case.
+export const TAILLE_MAX_AXE = 15;
+
+export type AxeTable = {
+  champ: string;
+  min: number;
+  max: number;
+  points: number; // nombre de valeurs, bornes comprises
+};
+
+export type TableDonnees = {
+  lignes: number[]; // valeurs de la saisie en ligne
+  colonnes: number[];
+  valeurs: number[][]; // valeurs[i][j] : indicateur pour lignes[i] × colonnes[j]
+  seuil: number;
+  frontiere: { droite: boolean; bas: boolean }[][];
+  plage: { min: number; max: number }; // valeurs finies extrêmes
+};
+
+// Couple de saisies proposé à l'ouverture de la table
+export const AXES_PAR_DEFAUT: Record<OngletSensibilite, [string, string]> = {
+  "Capacité d'emprunt": ["revenusMensuels", "taux"],
+  "Crédit immobilier": ["taux", "duree"],
+  "Location nue": ["prix", "loyer"],
+  "Location meublée": ["prix", "loyer"],
+  Viager: ["age", "bouquetPct"],
+  SCPI: ["montant", "td"],
+  "Local commercial": ["prix", "loyer"],
+};
+
+// Plage initiale d'un axe : saisie actuelle ±20 % (bornée à la plage du champ), ou toute la plage si la saisie est nulle
+export function axeParDefaut(onglet: OngletSensibilite, state: AppState, champ: string, points = 7): AxeTable {
+  const c = champsNumeriques(onglet).find((x) => x.champ === champ);
+  const base = valeurChamp(onglet, state, champ);
+  const borne = (v: number) => Math.min(c?.max ?? Infinity, Math.max(c?.min ?? -Infinity, v));
+  if (base === 0) return { champ, min: c?.min ?? 0, max: c?.max ?? 100, points };
+  return { champ, min: borne(Math.min(base * 0.8, base * 1.2)), max: borne(Math.max(base * 0.8, base * 1.2)), points };
+}
+
+export function valeursAxe(axe: AxeTable): number[] {
+  const n = Math.max(2, Math.min(TAILLE_MAX_AXE, Math.round(axe.points)));
+  return Array.from({ length: n }, (_, i) => axe.min + ((axe.max - axe.min) * i) / (n - 1));
+}
+
+// Couple de saisies appliqué à l'état (bornées à leur plage autorisée)
+export function appliquerCellule(onglet: OngletSensibilite, state: AppState, champLigne: string, valeurLigne: number, champColonne: string, valeurColonne: number): AppState {
+  const champs = champsNumeriques(onglet);
+  const cl = champs.find((c) => c.champ === champLigne);
+  const cc = champs.find((c) => c.champ === champColonne);
+  if (!cl || !cc) return state;
+  return modifierChamp(onglet, modifierChamp(onglet, state, cl, valeurLigne), cc, valeurColonne);
+}
+
+export function calculerTableDonnees(
+  onglet: OngletSensibilite,
+  state: AppState,
+  indicateur: DefinitionIndicateur,
+  axeLignes: AxeTable,
+  axeColonnes: AxeTable,
+  seuil = 0,
+  anneeRef?: number
+): TableDonnees {
+  const lignes = valeursAxe(axeLignes);
+  const colonnes = valeursAxe(axeColonnes);
+  const valeurs = lignes.map((vl) =>
+    colonnes.map((vc) => indicateur.calcul(appliquerCellule(onglet, state, axeLignes.champ, vl, axeColonnes.champ, vc), anneeRef))
+  );
+
+  const cote = (v: number) => (Number.isFinite(v) ? v >= seuil : null);
+  const frontiere = valeurs.map((ligne, i) =>
+    ligne.map((v, j) => ({
+      droite: j + 1 < ligne.length && cote(v) !== null && cote(ligne[j + 1]) !== null && cote(v) !== cote(ligne[j + 1]),
+      bas: i + 1 < valeurs.length && cote(v) !== null && cote(valeurs[i + 1][j]) !== null && cote(v) !== cote(valeurs[i + 1][j]),
+    }))
+  );
+
+  const finies = valeurs.flat().filter(Number.isFinite);
+  return {
+    lignes,
+    colonnes,
+    valeurs,
+    seuil,
+    frontiere,
+    plage: { min: finies.length ? Math.min(...finies) : 0, max: finies.length ? Math.max(...finies) : 0 },
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildSchedule } from "./creditImmo";
+import { calculateTaeg, trancheUsure, type FraisCredit } from "./taeg";
+
+const sansFrais: FraisCredit = { fraisDossier: 0, garantie: "Aucune", fraisGarantie: 0, restitutionGarantiePct: 0, fraisCourtage: 0 };
+
+describe("calculateTaeg", () => {
+  it("sans frais ni assurance : taux actuariel équivalent au taux nominal", () => {
+    const r = calculateTaeg(100000, buildSchedule(100000, 3.6, 0, 20, false), sansFrais, 20, [5, 5, 5]);
+    expect(r.taeg).toBeCloseTo((Math.pow(1.003, 12) - 1) * 100, 6);
+    expect(r.montantNet).toBe(100000);
+    expect(r.depasseUsure).toBe(false);
+  });
+
+  it("frais, assurance et restitution de la caution", () => {
+    const schedule = buildSchedule(100000, 3.6, 0.3, 20, false);
+    const frais: FraisCredit = { fraisDossier: 1000, garantie: "Caution Crédit Logement", fraisGarantie: 1500, restitutionGarantiePct: 40, fraisCourtage: 500 };
+    const r = calculateTaeg(100000, schedule, frais, 20, [5.31, 5.38, 4]);
+    const interets = schedule.reduce((s, x) => s + x.interets, 0);
+    expect(r.fraisInitiaux).toBe(3000);
+    expect(r.restitutionGarantie).toBe(600);
+    expect(r.montantNet).toBe(97000);
+    expect(r.coutTotalCredit).toBeCloseTo(interets + 240 * 25 + 3000 - 600, 6);
+    expect(r.taeg).toBeGreaterThan(3.66);
+    expect(r.seuilUsure).toBe(4);
+    expect(r.depasseUsure).toBe(r.taeg > 4);
+  });
+
+  it("garantie « Aucune » : frais de garantie ignorés", () => {
+    const r = calculateTaeg(100000, buildSchedule(100000, 3.6, 0, 20, false), { ...sansFrais, fraisGarantie: 2000 }, 20, []);
+    expect(r.fraisInitiaux).toBe(0);
+    expect(r.depasseUsure).toBe(false);
+  });
+});
+
+describe("trancheUsure", () => {
+  it("tranches de durée de la Banque de France", () => {
+    expect(trancheUsure(9.9)).toBe(0);
+    expect(trancheUsure(10)).toBe(1);
+    expect(trancheUsure(19)).toBe(1);
+    expect(trancheUsure(20)).toBe(2);
+    expect(trancheUsure(25)).toBe(2);
+  });
+});
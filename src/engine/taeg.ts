@@ -0,0 +1,73 @@
+import type { ScheduleRow } from "./creditImmo";
+import { irr } from "./finance";
+
+/*********************
+ * TAEG & TAUX D'USURE
+ *********************/
+// TAEG selon la méthode actuarielle réglementaire (art. R314-3 C. conso.) : taux annuel effectif
+// qui égalise le montant net mis à disposition (capital - frais initiaux) et la valeur actuelle des
+// échéances (assurance comprise), remboursements anticipés et restitution de garantie en fin de prêt.
+export const GARANTIES = ["Caution Crédit Logement", "Hypothèque / PPD", "Aucune"] as const;
+export type Garantie = (typeof GARANTIES)[number];
+
+// Tranches de durée des seuils d'usure des prêts immobiliers à taux fixe (Banque de France)
+export const TRANCHES_USURE = [
+  { libelle: "Moins de 10 ans", dureeMax: 10 },
+  { libelle: "De 10 à moins de 20 ans", dureeMax: 20 },
+  { libelle: "20 ans et plus", dureeMax: Infinity },
+] as const;
+
+// Seuils indicatifs, publiés chaque trimestre par la Banque de France : à mettre à jour dans l'interface
+export const SEUILS_USURE_DEFAUT = ["5,13", "5,38", "5,31"];
+
+export type FraisCredit = {
+  fraisDossier: number;
+  garantie: Garantie;
+  fraisGarantie: number;
+  restitutionGarantiePct: number;
+  fraisCourtage: number;
+};
+
+export type TaegResult = {
+  taeg: number;
+  fraisInitiaux: number;
+  restitutionGarantie: number;
+  montantNet: number;
+  coutTotalCredit: number;
+  trancheUsure: string;
+  seuilUsure: number;
+  depasseUsure: boolean;
+};
+
+export function trancheUsure(dureeAns: number) {
+  const i = TRANCHES_USURE.findIndex((t) => dureeAns < t.dureeMax);
+  return i === -1 ? TRANCHES_USURE.length - 1 : i;
+}
+
+export function calculateTaeg(capital: number, schedule: ScheduleRow[], frais: FraisCredit, dureeAns: number, seuilsUsure: number[]): TaegResult {
+  const fraisGarantie = frais.garantie === "Aucune" ? 0 : frais.fraisGarantie;
+  const fraisInitiaux = frais.fraisDossier + fraisGarantie + frais.fraisCourtage;
+  // Crédit Logement restitue une partie de la participation au fonds mutuel de garantie en fin de prêt
+  const restitutionGarantie = frais.garantie === "Caution Crédit Logement" ? (fraisGarantie * frais.restitutionGarantiePct) / 100 : 0;
+  const montantNet = capital - fraisInitiaux;
+
+  // Sommes réellement versées chaque mois (intérêts capitalisés en différé total : intérêts + principal = 0)
+  const flux = [montantNet, ...schedule.map((r) => -(r.interets + r.principal + r.assurance + r.remboursementAnticipe + r.indemnites))];
+  if (flux.length > 1) flux[flux.length - 1] += restitutionGarantie;
+
+  const taeg = schedule.length && montantNet > 0 ? irr(flux, 12) : NaN;
+  const tranche = trancheUsure(dureeAns);
+  const seuilUsure = seuilsUsure[tranche] ?? NaN;
+  const coutTotalCredit = schedule.reduce((s, r) => s + r.interets + r.assurance + r.indemnites, 0) + fraisInitiaux - restitutionGarantie;
+
+  return {
+    taeg,
+    fraisInitiaux,
+    restitutionGarantie,
+    montantNet,
+    coutTotalCredit,
+    trancheUsure: TRANCHES_USURE[tranche].libelle,
+    seuilUsure,
+    depasseUsure: Number.isFinite(taeg) && Number.isFinite(seuilUsure) && taeg > seuilUsure,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildSchedule } from "./creditImmo";
+import { buildVariableSchedule, tauxRevise, trajectoireIndex, type TauxVariable } from "./tauxVariable";
+
+const variable: TauxVariable = { indexInitial: 2, marge: 1, cap: 1, plancher: 1, revisionMois: 12, ajustement: "Durée constante" };
+
+describe("trajectoireIndex", () => {
+  it("les scénarios atteignent leur choc en deux ans", () => {
+    expect(trajectoireIndex("+2 pts", 2, 5)).toEqual([2, 3, 4, 4, 4]);
+    expect(trajectoireIndex("-1 pt", 2, 3)).toEqual([2, 1.5, 1]);
+  });
+
+  it("personnalisé : dernière saisie reconduite", () => {
+    expect(trajectoireIndex("Personnalisé", 2, 4, [NaN, 3, NaN])).toEqual([2, 3, 3, 3]);
+  });
+});
+
+describe("tauxRevise", () => {
+  it("variation bornée par le cap et le plancher", () => {
+    expect(tauxRevise(variable, 5)).toBe(4);
+    expect(tauxRevise(variable, 0)).toBe(2);
+    expect(tauxRevise(variable, 2.5)).toBe(3.5);
+  });
+});
+
+describe("buildVariableSchedule", () => {
+  it("indice stable : identique au prêt à taux fixe", () => {
+    const fixe = buildSchedule(100000, 3, 0.3, 20, false);
+    const rows = buildVariableSchedule(100000, 0.3, 20, false, variable, trajectoireIndex("Stable", 2, 20));
+    expect(rows).toHaveLength(240);
+    rows.forEach((r, i) => expect(r.echeance).toBeCloseTo(fixe[i].echeance, 8));
+  });
+
+  it("hausse capée, durée constante : mensualité révisée, prêt soldé au terme", () => {
+    const rows = buildVariableSchedule(100000, 0, 20, false, variable, trajectoireIndex("+2 pts", 2, 20));
+    expect(rows).toHaveLength(240);
+    expect(rows[239].crd).toBe(0);
+    expect(rows[36].interets / rows[35].crd).toBeCloseTo(0.04 / 12, 10);
+    expect(rows[36].echeance).toBeGreaterThan(rows[0].echeance);
+  });
+
+  it("hausse, mensualité constante : durée allongée", () => {
+    const rows = buildVariableSchedule(100000, 0, 20, false, { ...variable, ajustement: "Mensualité constante" }, trajectoireIndex("+2 pts", 2, 20));
+    expect(rows.length).toBeGreaterThan(240);
+    expect(rows[rows.length - 1].crd).toBe(0);
+  });
+
+  it("dernière échéance limitée au capital restant dû", () => {
+    const rows = buildVariableSchedule(100000, 0.3, 20, false, { ...variable, ajustement: "Mensualité constante" }, trajectoireIndex("+2 pts", 2, 20));
+    const derniere = rows[rows.length - 1];
+    expect(derniere.echeance).toBeLessThan(rows[rows.length - 2].echeance);
+    rows.forEach((r) => expect(r.echeance).toBeCloseTo(r.interets + r.principal + r.assurance, 8));
+  });
+});
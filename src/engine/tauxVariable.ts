@@ -0,0 +1,89 @@
+import type { ScheduleRow } from "./creditImmo";
+import { annuityPayment } from "./finance";
+
+/*********************
+ * PRÊT À TAUX VARIABLE CAPÉ
+ *********************/
+// Taux initial = indice de référence (Euribor) + marge. À chaque révision, le taux suit la variation
+// de l'indice depuis l'origine, bornée par le cap (hausse) et le plancher (baisse), sans descendre sous 0.
+export const TYPES_TAUX = ["Fixe", "Variable capé"] as const;
+export type TypeTaux = (typeof TYPES_TAUX)[number];
+
+export const SCENARIOS_INDEX = ["Stable", "+2 pts", "-1 pt", "Personnalisé"] as const;
+export type ScenarioIndex = (typeof SCENARIOS_INDEX)[number];
+
+export const AJUSTEMENTS_REVISION = ["Durée constante", "Mensualité constante"] as const;
+export type AjustementRevision = (typeof AJUSTEMENTS_REVISION)[number];
+
+export type TauxVariable = {
+  indexInitial: number;
+  marge: number;
+  cap: number;
+  plancher: number;
+  revisionMois: number;
+  ajustement: AjustementRevision;
+};
+
+// Indice de chaque année du prêt ; les scénarios prédéfinis atteignent leur choc en deux ans
+export function trajectoireIndex(scenario: ScenarioIndex, indexInitial: number, years: number, personnalisee: number[] = []): number[] {
+  const n = Math.max(1, Math.ceil(years));
+  const choc = scenario === "+2 pts" ? 2 : scenario === "-1 pt" ? -1 : 0;
+  return Array.from({ length: n }, (_, y) => {
+    if (scenario === "Personnalisé") {
+      const saisies = personnalisee.slice(0, y + 1).filter((v) => Number.isFinite(v));
+      return saisies.length ? saisies[saisies.length - 1] : indexInitial;
+    }
+    return indexInitial + choc * Math.min(1, y / 2);
+  });
+}
+
+export function tauxRevise(v: TauxVariable, index: number) {
+  const variation = Math.max(-v.plancher, Math.min(v.cap, index - v.indexInitial));
+  return Math.max(0, v.indexInitial + v.marge + variation);
+}
+
+// Tableau d'amortissement à taux révisable : après chaque révision, la mensualité est recalculée
+// sur la durée restante (durée constante) ou conservée, la durée s'ajustant (mensualité constante).
+export function buildVariableSchedule(
+  capital: number,
+  assurancePct: number,
+  years: number,
+  assuranceSurCRD: boolean,
+  v: TauxVariable,
+  trajectoire: number[]
+): ScheduleRow[] {
+  const totalMonths = Math.round(years * 12);
+  if (totalMonths === 0 || capital === 0) return [];
+
+  const rows: ScheduleRow[] = [];
+  const revision = Math.max(1, Math.round(v.revisionMois));
+  const vAssRate = assurancePct / 100;
+  let taux = tauxRevise(v, v.indexInitial);
+  let mensu = annuityPayment(capital, taux, years);
+  let crd = capital;
+  let dureeFixe = true;
+
+  for (let m = 1; m <= totalMonths * 4 && crd > 0; m++) {
+    if (m > 1 && (m - 1) % revision === 0) {
+      const index = trajectoire[Math.min(trajectoire.length - 1, Math.floor((m - 1) / 12))] ?? v.indexInitial;
+      const nouveau = tauxRevise(v, index);
+      if (nouveau !== taux) {
+        taux = nouveau;
+        if (v.ajustement === "Durée constante" && dureeFixe) {
+          mensu = annuityPayment(crd, taux, (totalMonths - m + 1) / 12);
+        } else {
+          // Mensualité conservée tant qu'elle couvre les intérêts du mois
+          mensu = Math.max(mensu, (crd * taux) / 100 / 12 + 1);
+          dureeFixe = false;
+        }
+      }
+    }
+
+    const interets = (crd * taux) / 100 / 12;
+    const principal = dureeFixe && m === totalMonths ? crd : Math.min(crd, Math.max(0, mensu - interets));
+    const assurance = ((assuranceSurCRD ? crd : capital) * vAssRate) / 12;
+    crd = Math.max(0, crd - principal);
+    rows.push({ mois: m, echeance: interets + principal + assurance, interets, assurance, principal, remboursementAnticipe: 0, indemnites: 0, crd });
+  }
+  return rows;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { nz, safe, toNum } from "./utils";
+
+describe("toNum", () => {
+  it("lit les saisies au format français", () => {
+    expect(toNum("1 234,5")).toBe(1234.5);
+    expect(toNum("1.234,5")).toBe(1234.5);
+    expect(toNum("3.2")).toBe(3.2);
+  });
+
+  it("saisie vide ou invalide : 0", () => {
+    expect(toNum("")).toBe(0);
+    expect(toNum("abc")).toBe(0);
+  });
+});
+
+describe("safe / nz", () => {
+  it("remplace les valeurs non finies", () => {
+    expect(safe(NaN, 5)).toBe(5);
+    expect(safe(Infinity)).toBe(0);
+    expect(nz(-3, 1)).toBe(1);
+    expect(nz(7, 1)).toBe(7);
+  });
+});
@@ -0,0 +1,17 @@
+/*********************
+ * UTILITAIRES NUMÉRIQUES (sans dépendance React)
+ *********************/
+// Parsing FR (gère virgule décimale, espaces, points)
+export const toNum = (v: string) => {
+  let s = (v || "").toString().trim();
+  s = s.replace(/\s/g, "");
+  if (s.includes(",")) {
+    s = s.replace(/\./g, "");
+    s = s.replace(",", ".");
+  }
+  return Number(s) || 0;
+};
+
+// Helpers anti-NaN
+export const safe = (n: number, def = 0) => (Number.isFinite(n) ? n : def);
+export const nz = (n: number, min = 0) => (Number.isFinite(n) ? Math.max(min, n) : min);
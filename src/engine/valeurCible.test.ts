@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { INDICATEURS } from "./sensibilite";
+import { simulateLocalCommercial } from "./localCommercial";
+import { DEFAULT_STATE } from "./state";
+import { chercherValeurCible, plageRecherche } from "./valeurCible";
+
+const cashflow = INDICATEURS["Local commercial"][0];
+
+describe("chercherValeurCible", () => {
+  it("loyer d'équilibre : solution analytique retrouvée", () => {
+    const base = simulateLocalCommercial(DEFAULT_STATE.localCommercial);
+    const attendu = 3500 / 12 + base.mensualiteTotale;
+    const r = chercherValeurCible("Local commercial", DEFAULT_STATE, cashflow, { champ: "loyer", cible: 0, min: 0, max: 5000 });
+    expect(r.trouvee).toBe(true);
+    expect(r.exacte).toBe(true);
+    expect(r.valeur).toBeCloseTo(attendu, 3);
+    expect(r.state.localCommercial.loyer).toMatch(/^\d+,\d+$/);
+  });
+
+  it("cible hors d'atteinte : valeur la plus proche", () => {
+    const r = chercherValeurCible("Local commercial", DEFAULT_STATE, cashflow, { champ: "loyer", cible: 1e6, min: 0, max: 5000 });
+    expect(r.trouvee).toBe(false);
+    expect(r.motif).toBe("hors-atteinte");
+    expect(r.valeur).toBe(5000);
+  });
+
+  it("plage inversée ou champ inconnu", () => {
+    expect(chercherValeurCible("Local commercial", DEFAULT_STATE, cashflow, { champ: "loyer", cible: 0, min: 10, max: 5 }).motif).toBe("plage-invalide");
+    expect(chercherValeurCible("Local commercial", DEFAULT_STATE, cashflow, { champ: "inconnu", cible: 0, min: 0, max: 5 }).motif).toBe("plage-invalide");
+  });
+
+  it("plage proposée : du minimum autorisé au triple de la saisie", () => {
+    expect(plageRecherche("Local commercial", DEFAULT_STATE, "loyer")).toEqual({ min: 0, max: 4500 });
+  });
+});
@@ -0,0 +1,124 @@
+import { champsNumeriques, modifierChamp, valeurChamp, type DefinitionIndicateur, type OngletSensibilite } from "./sensibilite";
+import type { AppState } from "./state";
+
+/*********************
+ * VALEUR CIBLE (RECHERCHE INVERSE)
+ *********************/
+// Généralise solveMonthlyFromPV à tout indicateur : une saisie est ajustée jusqu'à ce que l'indicateur
+// atteigne la cible, les autres restant fixes. L'écart (indicateur - cible) est échantillonné sur la
+// plage explorée pour y repérer les changements de signe, puis le plus proche de la saisie actuelle est
+// affiné par bissection. Les indicateurs ne sont ni toujours monotones ni toujours continus (durées
+// arrondies au mois, seuils fiscaux) : la valeur atteinte est renvoyée telle quelle.
+const ECHANTILLONS = 60;
+const ITERATIONS_MAX = 60;
+
+export type RechercheValeurCible = {
+  champ: string; // saisie ajustée
+  cible: number;
+  min: number; // plage explorée (bornée à la plage autorisée du champ)
+  max: number;
+};
+
+export type MotifSansSolution =
+  | "plage-invalide" // bornes inversées ou champ inconnu
+  | "non-calculable" // indicateur indéfini sur toute la plage
+  | "hors-atteinte"; // la cible n'est jamais franchie sur la plage
+
+export type ResultatValeurCible = {
+  trouvee: boolean;
+  motif?: MotifSansSolution;
+  valeur: number; // saisie retenue : solution, ou à défaut la plus proche de la cible
+  resultat: number; // indicateur obtenu avec cette saisie
+  exacte: boolean; // cible atteinte à la précision près (faux sur un palier de l'indicateur)
+  solutions: number; // franchissements de la cible détectés sur la plage
+  plage: { min: number; max: number }; // valeurs finies extrêmes de l'indicateur sur la plage
+  state: AppState; // état avec la saisie retenue
+};
+
+// Plage proposée : la plage autorisée du champ, ou à défaut de 0 au triple de la saisie actuelle
+export function plageRecherche(onglet: OngletSensibilite, state: AppState, champ: string): { min: number; max: number } {
+  const c = champsNumeriques(onglet).find((x) => x.champ === champ);
+  const base = valeurChamp(onglet, state, champ);
+  return {
+    min: c?.min ?? Math.min(0, base * 3),
+    max: c?.max ?? (base > 0 ? base * 3 : 10000),
+  };
+}
+
+export function chercherValeurCible(
+  onglet: OngletSensibilite,
+  state: AppState,
+  indicateur: DefinitionIndicateur,
+  recherche: RechercheValeurCible,
+  anneeRef?: number
+): ResultatValeurCible {
+  const c = champsNumeriques(onglet).find((x) => x.champ === recherche.champ);
+  const base = valeurChamp(onglet, state, recherche.champ);
+  const lo = Math.max(c?.min ?? -Infinity, recherche.min);
+  const hi = Math.min(c?.max ?? Infinity, recherche.max);
+  const sansSolution = (motif: MotifSansSolution, valeur = base, resultat = NaN, plage = { min: NaN, max: NaN }): ResultatValeurCible => ({
+    trouvee: false,
+    motif,
+    valeur,
+    resultat,
+    exacte: false,
+    solutions: 0,
+    plage,
+    state,
+  });
+  if (!c || !Number.isFinite(lo) || !Number.isFinite(hi) || lo >= hi) return sansSolution("plage-invalide");
+
+  const etat = (x: number) => modifierChamp(onglet, state, c, x);
+  const ecart = (x: number) => indicateur.calcul(etat(x), anneeRef) - recherche.cible;
+
+  const xs = Array.from({ length: ECHANTILLONS + 1 }, (_, i) => lo + ((hi - lo) * i) / ECHANTILLONS);
+  const es = xs.map(ecart);
+  const finis = es.map((e, i) => ({ x: xs[i], e })).filter((p) => Number.isFinite(p.e));
+  if (!finis.length) return sansSolution("non-calculable");
+  const plage = {
+    min: Math.min(...finis.map((p) => p.e)) + recherche.cible,
+    max: Math.max(...finis.map((p) => p.e)) + recherche.cible,
+  };
+
+  // Intervalles [a, b] où l'écart change de signe (ou s'annule)
+  const intervalles: [number, number, number][] = [];
+  finis.forEach((p, i) => {
+    if (p.e === 0) intervalles.push([p.x, p.x, 0]);
+    else if (i > 0 && finis[i - 1].e !== 0 && Math.sign(finis[i - 1].e) !== Math.sign(p.e)) intervalles.push([finis[i - 1].x, p.x, finis[i - 1].e]);
+  });
+
+  if (!intervalles.length) {
+    const proche = finis.reduce((m, p) => (Math.abs(p.e) < Math.abs(m.e) ? p : m));
+    return sansSolution("hors-atteinte", proche.x, proche.e + recherche.cible, plage);
+  }
+
+  // Solution la plus proche de la saisie actuelle
+  let [a, b, ea] = intervalles.reduce((m, iv) => (Math.abs((iv[0] + iv[1]) / 2 - base) < Math.abs((m[0] + m[1]) / 2 - base) ? iv : m));
+  let eb = a === b ? 0 : ecart(b);
+  for (let i = 0; i < ITERATIONS_MAX && b - a > 1e-9 * Math.max(1, Math.abs(a)); i++) {
+    const m = (a + b) / 2;
+    const em = ecart(m);
+    if (!Number.isFinite(em)) break;
+    if (em === 0) {
+      a = b = m;
+      ea = eb = 0;
+    } else if (Math.sign(em) === Math.sign(ea)) {
+      a = m;
+      ea = em;
+    } else {
+      b = m;
+      eb = em;
+    }
+  }
+
+  const [valeur, e] = Math.abs(ea) <= Math.abs(eb) ? [a, ea] : [b, eb];
+  return {
+    trouvee: true,
+    valeur,
+    resultat: e + recherche.cible,
+    exacte: Math.abs(e) <= 1e-6 * Math.max(1, Math.abs(recherche.cible)),
+    solutions: intervalles.length,
+    plage,
+    state: etat(valeur),
+  };
+}
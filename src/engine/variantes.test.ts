@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STATE } from "./state";
+import { comparerVariantes, ecartVariante } from "./variantes";
+
+describe("ecartVariante", () => {
+  it("écarts absolu et relatif", () => {
+    expect(ecartVariante(200, 250)).toEqual({ absolu: 50, relatif: 25 });
+    expect(ecartVariante(-200, -100).relatif).toBe(50);
+    expect(ecartVariante(0, 10).relatif).toBeNaN();
+  });
+});
+
+describe("comparerVariantes", () => {
+  it("paramètres modifiés signalés, écarts calculés par rapport à la référence", () => {
+    const variante = { ...DEFAULT_STATE, localCommercial: { ...DEFAULT_STATE.localCommercial, loyer: "1800" } };
+    const r = comparerVariantes("Local commercial", [
+      { nom: "Référence", state: DEFAULT_STATE },
+      { nom: "Loyer haut", state: variante },
+    ]);
+    expect(r.noms).toEqual(["Référence", "Loyer haut"]);
+    expect(r.parametres.filter((p) => p.modifie)).toHaveLength(1);
+    const modifies = r.resultats.filter((x) => x.modifie);
+    expect(modifies.length).toBeGreaterThan(0);
+    modifies.forEach((x) => expect(x.ecarts[0]).toBeNull());
+  });
+});
@@ -0,0 +1,95 @@
+import { formatValeurRapport, sectionRapport, type GraphiqueRapport, type LigneRapport, type SectionRapport } from "./rapport";
+import type { AppState, OngletSimulateur } from "./state";
+
+/*********************
+ * COMPARAISON DE VARIANTES D'UN MÊME SIMULATEUR
+ *********************/
+// Chaque variante est décrite par sa section de rapport ; paramètres et résultats sont alignés par
+// libellé (une ligne absente d'une variante, ex. option désactivée, reste vide). Les écarts sont
+// calculés par rapport à la première variante (référence).
+export type Variante = { nom: string; state: AppState };
+
+export type ParametreVariantes = {
+  libelle: string;
+  valeurs: string[]; // texte FR, vide si le paramètre ne s'applique pas à la variante
+  modifie: boolean;
+};
+
+export type EcartVariante = {
+  absolu: number;
+  relatif: number; // en %, NaN si la référence est nulle
+};
+
+export type ResultatVariantes = {
+  libelle: string;
+  lignes: (LigneRapport | null)[];
+  ecarts: (EcartVariante | null)[]; // null pour la référence et les valeurs non numériques
+  modifie: boolean;
+};
+
+export type ComparaisonVariantes = {
+  onglet: OngletSimulateur;
+  noms: string[];
+  parametres: ParametreVariantes[];
+  resultats: ResultatVariantes[];
+  graphiques: GraphiqueRapport[]; // une courbe par variante, un graphique par série d'origine
+};
+
+// Union ordonnée des libellés (ordre de la première variante, puis lignes propres aux suivantes)
+function aligner(listes: LigneRapport[][]) {
+  const libelles: string[] = [];
+  listes.forEach((l) => l.forEach((x) => !libelles.includes(x.libelle) && libelles.push(x.libelle)));
+  return libelles.map((libelle) => ({ libelle, lignes: listes.map((l) => l.find((x) => x.libelle === libelle) ?? null) }));
+}
+
+export function ecartVariante(reference: number, valeur: number): EcartVariante {
+  const absolu = valeur - reference;
+  return { absolu, relatif: reference !== 0 ? (absolu / Math.abs(reference)) * 100 : NaN };
+}
+
+// Séries superposées : pour chaque série d'un graphique, une courbe par variante (clé `v0`, `v1`…)
+function superposer(sections: SectionRapport[], noms: string[]): GraphiqueRapport[] {
+  return sections[0].graphiques.flatMap((g) =>
+    g.series.map((serie) => {
+      const points = new Map<number, Record<string, number>>();
+      sections.forEach((s, i) => {
+        const gv = s.graphiques.find((x) => x.titre === g.titre);
+        gv?.donnees.forEach((d) => {
+          const x = d[g.abscisse.cle];
+          const point = points.get(x) ?? { [g.abscisse.cle]: x };
+          point[`v${i}`] = d[serie.cle];
+          points.set(x, point);
+        });
+      });
+      return {
+        titre: g.series.length > 1 ? `${g.titre} – ${serie.nom}` : g.titre,
+        abscisse: g.abscisse,
+        series: noms.map((nom, i) => ({ cle: `v${i}`, nom })),
+        donnees: [...points.values()].sort((a, b) => a[g.abscisse.cle] - b[g.abscisse.cle]),
+      };
+    })
+  );
+}
+
+export function comparerVariantes(onglet: OngletSimulateur, variantes: Variante[], anneeRef?: number): ComparaisonVariantes {
+  const sections = variantes.map((v) => sectionRapport(onglet, v.state, anneeRef));
+  const noms = variantes.map((v) => v.nom);
+
+  const parametres = aligner(sections.map((s) => s.parametres)).map(({ libelle, lignes }) => {
+    const valeurs = lignes.map((l) => (l ? formatValeurRapport(l) : ""));
+    return { libelle, valeurs, modifie: valeurs.some((v) => v !== valeurs[0]) };
+  });
+
+  const resultats = aligner(sections.map((s) => s.resultats)).map(({ libelle, lignes }) => {
+    const ref = lignes[0];
+    const ecarts = lignes.map((l, i) =>
+      i > 0 && l && ref && typeof l.valeur === "number" && typeof ref.valeur === "number" && Number.isFinite(l.valeur) && Number.isFinite(ref.valeur)
+        ? ecartVariante(ref.valeur, l.valeur)
+        : null
+    );
+    const textes = lignes.map((l) => (l ? formatValeurRapport(l) : ""));
+    return { libelle, lignes, ecarts, modifie: textes.some((t) => t !== textes[0]) };
+  });
+
+  return { onglet, noms, parametres, resultats, graphiques: sections.length ? superposer(sections, noms) : [] };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STATE } from "./state";
+import { simulateViager, viagerSurvival } from "./viager";
+
+const viager = DEFAULT_STATE.viager;
+
+describe("simulateViager", () => {
+  it("vente à terme : mensualités égales sur la durée", () => {
+    const r = simulateViager({ ...viager, mode: "Vente à terme", valeur: "200000", bouquetPct: "30", dureeTerme: "10" });
+    expect(r.capBouquet).toBeCloseTo(60000, 8);
+    expect(r.mensualiteTerme).toBeCloseTo(140000 / 120, 8);
+    expect(r.totalRentesOuTermes).toBeCloseTo(140000, 6);
+    expect(r.horizonYears).toBe(10);
+  });
+
+  it("viager occupé : décote du droit d'usage et d'habitation", () => {
+    const occupe = simulateViager(viager);
+    const libre = simulateViager({ ...viager, mode: "Viager libre" });
+    expect(occupe.valeurDUH).toBeGreaterThan(0);
+    expect(occupe.baseValeur).toBeCloseTo(292000 - occupe.valeurDUH, 6);
+    expect(libre.valeurDUH).toBe(0);
+    expect(libre.renteMensuelle).toBeGreaterThan(occupe.renteMensuelle);
+  });
+
+  it("rente : valeur actuelle espérée égale au capital converti", () => {
+    const r = simulateViager({ ...viager, index: "0" });
+    const q = 1 / (1 + 0.02 / 12);
+    let va = 0;
+    for (let m = 0; m < r.versement.length - 1; m++) va += r.renteMensuelle * r.versement[m] * Math.pow(q, m);
+    expect(va).toBeCloseTo(r.capRenteOuTerme, 4);
+  });
+
+  it("couple : dernier survivant plus long qu'une tête seule", () => {
+    const seul = viagerSurvival(viager);
+    const couple = viagerSurvival({ ...viager, couple: true });
+    expect(couple.individuelles).toHaveLength(2);
+    expect(couple.survie[120]).toBeGreaterThan(seul.survie[120]);
+  });
+
+  it("résultat reproductible pour une année de calcul donnée", () => {
+    expect(simulateViager(viager, 2030).renteMensuelle).toBe(simulateViager(viager, 2030).renteMensuelle);
+  });
+});
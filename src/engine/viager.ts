@@ -0,0 +1,183 @@
+import { irr } from "./finance";
+import { lifeExpectancy, survivalCurve } from "./mortality";
+import { ANNEE_CALCUL_MORTALITE } from "./mortalityTables";
+import { notaryFeesBreakdown, type NotaryFeesBreakdown } from "./notary";
+import type { AppState } from "./state";
+import { nz, safe, toNum } from "./utils";
+
+/*********************
+ * SIMULATION VIAGER
+ *********************/
+// Les montants liés à la durée de vie (DUH, rente, charges, revente) sont des espérances :
+// chaque mois est pondéré par la probabilité de survie du crédirentier (table de mortalité choisie).
+// En couple, l'occupation et la revente suivent le dernier survivant ; la rente est versée en totalité
+// tant que les deux vivent, puis à hauteur du taux de réversion.
+export const VIAGER_MODES = ["Viager occupé", "Viager libre", "Vente à terme"] as const;
+
+export type ViagerResult = {
+  yearsEV: number;
+  horizonYears: number;
+  survie: number[];
+  versement: number[];
+  valeurDUH: number;
+  baseValeur: number;
+  capBouquet: number;
+  capRenteOuTerme: number;
+  renteMensuelle: number;
+  mensualiteTerme: number;
+  fraisNotaire: number;
+  fraisNotaireDetail: NotaryFeesBreakdown;
+  depensesMensuelles: number;
+  totalRentesOuTermes: number;
+  coutChargesTaxes: number;
+  coutTotalInvestisseur: number;
+  prixFutur: number;
+  produitNetVente: number;
+  rendementAnnualise: number;
+  decotePct: number;
+  fluxEsperes: number[];
+  reventeEsperee: number[];
+};
+
+// Σ W[m]·q^m pour m = 0..n-1 : valeur actuelle espérée d'un flux mensuel unitaire versé d'avance, pondéré par W[m]
+function pvSurvivalAnnuity(W: number[], discountPct: number, indexPct = 0) {
+  const q = (1 + indexPct / 100 / 12) / (1 + discountPct / 100 / 12);
+  let f = 1;
+  let total = 0;
+  for (let m = 0; m < W.length - 1; m++) {
+    total += W[m] * f;
+    f *= q;
+  }
+  return total;
+}
+
+// Courbes de survie du viager : `survie` (occupation / revente), `versement` (poids de la rente)
+// et `individuelles` (courbe de chaque crédirentier, pour les tirages Monte Carlo).
+// Couple : dernier survivant S1 + S2 - S1·S2 (décès indépendants), rente pleine sur S1·S2 puis réversion.
+export function viagerSurvival(input: AppState["viager"], anneeRef = ANNEE_CALCUL_MORTALITE) {
+  const vAge = nz(toNum(input.age), 1);
+  const S1 = survivalCurve(vAge, input.sexe, input.tableMortalite, undefined, anneeRef);
+  if (!input.couple) return { survie: S1, versement: S1, individuelles: [S1] };
+
+  const vAge2 = nz(toNum(input.age2), 1);
+  const vReversion = Math.min(100, nz(toNum(input.reversionPct), 0)) / 100;
+  const months = Math.max(S1.length, (120 - Math.floor(vAge2)) * 12 + 1) - 1;
+  const S2 = survivalCurve(vAge2, input.sexe2, input.tableMortalite, months, anneeRef);
+  const at = (S: number[], m: number) => (m < S.length ? S[m] : 0);
+  const survie: number[] = [];
+  const versement: number[] = [];
+  for (let m = 0; m <= months; m++) {
+    const a = at(S1, m);
+    const b = at(S2, m);
+    const deux = a * b;
+    const dernier = a + b - deux;
+    survie.push(dernier);
+    versement.push(deux + vReversion * (dernier - deux));
+  }
+  return { survie, versement, individuelles: [S1, S2] };
+}
+
+export function simulateViager(input: AppState["viager"], anneeRef = ANNEE_CALCUL_MORTALITE): ViagerResult {
+  const { mode } = input;
+
+  // Numérisation sûre
+  const vV = safe(toNum(input.valeur));
+  const vTaux = nz(toNum(input.taux), 0);
+  const vBouquetPct = nz(toNum(input.bouquetPct), 0);
+  const vIndex = nz(toNum(input.index), 0);
+  const vCharges = nz(toNum(input.charges), 0);
+  const vTaxe = nz(toNum(input.taxe), 0);
+  const vLoyer = nz(toNum(input.loyer), 0);
+  const vHausse = nz(toNum(input.hausseImmo), 0) / 100;
+  const vFraisVente = nz(toNum(input.fraisVentePct), 0) / 100;
+  const vDureeTerme = nz(toNum(input.dureeTerme), 1);
+
+  // Survie mensuelle : table de mortalité (viager) ou échéance certaine (vente à terme)
+  const isTerme = mode === "Vente à terme";
+  const moisTerme = Math.max(1, Math.round(vDureeTerme * 12));
+  const { survie, versement } = isTerme
+    ? (() => {
+        const S = Array.from({ length: moisTerme + 1 }, (_, m) => (m < moisTerme ? 1 : 0));
+        return { survie: S, versement: S };
+      })()
+    : viagerSurvival(input, anneeRef);
+
+  // EV (dernier survivant en couple) + horizon moyen (plancher 1 an)
+  const rawEV = safe(lifeExpectancy(survie), 0);
+  const yearsEV = nz(rawEV, 1);
+  const horizonYears = isTerme ? vDureeTerme : yearsEV;
+
+  // Décote DUH (seulement en occupé) : loyers actualisés pondérés par la survie
+  const valeurDUH = mode === "Viager occupé" ? nz(vLoyer * pvSurvivalAnnuity(survie, vTaux), 0) : 0;
+
+  const baseValeur = mode === "Viager occupé" ? Math.max(0, vV - valeurDUH) : vV;
+
+  // Bouquet / Rente / Terme
+  const capBouquet = (vBouquetPct / 100) * baseValeur;
+  const capRenteOuTerme = Math.max(0, baseValeur - capBouquet);
+
+  const pvRenteUnitaire = pvSurvivalAnnuity(versement, vTaux, vIndex);
+  const renteMensuelle = !isTerme && pvRenteUnitaire > 0 ? nz(capRenteOuTerme / pvRenteUnitaire, 0) : 0;
+
+  const mensualiteTerme = isTerme ? capRenteOuTerme / moisTerme : 0;
+
+  const fraisNotaireDetail = notaryFeesBreakdown(baseValeur, { departement: input.departement });
+  const fraisNotaire = fraisNotaireDetail.total;
+
+  const depensesMensuelles = (isTerme ? mensualiteTerme : renteMensuelle) + (vCharges + vTaxe) / 12;
+
+  // Flux espérés de l'investisseur : sorties tant que le crédirentier vit, revente au décès (ou au terme)
+  const indexMens = isTerme ? 0 : vIndex / 100 / 12;
+  const flux: number[] = [-(capBouquet + fraisNotaire)];
+  const reventeEsperee: number[] = [0];
+  let totalRentesOuTermes = 0;
+  let coutChargesTaxes = 0;
+  let prixFutur = 0;
+  let paiement = isTerme ? mensualiteTerme : renteMensuelle;
+  for (let m = 0; m < survie.length - 1; m++) {
+    const rentes = paiement * versement[m];
+    const chargesMois = ((vCharges + vTaxe) / 12) * survie[m];
+    const pDeces = survie[m] - survie[m + 1];
+    const prixRevente = vV * Math.pow(1 + vHausse, (m + 1) / 12);
+    totalRentesOuTermes += rentes;
+    coutChargesTaxes += chargesMois;
+    prixFutur += pDeces * prixRevente;
+    const revente = pDeces * prixRevente * (1 - vFraisVente);
+    flux[m] -= rentes + chargesMois;
+    flux.push(revente);
+    reventeEsperee.push(revente);
+    paiement *= 1 + indexMens;
+  }
+
+  const coutTotalInvestisseur = capBouquet + fraisNotaire + totalRentesOuTermes + coutChargesTaxes;
+  const produitNetVente = prixFutur * (1 - vFraisVente);
+
+  const rendementAnnualise = coutTotalInvestisseur > 0 ? irr(flux) : 0;
+
+  const decotePct = vV > 0 ? (valeurDUH / vV) * 100 : 0;
+
+  return {
+    yearsEV,
+    horizonYears,
+    survie,
+    versement,
+    valeurDUH,
+    baseValeur,
+    capBouquet,
+    capRenteOuTerme,
+    renteMensuelle,
+    mensualiteTerme,
+    fraisNotaire,
+    fraisNotaireDetail,
+    depensesMensuelles,
+    totalRentesOuTermes,
+    coutChargesTaxes,
+    coutTotalInvestisseur,
+    prixFutur,
+    produitNetVente,
+    rendementAnnualise,
+    decotePct,
+    fluxEsperes: flux,
+    reventeEsperee,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STATE } from "./state";
+import { createRng, simulateViagerMonteCarlo } from "./viagerMonteCarlo";
+
+const viager = { ...DEFAULT_STATE.viager, mcTirages: "300" };
+
+describe("createRng", () => {
+  it("suite reproductible dans [0, 1[", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    for (let i = 0; i < 100; i++) {
+      const x = a();
+      expect(x).toBe(b());
+      expect(x >= 0 && x < 1).toBe(true);
+    }
+  });
+});
+
+describe("simulateViagerMonteCarlo", () => {
+  it("même graine, même résultat", () => {
+    expect(simulateViagerMonteCarlo(viager, 7)).toEqual(simulateViagerMonteCarlo(viager, 7));
+  });
+
+  it("percentiles ordonnés et histogramme complet", () => {
+    const r = simulateViagerMonteCarlo(viager);
+    expect(r.tirages).toBe(300);
+    expect(r.tri.p5).toBeLessThanOrEqual(r.tri.p50);
+    expect(r.tri.p50).toBeLessThanOrEqual(r.tri.p95);
+    expect(r.histogramme.reduce((s, c) => s + c.frequence, 0)).toBeCloseTo(100, 8);
+  });
+
+  it("vente à terme sans volatilité : aucun aléa", () => {
+    const r = simulateViagerMonteCarlo({ ...viager, mode: "Vente à terme", mcVolatilite: "0" });
+    expect(r.tri.p5).toBeCloseTo(r.tri.p95, 8);
+    expect(r.dureeAnnees.p50).toBe(15);
+  });
+});
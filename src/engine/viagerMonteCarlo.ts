@@ -0,0 +1,156 @@
+import { irr } from "./finance";
+import { ANNEE_CALCUL_MORTALITE } from "./mortalityTables";
+import type { AppState } from "./state";
+import { nz, toNum } from "./utils";
+import { simulateViager, viagerSurvival } from "./viager";
+
+/*********************
+ * VIAGER – ANALYSE DE RISQUE MONTE CARLO
+ *********************/
+// Chaque tirage fixe une date de décès (par crédirentier, selon la table de mortalité) et une
+// trajectoire de prix immobilier (hausse annuelle ~ N(hausseImmo, volatilité)), puis calcule
+// le TRI et le coût total de l'investisseur pour ce scénario.
+export type Percentiles = { p5: number; p25: number; p50: number; p75: number; p95: number };
+
+export type ViagerMonteCarloResult = {
+  tirages: number;
+  tri: Percentiles;
+  coutTotal: Percentiles;
+  dureeAnnees: Percentiles;
+  probaPerte: number;
+  histogramme: { tri: number; frequence: number }[];
+};
+
+// Générateur pseudo-aléatoire reproductible (mulberry32)
+export function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Loi normale centrée réduite (Box-Muller)
+function gaussian(rng: () => number) {
+  const u = Math.max(rng(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+// Mois du décès : premier mois m où la survie S[m] passe sous le tirage u
+function drawDeathMonth(S: number[], u: number) {
+  let lo = 0;
+  let hi = S.length - 1;
+  if (S[hi] >= u) return hi;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (S[mid] >= u) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+}
+
+function quantile(sorted: number[], p: number) {
+  if (sorted.length === 0) return NaN;
+  const i = (sorted.length - 1) * p;
+  const lo = Math.floor(i);
+  const hi = Math.ceil(i);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo);
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  return {
+    p5: quantile(sorted, 0.05),
+    p25: quantile(sorted, 0.25),
+    p50: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75),
+    p95: quantile(sorted, 0.95),
+  };
+}
+
+export function simulateViagerMonteCarlo(
+  input: AppState["viager"],
+  seed = 1,
+  anneeRef = ANNEE_CALCUL_MORTALITE
+): ViagerMonteCarloResult {
+  const base = simulateViager(input, anneeRef);
+  const isTerme = input.mode === "Vente à terme";
+  const tirages = Math.max(1, Math.min(20000, Math.round(nz(toNum(input.mcTirages), 1))));
+  const sigma = nz(toNum(input.mcVolatilite), 0) / 100;
+  const vV = nz(toNum(input.valeur), 0);
+  const vHausse = toNum(input.hausseImmo) / 100;
+  const vFraisVente = nz(toNum(input.fraisVentePct), 0) / 100;
+  const vReversion = input.couple ? Math.min(100, nz(toNum(input.reversionPct), 0)) / 100 : 1;
+  const indexMens = isTerme ? 0 : nz(toNum(input.index), 0) / 100 / 12;
+  const chargesMens = (nz(toNum(input.charges), 0) + nz(toNum(input.taxe), 0)) / 12;
+  const paiement0 = isTerme ? base.mensualiteTerme : base.renteMensuelle;
+  const moisTerme = base.survie.length - 1;
+  const { individuelles } = isTerme ? { individuelles: [] as number[][] } : viagerSurvival(input, anneeRef);
+
+  const rng = createRng(seed);
+  const tris: number[] = [];
+  const couts: number[] = [];
+  const durees: number[] = [];
+  let pertes = 0;
+
+  for (let k = 0; k < tirages; k++) {
+    // Dates de décès (ou échéance certaine en vente à terme)
+    const deces = isTerme ? [moisTerme] : individuelles.map((S) => drawDeathMonth(S, rng()));
+    const premier = Math.min(...deces);
+    const sortie = Math.max(...deces);
+
+    // Trajectoire du prix : une hausse tirée par année entamée
+    let prix = vV;
+    for (let y = 0; y < Math.ceil(sortie / 12); y++) {
+      const hausse = Math.max(-0.99, vHausse + sigma * gaussian(rng));
+      const mois = Math.min(12, sortie - y * 12);
+      prix *= Math.pow(1 + hausse, mois / 12);
+    }
+
+    const flux: number[] = [-(base.capBouquet + base.fraisNotaire)];
+    let cout = base.capBouquet + base.fraisNotaire;
+    let paiement = paiement0;
+    for (let m = 0; m < sortie; m++) {
+      const verse = (m < premier ? paiement : paiement * vReversion) + chargesMens;
+      flux[m] -= verse;
+      flux.push(0);
+      cout += verse;
+      paiement *= 1 + indexMens;
+    }
+    const produitNet = prix * (1 - vFraisVente);
+    flux[sortie] += produitNet;
+
+    tris.push(irr(flux));
+    couts.push(cout);
+    durees.push(sortie / 12);
+    if (produitNet < cout) pertes++;
+  }
+
+  // Histogramme du TRI (20 classes entre P1 et P99)
+  const triSorted = tris.filter(Number.isFinite).sort((a, b) => a - b);
+  const min = quantile(triSorted, 0.01);
+  const max = quantile(triSorted, 0.99);
+  const nbClasses = 20;
+  const largeur = max > min ? (max - min) / nbClasses : 1;
+  const comptes = new Array(nbClasses).fill(0);
+  triSorted.forEach((t) => {
+    const i = Math.min(nbClasses - 1, Math.max(0, Math.floor((t - min) / largeur)));
+    comptes[i]++;
+  });
+  const histogramme = comptes.map((c, i) => ({
+    tri: min + (i + 0.5) * largeur,
+    frequence: triSorted.length ? (c / triSorted.length) * 100 : 0,
+  }));
+
+  return {
+    tirages,
+    tri: percentiles(tris),
+    coutTotal: percentiles(couts),
+    dureeAnnees: percentiles(durees),
+    probaPerte: (pertes / tirages) * 100,
+    histogramme,
+  };
+}
@@ -0,0 +1,138 @@
+import ExcelJS from "exceljs";
+import { AVERTISSEMENT_RAPPORT, type GraphiqueRapport, type LigneRapport, type SectionRapport, type TableauRapport } from "./engine";
+
+/*********************
+ * EXPORT TABLEUR (XLSX)
+ *********************/
+// Un classeur par simulateur : feuilles Paramètres et Résultats, une feuille par tableau
+// (projection, échéancier) et par série de graphique, puis les hypothèses. Les cellules restent
+// numériques : l'affichage FR vient des formats (séparateurs selon la langue d'Excel), les
+// pourcentages sont stockés en fraction, les totaux et le CRD sont écrits en formules.
+
+// Format numérique Excel selon l'unité et le nombre de décimales
+function formatNombre(unite: LigneRapport["unite"] = "", decimales = 2) {
+  const base = decimales > 0 ? `#,##0.${"0".repeat(decimales)}` : "#,##0";
+  if (unite === "%") return `${decimales > 0 ? `0.${"0".repeat(decimales)}` : "0"}%`;
+  if (unite === "%/an") return `${decimales > 0 ? `0.${"0".repeat(decimales)}` : "0"}%" /an"`;
+  return unite ? `${base} "${unite}"` : base;
+}
+
+const estPourcentage = (unite: LigneRapport["unite"]) => unite === "%" || unite === "%/an";
+
+// Format d'une colonne de tableau d'après son intitulé : « (€) », « (%) », ou compteur (mois, année…)
+function formatColonne(colonne: string): { format: string; pourcentage: boolean } {
+  if (colonne.endsWith("(%)")) return { format: "0.00%", pourcentage: true };
+  if (colonne.endsWith("(€)")) return { format: '#,##0.00 "€"', pourcentage: false };
+  if (/^(Mois|Année|Durée)/.test(colonne)) return { format: "0", pourcentage: false };
+  return { format: "#,##0.00", pourcentage: false };
+}
+
+const lettre = (colonne: number) => {
+  let s = "";
+  for (let n = colonne + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+};
+
+// Noms de feuilles : 31 caractères au plus, sans []:*?/\, uniques dans le classeur
+function nomFeuille(wb: ExcelJS.Workbook, titre: string) {
+  const base = titre.replace(/[[\]:*?/\\]/g, "-").slice(0, 31);
+  let nom = base;
+  for (let i = 2; wb.getWorksheet(nom); i++) nom = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  return nom;
+}
+
+function entete(ws: ExcelJS.Worksheet, colonnes: string[], ligne = 1) {
+  const row = ws.addRow(colonnes);
+  row.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  row.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF3559E0" } };
+  ws.views = [{ state: "frozen", ySplit: ligne }];
+}
+
+function feuilleCleValeur(wb: ExcelJS.Workbook, titre: string, lignes: LigneRapport[]) {
+  const ws = wb.addWorksheet(nomFeuille(wb, titre));
+  ws.columns = [{ width: 48 }, { width: 22 }];
+  entete(ws, [titre === "Paramètres" ? "Paramètre" : "Indicateur", "Valeur"]);
+  lignes.forEach((l) => {
+    const row = ws.addRow([l.libelle, null]);
+    const cell = row.getCell(2);
+    if (typeof l.valeur === "string") {
+      cell.value = l.valeur;
+      cell.alignment = { horizontal: "right" };
+    } else if (Number.isFinite(l.valeur)) {
+      cell.value = estPourcentage(l.unite) ? l.valeur / 100 : l.valeur;
+      cell.numFmt = formatNombre(l.unite, l.decimales);
+    } else {
+      cell.value = "—";
+      cell.alignment = { horizontal: "right" };
+    }
+  });
+}
+
+function feuilleTableau(wb: ExcelJS.Workbook, t: TableauRapport) {
+  const ws = wb.addWorksheet(nomFeuille(wb, t.titre));
+  const formats = t.colonnes.map(formatColonne);
+  ws.columns = t.colonnes.map((c) => ({ width: Math.max(12, c.length + 2) }));
+  entete(ws, t.colonnes);
+
+  t.lignes.forEach((ligne, i) => {
+    const r = i + 2; // ligne Excel (après l'en-tête)
+    const row = ws.addRow([]);
+    ligne.forEach((v, c) => {
+      const cell = row.getCell(c + 1);
+      const valeur = typeof v === "number" && formats[c].pourcentage ? v / 100 : v;
+      cell.value =
+        t.solde && c === t.solde.colonne && i > 0 && typeof valeur === "number"
+          ? {
+              formula: `${lettre(c)}${r - 1}${t.solde.diminutions.map((d) => `-${lettre(d)}${r}`).join("")}`,
+              result: valeur,
+            }
+          : typeof valeur === "number" && !Number.isFinite(valeur)
+          ? null
+          : valeur;
+      if (typeof v === "number") cell.numFmt = formats[c].format;
+    });
+  });
+
+  if (t.totaux?.length && t.lignes.length) {
+    const fin = t.lignes.length + 1;
+    const row = ws.addRow(["Total"]);
+    row.font = { bold: true };
+    t.totaux.forEach((c) => {
+      const somme = t.lignes.reduce((s, l) => s + (typeof l[c] === "number" ? (l[c] as number) : 0), 0);
+      const cell = row.getCell(c + 1);
+      cell.value = { formula: `SUM(${lettre(c)}2:${lettre(c)}${fin})`, result: formats[c].pourcentage ? somme / 100 : somme };
+      cell.numFmt = formats[c].format;
+    });
+  }
+}
+
+function feuilleGraphique(wb: ExcelJS.Workbook, g: GraphiqueRapport) {
+  const ws = wb.addWorksheet(nomFeuille(wb, "Données graphique"));
+  ws.columns = [{ width: 10 }, ...g.series.map((s) => ({ width: Math.max(14, s.nom.length + 2) }))];
+  ws.addRow([g.titre]).font = { bold: true };
+  entete(ws, [g.abscisse.libelle, ...g.series.map((s) => s.nom)], 2);
+  g.donnees.forEach((d) => {
+    const row = ws.addRow([d[g.abscisse.cle], ...g.series.map((s) => d[s.cle])]);
+    g.series.forEach((_, i) => (row.getCell(i + 2).numFmt = "#,##0.00"));
+  });
+}
+
+export async function genererClasseurXlsx(section: SectionRapport): Promise<Blob> {
+  const wb = new ExcelJS.Workbook();
+  wb.created = new Date();
+  wb.title = section.titre;
+  // Résultats des formules recalculés par Excel à l'ouverture
+  wb.calcProperties.fullCalcOnLoad = true;
+
+  feuilleCleValeur(wb, "Paramètres", section.parametres);
+  feuilleCleValeur(wb, "Résultats", section.resultats);
+  section.tableaux.forEach((t) => feuilleTableau(wb, t));
+  section.graphiques.forEach((g) => feuilleGraphique(wb, g));
+
+  const ws = wb.addWorksheet("Hypothèses");
+  ws.columns = [{ width: 120 }];
+  [...section.hypotheses, "", AVERTISSEMENT_RAPPORT].forEach((h) => (ws.addRow([h]).getCell(1).alignment = { wrapText: true }));
+
+  const buffer = await wb.xlsx.writeBuffer();
+  return new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
@@ -0,0 +1,242 @@
+import React from "react";
+import { flushSync } from "react-dom";
+import ReactDOM from "react-dom/client";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import {
+  AVERTISSEMENT_RAPPORT,
+  formatValeurRapport,
+  type GraphiqueRapport,
+  type LigneRapport,
+  type SectionRapport,
+  type TableauRapport,
+} from "./engine";
+
+/*********************
+ * RAPPORT PDF (généré dans le navigateur)
+ *********************/
+// Page de garde, puis pour chaque simulateur : paramètres, résultats, graphiques (images PNG
+// issues des graphiques Recharts rendus hors écran), tableaux et hypothèses ; avertissement final.
+export type OptionsRapportPdf = {
+  client: string;
+  conseiller: string;
+  couleurs: string[];
+  date?: Date;
+};
+
+const MARGE = 15; // mm
+const LARGEUR_GRAPHIQUE = 900; // px
+const HAUTEUR_GRAPHIQUE = 380; // px
+const BLEU: [number, number, number] = [53, 89, 224];
+
+// Les polices standard du PDF (WinAnsi) n'ont pas les espaces insécables fines du formatage fr-FR
+const pdfTexte = (s: string) => s.replace(/[\u202f\u00a0]/g, " ");
+
+const fmtCellule = (v: number | string, colonne: string) => {
+  if (typeof v === "string") return pdfTexte(v);
+  const entier = /^(Mois|Année|Durée)/.test(colonne);
+  return pdfTexte(formatValeurRapport({ libelle: colonne, valeur: v, decimales: entier ? 0 : 2 }));
+};
+
+// Rendu hors écran d'un graphique Recharts (sans animation), converti en PNG via un canvas
+async function graphiqueEnImage(g: GraphiqueRapport, couleurs: string[]): Promise<string> {
+  const conteneur = document.createElement("div");
+  conteneur.style.cssText = "position:fixed;left:-10000px;top:0;background:#fff;font-family:Helvetica,Arial,sans-serif";
+  document.body.appendChild(conteneur);
+  const root = ReactDOM.createRoot(conteneur);
+  try {
+    flushSync(() =>
+      root.render(
+        <LineChart width={LARGEUR_GRAPHIQUE} height={HAUTEUR_GRAPHIQUE} data={g.donnees} margin={{ top: 10, right: 20, left: 30, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey={g.abscisse.cle} />
+          <YAxis tickFormatter={(t: number) => t.toLocaleString("fr-FR", { maximumFractionDigits: 0 })} />
+          {g.series.map((s, i) => (
+            <Line key={s.cle} type="monotone" dataKey={s.cle} stroke={couleurs[i % couleurs.length]} strokeWidth={2} dot={false} isAnimationActive={false} />
+          ))}
+        </LineChart>
+      )
+    );
+    const svg = conteneur.querySelector("svg");
+    if (!svg) throw new Error("Graphique non rendu");
+    svg.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    const source = new XMLSerializer().serializeToString(svg);
+
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Conversion du graphique impossible"));
+      image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = LARGEUR_GRAPHIQUE * 2;
+    canvas.height = HAUTEUR_GRAPHIQUE * 2;
+    const ctx = canvas.getContext("2d")!;
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    root.unmount();
+    conteneur.remove();
+  }
+}
+
+// Position verticale après le dernier tableau dessiné par jspdf-autotable
+const finTableau = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? MARGE;
+
+function titre(doc: jsPDF, texte: string, y: number, taille = 12) {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(taille);
+  doc.setTextColor(30);
+  doc.text(pdfTexte(texte), MARGE, y);
+  doc.setFont("helvetica", "normal");
+  return y + taille * 0.45;
+}
+
+// Saut de page si la hauteur demandée ne tient pas
+function place(doc: jsPDF, y: number, hauteur: number) {
+  if (y + hauteur <= doc.internal.pageSize.getHeight() - MARGE - 5) return y;
+  doc.addPage();
+  return MARGE + 5;
+}
+
+function tableauCleValeur(doc: jsPDF, intitule: string, lignes: LigneRapport[], y: number) {
+  y = titre(doc, intitule, place(doc, y, 20));
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGE, right: MARGE },
+    theme: "striped",
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: { 1: { halign: "right", fontStyle: "bold" } },
+    body: lignes.map((l) => [pdfTexte(l.libelle), pdfTexte(formatValeurRapport(l))]),
+  });
+  return finTableau(doc) + 8;
+}
+
+function tableau(doc: jsPDF, t: TableauRapport, y: number) {
+  y = titre(doc, t.titre, place(doc, y, 25), 11);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGE, right: MARGE },
+    theme: "grid",
+    styles: { fontSize: t.colonnes.length > 7 ? 7 : 8, cellPadding: 1.2, halign: "right" },
+    headStyles: { fillColor: BLEU, halign: "center" },
+    columnStyles: { 0: { halign: "left" } },
+    head: [t.colonnes.map(pdfTexte)],
+    body: t.lignes.map((l) => l.map((v, i) => fmtCellule(v, t.colonnes[i]))),
+  });
+  return finTableau(doc) + 8;
+}
+
+async function graphique(doc: jsPDF, g: GraphiqueRapport, couleurs: string[], y: number) {
+  const largeur = doc.internal.pageSize.getWidth() - 2 * MARGE;
+  const hauteur = (largeur * HAUTEUR_GRAPHIQUE) / LARGEUR_GRAPHIQUE;
+  y = titre(doc, g.titre, place(doc, y, hauteur + 20), 11);
+  doc.addImage(await graphiqueEnImage(g, couleurs), "PNG", MARGE, y, largeur, hauteur);
+  y += hauteur + 4;
+
+  // Légende (le graphique est rendu sans légende Recharts)
+  doc.setFontSize(8);
+  let x = MARGE;
+  g.series.forEach((s, i) => {
+    doc.setFillColor(couleurs[i % couleurs.length]);
+    doc.rect(x, y - 2.5, 3, 3, "F");
+    doc.text(pdfTexte(s.nom), x + 4.5, y);
+    x += doc.getTextWidth(pdfTexte(s.nom)) + 12;
+  });
+  doc.setFontSize(7);
+  doc.setTextColor(120);
+  doc.text(pdfTexte(`Abscisse : ${g.abscisse.libelle}`), doc.internal.pageSize.getWidth() - MARGE, y, { align: "right" });
+  doc.setTextColor(30);
+  return y + 10;
+}
+
+function pageDeGarde(doc: jsPDF, sections: SectionRapport[], options: OptionsRapportPdf) {
+  const largeur = doc.internal.pageSize.getWidth();
+  doc.setFillColor(...BLEU);
+  doc.rect(0, 0, largeur, 70, "F");
+  doc.setTextColor(255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(24);
+  doc.text("Rapport de simulation immobilière", MARGE, 40);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  doc.text(pdfTexte(`Édité le ${(options.date ?? new Date()).toLocaleDateString("fr-FR")}`), MARGE, 55);
+
+  doc.setTextColor(30);
+  let y = 95;
+  if (options.client.trim()) {
+    doc.setFontSize(13);
+    doc.text(pdfTexte(`Préparé pour : ${options.client.trim()}`), MARGE, y);
+    y += 9;
+  }
+  if (options.conseiller.trim()) {
+    doc.setFontSize(13);
+    doc.text(pdfTexte(`Conseiller : ${options.conseiller.trim()}`), MARGE, y);
+    y += 9;
+  }
+  y = titre(doc, "Sommaire", y + 8, 14) + 4;
+  doc.setFontSize(11);
+  sections.forEach((s, i) => {
+    doc.text(pdfTexte(`${i + 1}. ${s.titre}`), MARGE + 4, y);
+    y += 7;
+  });
+  doc.text(pdfTexte(`${sections.length + 1}. Hypothèses et avertissement`), MARGE + 4, y);
+}
+
+function piedsDePage(doc: jsPDF) {
+  const n = doc.getNumberOfPages();
+  const largeur = doc.internal.pageSize.getWidth();
+  const hauteur = doc.internal.pageSize.getHeight();
+  for (let p = 2; p <= n; p++) {
+    doc.setPage(p);
+    doc.setFontSize(7);
+    doc.setTextColor(140);
+    doc.text(pdfTexte("Données indicatives — ne constitue pas un conseil financier."), MARGE, hauteur - 8);
+    doc.text(`${p} / ${n}`, largeur - MARGE, hauteur - 8, { align: "right" });
+  }
+}
+
+export async function genererRapportPdf(sections: SectionRapport[], options: OptionsRapportPdf): Promise<Blob> {
+  const doc = new jsPDF({ unit: "mm", format: "a4", compress: true });
+  pageDeGarde(doc, sections, options);
+
+  for (const [i, s] of sections.entries()) {
+    doc.addPage();
+    let y = titre(doc, `${i + 1}. ${s.titre}`, MARGE + 5, 16) + 4;
+    y = tableauCleValeur(doc, "Paramètres", s.parametres, y);
+    y = tableauCleValeur(doc, "Résultats", s.resultats, y);
+    for (const g of s.graphiques) y = await graphique(doc, g, options.couleurs, y);
+    for (const t of s.tableaux) y = tableau(doc, t, y);
+    if (s.hypotheses.length) {
+      y = titre(doc, "Hypothèses", place(doc, y, 20));
+      doc.setFontSize(9);
+      s.hypotheses.forEach((h) => {
+        const lignes = doc.splitTextToSize(pdfTexte(`• ${h}`), doc.internal.pageSize.getWidth() - 2 * MARGE);
+        y = place(doc, y, lignes.length * 4.5);
+        doc.text(lignes, MARGE, y + 3);
+        y += lignes.length * 4.5 + 1;
+      });
+    }
+  }
+
+  doc.addPage();
+  let y = titre(doc, `${sections.length + 1}. Hypothèses et avertissement`, MARGE + 5, 16) + 6;
+  doc.setFontSize(10);
+  const generales = [
+    "Les montants saisis sont pris tels quels ; les taux d'imposition, d'indexation et de revalorisation sont supposés constants sur la durée.",
+    "Les frais de notaire sont estimés à partir du barème des droits de mutation du département et des émoluments réglementés.",
+    "Les rendements (TRI) sont calculés sur les flux annuels ou mensuels de l'investisseur, sans réinvestissement des cashflows.",
+    AVERTISSEMENT_RAPPORT,
+  ];
+  generales.forEach((p) => {
+    const lignes = doc.splitTextToSize(pdfTexte(p), doc.internal.pageSize.getWidth() - 2 * MARGE);
+    doc.text(lignes, MARGE, y);
+    y += lignes.length * 5 + 4;
+  });
+
+  piedsDePage(doc);
+  return doc.output("blob");
+}
@@ -0,0 +1,72 @@
+/*********************
+ * ROUTES (hash `#/slug?param=…`)
+ *********************/
+// Un slug stable par onglet, identique aux liens canoniques ; les alias couvrent les raccourcis du
+// manifeste et le sitemap. Les anciens liens portant le libellé de l'onglet (`#Location nue?data=…`)
+// restent reconnus. Les paramètres transportent l'état de la route (`z` compact, `data` ancien format).
+export const ROUTES = [
+  { slug: "capacite-emprunt", onglet: "Capacité d'emprunt" },
+  { slug: "credit-immobilier", onglet: "Crédit immobilier" },
+  { slug: "location-nue", onglet: "Location nue" },
+  { slug: "location-meublee", onglet: "Location meublée" },
+  { slug: "viager", onglet: "Viager" },
+  { slug: "scpi", onglet: "SCPI" },
+  { slug: "local-commercial", onglet: "Local commercial" },
+  { slug: "comparatif", onglet: "Comparatif" },
+  { slug: "commandements", onglet: "10 Commandements" },
+] as const;
+
+export const ALIAS_ROUTES: Record<string, string> = {
+  simulateur: "credit-immobilier", // start_url du manifeste : onglet par défaut
+  location: "location-nue",
+};
+
+export type Route = {
+  onglet: string;
+  params: Record<string, string>; // valeurs brutes (non décodées : base64 et lz-string contiennent « + »)
+};
+
+const decoder = (s: string) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+};
+
+export function ongletDuSlug(slug: string): string | null {
+  const s = slug.toLowerCase();
+  return ROUTES.find((r) => r.slug === (ALIAS_ROUTES[s] ?? s))?.onglet ?? null;
+}
+
+export function slugDeLOnglet(onglet: string): string {
+  return ROUTES.find((r) => r.onglet === onglet)?.slug ?? ROUTES[1].slug;
+}
+
+// Route lue dans le hash ; null si le hash ne désigne aucun onglet connu
+export function lireRoute(hash: string): Route | null {
+  if (!hash.startsWith("#")) return null;
+  const i = hash.indexOf("?");
+  const chemin = hash.substring(1, i === -1 ? undefined : i);
+  const requete = i === -1 ? "" : hash.substring(i + 1);
+  const params = Object.fromEntries(
+    requete
+      .split("&")
+      .filter(Boolean)
+      .map((p) => {
+        const j = p.indexOf("=");
+        return j === -1 ? [p, ""] : [p.slice(0, j), p.slice(j + 1)];
+      })
+  );
+  const onglet = chemin.startsWith("/")
+    ? ongletDuSlug(decoder(chemin.slice(1)).replace(/\/$/, ""))
+    : ROUTES.find((r) => r.onglet === decoder(chemin))?.onglet ?? null;
+  return onglet ? { onglet, params } : null;
+}
+
+export function ecrireRoute(onglet: string, params: Record<string, string> = {}): string {
+  const requete = Object.entries(params)
+    .map(([k, v]) => `${k}=${v}`)
+    .join("&");
+  return `#/${slugDeLOnglet(onglet)}${requete ? `?${requete}` : ""}`;
+}